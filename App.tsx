@@ -15,6 +15,8 @@ import CellCount from './pages/CellCount';
 import Logarithm from './pages/Logarithm';
 import LabTimer from './pages/LabTimer';
 import FastaCleaner from './pages/FastaCleaner';
+import SequenceToolkit from './pages/SequenceToolkit';
+import TraceViewer from './pages/TraceViewer';
 import RestrictionFinder from './pages/RestrictionFinder';
 import Admin from './pages/Admin';
 import CookiesPolicy from './pages/CookiesPolicy';
@@ -72,6 +74,8 @@ const App: React.FC = () => {
           <Route path="/log" element={<Logarithm />} />
           <Route path="/timer" element={<LabTimer />} />
           <Route path="/fasta" element={<FastaCleaner />} />
+          <Route path="/sequence" element={<SequenceToolkit />} />
+          <Route path="/trace" element={<TraceViewer />} />
           <Route path="/restriction" element={<RestrictionFinder />} />
           <Route path="/admin" element={<Admin />} />
           <Route path="/cookies" element={<CookiesPolicy />} />
@@ -0,0 +1,185 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, Image, Plus, X } from 'lucide-react';
+import { Card, Button, Input, Select } from './UI';
+import { safeNum, downloadBlob } from '../utils';
+import { findEnzyme } from '../lib/enzymes';
+import { digest } from '../lib/digest';
+import { HostMethylation } from '../lib/methylation';
+import { GelBand, GelSample, LadderId, LADDERS, equimolarSamples, ladderSamples, resolveBands, uncutPlasmidSamples } from '../lib/gel';
+
+interface AgaroseGelProps {
+  sequence: string; // cleaned
+  circular: boolean;
+  host: HostMethylation;
+  selection: string[]; // enzymes picked in the finder, shown as their own lane
+}
+
+type Lane = { kind: 'uncut' } | { kind: 'selection' } | { kind: 'digest'; enzymes: string[] };
+
+const GEL_HEIGHT = 420;
+const WELL_TOP = 40;
+const RUN_LENGTH = GEL_HEIGHT - WELL_TOP - 20;
+const LANE_WIDTH = 64;
+const LABEL_WIDTH = 56;
+const REFERENCE_MASS = 125; // ng giving a saturated band
+
+/** Virtual agarose gel: ladder plus uncut and digest lanes of the current sequence. */
+const AgaroseGel: React.FC<AgaroseGelProps> = ({ sequence, circular, host, selection }) => {
+  const [ladderId, setLadderId] = useState<LadderId>('1kb');
+  const [agarose, setAgarose] = useState(1);
+  const [load, setLoad] = useState(500);
+  const [lanes, setLanes] = useState<Lane[]>([{ kind: 'uncut' }, { kind: 'selection' }]);
+  const [newLane, setNewLane] = useState('');
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const ladder = LADDERS[ladderId];
+  const pct = Math.min(3, Math.max(0.5, agarose));
+
+  const rendered = useMemo(() => {
+    const samplesFor = (enzymeNames: string[]): GelSample[] => {
+      const enzymes = enzymeNames.map(findEnzyme).filter((e): e is NonNullable<typeof e> => !!e);
+      const { cuts, fragments } = digest(sequence, enzymes, circular, host);
+      if (circular && cuts.length === 0) return uncutPlasmidSamples(sequence.length, load);
+      return equimolarSamples(fragments.map(f => f.length), load);
+    };
+    const ladderLane = { label: ladder.name.replace(' Ladder', ''), bands: resolveBands(ladderSamples(ladder), pct) };
+    if (!sequence) return [ladderLane];
+    return [
+      ladderLane,
+      ...lanes.map(lane => {
+        if (lane.kind === 'uncut') {
+          const samples = circular ? uncutPlasmidSamples(sequence.length, load) : equimolarSamples([sequence.length], load);
+          return { label: 'Uncut', bands: resolveBands(samples, pct) };
+        }
+        const names = lane.kind === 'selection' ? selection : lane.enzymes;
+        return { label: names.length > 3 ? `${names.length} enz.` : names.join('+') || '—', bands: resolveBands(samplesFor(names), pct) };
+      }),
+    ];
+  }, [sequence, circular, host, selection, lanes, ladder, pct, load]);
+
+  const addLane = () => {
+    const names = newLane.split(/[\s,+/]+/).map(n => n.trim()).filter(Boolean)
+      .map(n => findEnzyme(n)?.name ?? '').filter(Boolean);
+    if (names.length === 0) return;
+    setLanes(l => [...l, { kind: 'digest', enzymes: names }]);
+    setNewLane('');
+  };
+
+  const svgMarkup = () => {
+    if (!svgRef.current) return '';
+    const clone = svgRef.current.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    return new XMLSerializer().serializeToString(clone);
+  };
+
+  const exportSvg = () => downloadBlob('virtual_gel.svg', new Blob([svgMarkup()], { type: 'image/svg+xml' }));
+
+  const exportPng = () => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const { width, height } = svg.viewBox.baseVal;
+    const img = new window.Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.scale(2, 2);
+      ctx.drawImage(img, 0, 0, width, height);
+      canvas.toBlob(blob => blob && downloadBlob('virtual_gel.png', blob), 'image/png');
+    };
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgMarkup())}`;
+  };
+
+  const width = LABEL_WIDTH + rendered.length * LANE_WIDTH + 16;
+  const y = (position: number) => WELL_TOP + position * RUN_LENGTH;
+
+  return (
+    <Card
+      title="Virtual Gel"
+      action={
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={exportSvg} icon={<Download size={14} />}>SVG</Button>
+          <Button variant="outline" size="sm" onClick={exportPng} icon={<Image size={14} />}>PNG</Button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <Select label="Ladder" value={ladderId} onChange={(e) => setLadderId(e.target.value as LadderId)}>
+            {Object.values(LADDERS).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </Select>
+          <Input label="Agarose" unit="%" step={0.1} value={agarose} onChange={(e) => setAgarose(safeNum(e.target.value))} />
+          <Input label="DNA per Lane" unit="ng" value={load} onChange={(e) => setLoad(Math.max(1, safeNum(e.target.value)))} />
+        </div>
+
+        <div className="overflow-x-auto">
+          <svg ref={svgRef} viewBox={`0 0 ${width} ${GEL_HEIGHT}`} width={width} height={GEL_HEIGHT} className="mx-auto rounded-2xl">
+            <rect x={0} y={0} width={width} height={GEL_HEIGHT} rx={12} fill="#1e1b4b" />
+            {rendered.map((lane, i) => {
+              const x = LABEL_WIDTH + i * LANE_WIDTH;
+              return (
+                <g key={i}>
+                  <text x={x + LANE_WIDTH / 2} y={20} fontSize={10} fontWeight="bold" fill={i === 0 ? '#c7d2fe' : '#fbcfe8'} textAnchor="middle" fontFamily="sans-serif">
+                    {lane.label}
+                  </text>
+                  <rect x={x + 8} y={WELL_TOP - 10} width={LANE_WIDTH - 16} height={6} fill="#0f0d2e" stroke="#4338ca" strokeWidth={0.5} />
+                  {lane.bands.map((band, j) => <Band key={j} band={band} x={x + 8} width={LANE_WIDTH - 16} y={y(band.position)} ladder={i === 0} />)}
+                </g>
+              );
+            })}
+            {rendered[0].bands.map((band, j) => (
+              <text key={j} x={LABEL_WIDTH - 6} y={y(band.position) + 3} fontSize={9} fill="#a5b4fc" textAnchor="end" fontFamily="monospace">
+                {band.samples.map(s => s.size).join('/')}
+              </text>
+            ))}
+            <text x={width - 8} y={GEL_HEIGHT - 6} fontSize={9} fill="#6366f1" textAnchor="end" fontFamily="sans-serif">{pct}% agarose</text>
+          </svg>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {lanes.map((lane, i) => (
+            <span key={i} className="flex items-center px-3 py-1.5 rounded-full text-xs font-bold bg-slate-100 text-slate-600">
+              {lane.kind === 'uncut' ? 'Uncut' : lane.kind === 'selection' ? 'Current selection' : lane.enzymes.join('+')}
+              <button onClick={() => setLanes(l => l.filter((_, k) => k !== i))} className="ml-1.5 text-slate-400 hover:text-pink-600"><X size={12} /></button>
+            </span>
+          ))}
+          {!lanes.some(l => l.kind === 'uncut') && (
+            <button onClick={() => setLanes(l => [{ kind: 'uncut' }, ...l])} className="px-3 py-1.5 rounded-full text-xs font-bold border border-dashed border-slate-300 text-slate-500">+ Uncut</button>
+          )}
+          <div className="flex items-center space-x-2 ml-auto">
+            <input
+              type="text"
+              value={newLane}
+              onChange={(e) => setNewLane(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addLane()}
+              placeholder="EcoRI+BamHI"
+              className="w-40 px-3 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-xs focus:bg-white focus:border-pink-500 focus:ring-0"
+            />
+            <Button variant="secondary" size="sm" onClick={addLane} icon={<Plus size={14} />}>Lane</Button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 ml-1">
+          Band brightness scales with mass (fragments are equimolar, so longer ones are brighter); co-migrating fragments merge into one band.
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+// Sub-components
+const Band: React.FC<{ band: GelBand; x: number; y: number; width: number; ladder: boolean }> = ({ band, x, y, width, ladder }) => {
+  const intensity = Math.min(1, 0.15 + (0.85 * band.mass) / REFERENCE_MASS);
+  const height = 2 + Math.min(4, band.mass / 50);
+  const forms = band.samples.map(s => `${s.size} bp${s.form === 'linear' ? '' : ` ${s.form}`}`).join(', ');
+  return (
+    <g>
+      <title>{`${forms} · ${band.mass.toFixed(0)} ng`}</title>
+      <rect x={x - 2} y={y - height} width={width + 4} height={height * 2} rx={3} fill={ladder ? '#a5b4fc' : '#f472b6'} opacity={intensity * 0.25} />
+      <rect x={x} y={y - height / 2} width={width} height={height} rx={1.5} fill={ladder ? '#e0e7ff' : '#fce7f3'} opacity={intensity} />
+    </g>
+  );
+};
+
+export default AgaroseGel;
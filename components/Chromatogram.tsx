@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Trace, TRACE_BASES, TraceBase } from '../lib/chromatogram';
+
+interface ChromatogramProps {
+  trace: Trace;
+  trim: [number, number]; // kept base range [start, end)
+  zoom: number; // pixels per sample
+  marks?: Map<number, string>; // base index -> highlight colour
+  focus?: number | null; // base index to scroll into view
+  onSelect?: (index: number) => void;
+}
+
+const BASE_COLORS: Record<TraceBase, string> = { A: '#16a34a', C: '#2563eb', G: '#0f172a', T: '#dc2626' };
+
+const LABEL_H = 34;
+const SIGNAL_H = 150;
+const QUALITY_H = 36;
+const HEIGHT = LABEL_H + SIGNAL_H + QUALITY_H + 4;
+const MAX_Q = 60;
+
+/** Scrollable four-channel trace with base calls, Phred bars and shaded trimmed ends. */
+const Chromatogram: React.FC<ChromatogramProps> = ({ trace, trim, zoom, marks, focus = null, onSelect }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { peaks, baseCalls, qualities } = trace;
+  const samples = trace.channels.A.length;
+  const width = Math.max(1, samples * zoom);
+
+  // Scale to the tallest peak inside the kept range; end artefacts are clipped
+  const paths = useMemo(() => {
+    const from = peaks[trim[0]] ?? 0;
+    const to = peaks[Math.max(trim[0], trim[1] - 1)] ?? samples;
+    let max = 1;
+    for (const base of TRACE_BASES) {
+      const ch = trace.channels[base];
+      for (let i = from; i <= to && i < ch.length; i++) if (ch[i] > max) max = ch[i];
+    }
+    const y = (v: number) => (LABEL_H + SIGNAL_H - (Math.min(v, max) / max) * SIGNAL_H).toFixed(1);
+    return TRACE_BASES.map(base => ({
+      base,
+      points: trace.channels[base].map((v, i) => `${(i * zoom).toFixed(1)},${y(v)}`).join(' '),
+    }));
+  }, [trace, trim, zoom, peaks, samples]);
+
+  // Boundary between two calls, halfway between their peaks
+  const edge = (i: number) => {
+    if (i <= 0) return 0;
+    if (i >= peaks.length) return width;
+    return ((peaks[i - 1] + peaks[i]) / 2) * zoom;
+  };
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || focus === null || peaks[focus] === undefined) return;
+    el.scrollTo({ left: peaks[focus] * zoom - el.clientWidth / 2, behavior: 'smooth' });
+  }, [focus, zoom, peaks]);
+
+  return (
+    <div ref={scrollRef} className="overflow-x-auto rounded-xl border border-slate-100 bg-white">
+      <svg width={width} height={HEIGHT} className="block">
+        {marks && [...marks].map(([i, color]) => (
+          <rect key={`m${i}`} x={edge(i)} y={0} width={Math.max(2, edge(i + 1) - edge(i))} height={HEIGHT} fill={color} fillOpacity={0.35} />
+        ))}
+        {focus !== null && peaks[focus] !== undefined && (
+          <rect x={edge(focus)} y={0} width={Math.max(2, edge(focus + 1) - edge(focus))} height={HEIGHT} fill="none" stroke="#db2777" strokeWidth={2} />
+        )}
+        {paths.map(p => (
+          <polyline key={p.base} points={p.points} fill="none" stroke={BASE_COLORS[p.base]} strokeWidth={1} strokeLinejoin="round" />
+        ))}
+        <rect x={0} y={0} width={edge(trim[0])} height={HEIGHT} fill="#cbd5e1" fillOpacity={0.45} />
+        <rect x={edge(trim[1])} y={0} width={Math.max(0, width - edge(trim[1]))} height={HEIGHT} fill="#cbd5e1" fillOpacity={0.45} />
+        {peaks.map((peak, i) => {
+          const x = peak * zoom;
+          const call = baseCalls[i];
+          const q = qualities[i];
+          const h = q === undefined ? 0 : (Math.min(q, MAX_Q) / MAX_Q) * QUALITY_H;
+          return (
+            <g key={i} onClick={onSelect && (() => onSelect(i))} className={onSelect ? 'cursor-pointer' : undefined}>
+              {(i + 1) % 10 === 0 && <text x={x} y={11} textAnchor="middle" fontSize="9" fill="#94a3b8">{i + 1}</text>}
+              <text x={x} y={28} textAnchor="middle" fontSize="12" fontWeight="bold" fontFamily="monospace" fill={BASE_COLORS[call as TraceBase] ?? '#d97706'}>
+                {call}
+              </text>
+              {q !== undefined && (
+                <rect x={x - 3} y={HEIGHT - h} width={6} height={h} fill={q >= 30 ? '#94a3b8' : q >= 20 ? '#f59e0b' : '#ef4444'}>
+                  <title>{`${i + 1} ${call} Q${q}`}</title>
+                </rect>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default Chromatogram;
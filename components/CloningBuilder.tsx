@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Copy, Scissors } from 'lucide-react';
+import { Card, Input, Select } from './UI';
+import { safeNum } from '../utils';
+import { BufferConditions } from '../lib/primerThermo';
+import { ENZYMES, isTypeIIS } from '../lib/enzymes';
+import { CloningPrimer, CloningStrategy, SegmentKind, INFUSION_OVERLAP, designCloningPrimers } from '../lib/cloningPrimers';
+
+// Sites that can go into a primer tail as written: no degenerate bases, cut within the site
+const TAIL_ENZYMES = ENZYMES.filter(e => /^[ACGT]+$/.test(e.seq) && !isTypeIIS(e));
+
+const SEGMENT_STYLES: Record<SegmentKind, string> = {
+  leader: 'bg-slate-100 text-slate-500',
+  site: 'bg-pink-100 text-pink-700',
+  overlap: 'bg-amber-100 text-amber-800',
+  anneal: 'bg-emerald-100 text-emerald-800',
+};
+
+/** Cloning mode of the Primer Engine: tails an insert's primers for restriction or overlap cloning. */
+const CloningBuilder: React.FC<{ buffer: BufferConditions }> = ({ buffer }) => {
+  const [insert, setInsert] = useState('');
+  const [vector, setVector] = useState('');
+  const [vectorCircular, setVectorCircular] = useState(true);
+  const [strategy, setStrategy] = useState<CloningStrategy>('restriction');
+  const [fwdEnzyme, setFwdEnzyme] = useState('EcoRI');
+  const [revEnzyme, setRevEnzyme] = useState('BamHI');
+  const [leader, setLeader] = useState('GCGC');
+  const [overlapLength, setOverlapLength] = useState(20);
+  const [targetTm, setTargetTm] = useState(60);
+
+  const design = useMemo(() => designCloningPrimers({
+    insert, vector, vectorCircular, strategy, fwdEnzyme, revEnzyme, leader,
+    overlapLength: Math.min(25, Math.max(15, overlapLength)),
+    targetTm, cond: buffer,
+  }), [insert, vector, vectorCircular, strategy, fwdEnzyme, revEnzyme, leader, overlapLength, targetTm, buffer]);
+
+  const needsVector = strategy !== 'restriction';
+
+  return (
+    <div className="space-y-8">
+      <Card title="Insert & Vector">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-900 ml-1">Insert (5'→3', sense)</label>
+            <textarea
+              className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-emerald-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-32 resize-none"
+              placeholder="PASTE INSERT SEQUENCE..."
+              value={insert}
+              onChange={(e) => setInsert(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-900 ml-1 flex justify-between">
+              <span>Vector {needsVector ? '' : '(optional, checks site uniqueness)'}</span>
+              <span className="flex items-center text-xs font-medium text-slate-500">
+                <input type="checkbox" className="mr-1.5 rounded" checked={vectorCircular} onChange={(e) => setVectorCircular(e.target.checked)} />
+                Circular
+              </span>
+            </label>
+            <textarea
+              className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-amber-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-32 resize-none"
+              placeholder="PASTE VECTOR SEQUENCE..."
+              value={vector}
+              onChange={(e) => setVector(e.target.value)}
+            />
+          </div>
+        </div>
+      </Card>
+
+      <Card title="Strategy">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+          <Select label="Method" value={strategy} onChange={(e) => setStrategy(e.target.value as CloningStrategy)}>
+            <option value="restriction">Restriction Sites</option>
+            <option value="gibson">Gibson Assembly</option>
+            <option value="infusion">In-Fusion</option>
+          </Select>
+          <Select label={needsVector ? 'Linearize (Left Cut)' : 'Forward Enzyme'} value={fwdEnzyme} onChange={(e) => setFwdEnzyme(e.target.value)}>
+            {TAIL_ENZYMES.map(enz => <option key={enz.name} value={enz.name}>{enz.name}</option>)}
+          </Select>
+          <Select label={needsVector ? 'Linearize (Right Cut)' : 'Reverse Enzyme'} value={revEnzyme} onChange={(e) => setRevEnzyme(e.target.value)}>
+            {TAIL_ENZYMES.map(enz => <option key={enz.name} value={enz.name}>{enz.name}</option>)}
+          </Select>
+          {strategy === 'restriction' ? (
+            <Input label="Leader" type="text" value={leader} onChange={(e) => setLeader(e.target.value)} />
+          ) : (
+            <Input
+              label="Overlap"
+              unit="nt"
+              value={strategy === 'infusion' ? INFUSION_OVERLAP : overlapLength}
+              disabled={strategy === 'infusion'}
+              onChange={(e) => setOverlapLength(safeNum(e.target.value))}
+            />
+          )}
+          <Input label="Annealing Tm" unit="°C" value={targetTm} onChange={(e) => setTargetTm(safeNum(e.target.value))} />
+        </div>
+        <p className="text-xs text-slate-500 ml-1 mt-3">
+          {strategy === 'restriction'
+            ? 'Leader bases let the enzyme cut close to the end of the PCR product.'
+            : strategy === 'gibson'
+              ? 'Gibson overlaps of 15-25 nt are taken from the vector on either side of the cut(s). Pick the same enzyme twice for a single cut.'
+              : 'In-Fusion uses fixed 15 nt overlaps homologous to the linearized vector ends.'}
+        </p>
+      </Card>
+
+      <Card title="Cloning Primers">
+        {design ? (
+          <div className="space-y-6">
+            <CloningPrimerRow label="Forward" primer={design.forward} />
+            <CloningPrimerRow label="Reverse" primer={design.reverse} />
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <Stat label="Product" value={`${design.product.length} bp`} />
+              {design.overlapTms && (
+                <>
+                  <Stat label="Left Overlap Tm" value={`${design.overlapTms.left.toFixed(1)} °C`} />
+                  <Stat label="Right Overlap Tm" value={`${design.overlapTms.right.toFixed(1)} °C`} />
+                </>
+              )}
+            </div>
+            {design.warnings.map(w => (
+              <div key={w} className="flex items-start p-3 bg-amber-50 text-amber-800 rounded-lg text-sm border border-amber-100">
+                <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                <p>{w}</p>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-3 text-xs">
+              {(Object.keys(SEGMENT_STYLES) as SegmentKind[]).map(k => (
+                <span key={k} className={`px-2 py-0.5 rounded font-bold capitalize ${SEGMENT_STYLES[k]}`}>{k === 'anneal' ? 'annealing' : k}</span>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+            <Scissors size={32} strokeWidth={1} className="mb-3 opacity-50" />
+            {needsVector ? 'Enter an insert and a vector cut by the selected enzyme(s)' : 'Enter an insert of at least 32 bp'}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+// Sub-components
+export const CloningPrimerRow: React.FC<{ label: string; primer: CloningPrimer }> = ({ label, primer }) => (
+  <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+    <div className="flex justify-between items-center">
+      <span className="font-bold text-slate-800">{label} <span className="text-xs font-medium text-slate-400">{primer.full.length} nt</span></span>
+      <button
+        onClick={() => navigator.clipboard.writeText(primer.full)}
+        className="text-slate-400 hover:text-slate-900 transition-colors"
+        title="Copy oligo"
+      >
+        <Copy size={14} />
+      </button>
+    </div>
+    <div className="font-mono text-sm break-all">
+      <span className="text-slate-400">5'-</span>
+      {primer.segments.map((s, i) => (
+        <span key={i} title={s.label} className={`px-0.5 rounded ${SEGMENT_STYLES[s.kind]}`}>{s.seq}</span>
+      ))}
+      <span className="text-slate-400">-3'</span>
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+      <Stat label="Annealing Tm" value={`${primer.anneal.tmNN.toFixed(1)} °C`} />
+      <Stat label="Full Oligo Tm" value={`${primer.whole.tmNN.toFixed(1)} °C`} />
+      <Stat label="Annealing GC" value={`${primer.anneal.gc.toFixed(0)}%`} />
+      <Stat label="Annealing Length" value={`${primer.anneal.length} nt`} />
+    </div>
+  </div>
+);
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-2 bg-white rounded-lg border border-slate-100">
+    <div className="text-slate-400 uppercase font-bold text-[10px]">{label}</div>
+    <div className="font-mono font-bold text-slate-900">{value}</div>
+  </div>
+);
+
+export default CloningBuilder;
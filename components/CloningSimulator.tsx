@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download, Eye, TestTube } from 'lucide-react';
+import { Button, Card, Select } from './UI';
+import { downloadBlob } from '../utils';
+import { Enzyme, ENZYMES, findEnzyme } from '../lib/enzymes';
+import { HostMethylation } from '../lib/methylation';
+import { SeqFeature } from '../lib/features';
+import { SequenceDocument, parseSequenceText, toGenBank } from '../lib/sequenceIO';
+import { CloningResult, DiagnosticDigest, Junction, simulateCloning, suggestDiagnosticDigests } from '../lib/ligation';
+import SequenceFileButton from './SequenceFileButton';
+
+interface CloningSimulatorProps {
+  vector: string; // cleaned
+  circular: boolean;
+  features: SeqFeature[];
+  vectorName: string;
+  host: HostMethylation;
+  onOpenProduct: (doc: SequenceDocument) => void;
+}
+
+const NONE = '';
+
+const enzymeList = (names: string[]): Enzyme[] =>
+  [...new Set(names.filter(Boolean))].map(name => findEnzyme(name)).filter((e): e is Enzyme => !!e);
+
+/** Restriction-ligation cloning of an insert into the current vector, with a digest to check the clone. */
+const CloningSimulator: React.FC<CloningSimulatorProps> = ({ vector, circular, features, vectorName, host, onOpenProduct }) => {
+  const [insertText, setInsertText] = useState('');
+  // Annotations and topology from an opened insert file; dropped when the text is edited
+  const [insertFile, setInsertFile] = useState<SequenceDocument | null>(null);
+  const [vectorEnzymes, setVectorEnzymes] = useState<[string, string]>(['EcoRI', 'XhoI']);
+  const [sameEnzymes, setSameEnzymes] = useState(true);
+  const [insertEnzymes, setInsertEnzymes] = useState<[string, string]>(['EcoRI', 'XhoI']);
+  const [insertIndex, setInsertIndex] = useState(0);
+  const [productIndex, setProductIndex] = useState(0);
+
+  const insert = useMemo(() => insertFile ?? parseSequenceText(insertText, 'insert')[0] ?? null, [insertFile, insertText]);
+  const cutters = useMemo(() => enzymeList(vectorEnzymes), [vectorEnzymes]);
+  const insertCutters = useMemo(() => (sameEnzymes ? cutters : enzymeList(insertEnzymes)), [sameEnzymes, cutters, insertEnzymes]);
+
+  const outcome = useMemo((): { result?: CloningResult; error?: string } => {
+    if (!vector || !insert || cutters.length === 0 || insertCutters.length === 0) return {};
+    try {
+      return { result: simulateCloning({ seq: vector, circular, features }, cutters, insert, insertCutters, host, insertIndex) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [vector, circular, features, insert, cutters, insertCutters, host, insertIndex]);
+  const result = outcome.result;
+  const product = result?.products[Math.min(productIndex, result.products.length - 1)];
+
+  const diagnostics = useMemo((): DiagnosticDigest[] => {
+    if (!result || result.products.length === 0) return [];
+    const [first, second] = result.products;
+    return suggestDiagnosticDigests(first.seq, vector, second?.seq ?? null, cutters, host);
+  }, [result, vector, cutters, host]);
+
+  const productName = `${vectorName}_${insert?.name.split(/\s/)[0] ?? 'insert'}`;
+  const productDoc = (): SequenceDocument | null => product
+    ? { name: productName, description: `${insert?.name ?? 'insert'} in ${vectorName} (${product.orientation})`, seq: product.seq, circular: true, features: product.features, format: 'genbank' }
+    : null;
+
+  const handleExport = () => {
+    const doc = productDoc();
+    if (doc) downloadBlob(`${productName}.gb`, new Blob([toGenBank(doc)], { type: 'text/plain' }));
+  };
+
+  const enzymeOptions = (
+    <>
+      <option value={NONE}>—</option>
+      {ENZYMES.map(e => <option key={e.name} value={e.name}>{e.name} · {e.seq}</option>)}
+    </>
+  );
+
+  return (
+    <Card
+      title="Cloning Simulator"
+      action={<SequenceFileButton variant="ghost" label="Open Insert" onLoad={docs => { setInsertFile(docs[0]); setInsertText(docs[0].seq); setInsertIndex(0); }} />}
+    >
+      <div className="space-y-6">
+        <textarea
+          className="w-full p-3 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-20 resize-none"
+          placeholder="PASTE INSERT (PCR PRODUCT OR DONOR PLASMID)..."
+          value={insertText}
+          onChange={(e) => { setInsertText(e.target.value); setInsertFile(null); setInsertIndex(0); }}
+        />
+        {insertFile && (
+          <label className="flex items-center text-xs font-semibold text-slate-600">
+            <input type="checkbox" className="mr-2 rounded" checked={insertFile.circular} onChange={(e) => setInsertFile({ ...insertFile, circular: e.target.checked })} />
+            Donor plasmid (circular)
+          </label>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <Select label="Vector Enzyme 1" value={vectorEnzymes[0]} onChange={(e) => setVectorEnzymes([e.target.value, vectorEnzymes[1]])}>{enzymeOptions}</Select>
+          <Select label="Vector Enzyme 2" value={vectorEnzymes[1]} onChange={(e) => setVectorEnzymes([vectorEnzymes[0], e.target.value])}>{enzymeOptions}</Select>
+        </div>
+        <label className="flex items-center text-xs font-semibold text-slate-600">
+          <input type="checkbox" className="mr-2 rounded" checked={sameEnzymes} onChange={(e) => setSameEnzymes(e.target.checked)} />
+          Cut the insert with the same enzymes
+        </label>
+        {!sameEnzymes && (
+          <div className="grid grid-cols-2 gap-4">
+            <Select label="Insert Enzyme 1" value={insertEnzymes[0]} onChange={(e) => setInsertEnzymes([e.target.value, insertEnzymes[1]])}>{enzymeOptions}</Select>
+            <Select label="Insert Enzyme 2" value={insertEnzymes[1]} onChange={(e) => setInsertEnzymes([insertEnzymes[0], e.target.value])}>{enzymeOptions}</Select>
+          </div>
+        )}
+
+        {outcome.error && <p className="text-xs text-red-500">{outcome.error}</p>}
+
+        {result && (
+          <div className="space-y-4">
+            {result.insertFragments.length > 1 && (
+              <Select label="Insert Fragment" value={insertIndex} onChange={(e) => setInsertIndex(parseInt(e.target.value, 10))}>
+                {result.insertFragments.map((f, i) => (
+                  <option key={i} value={i}>{f.length} bp · {f.left?.enzyme}–{f.right?.enzyme} ({f.start + 1}–{f.end})</option>
+                ))}
+              </Select>
+            )}
+            {result.warnings.map(w => (
+              <div key={w} className="flex items-start text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" /> {w}
+              </div>
+            ))}
+            <div className="text-xs text-slate-500">
+              Backbone {result.backbone.length} bp ({result.backbone.left?.enzyme}–{result.backbone.right?.enzyme}) · insert {result.insert.length} bp
+            </div>
+          </div>
+        )}
+
+        {product && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex space-x-2">
+                {result?.products.map((p, i) => (
+                  <button
+                    key={p.orientation}
+                    onClick={() => setProductIndex(i)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${p === product ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                  >
+                    {p.orientation === 'forward' ? 'Forward' : 'Reverse'} · {p.seq.length} bp
+                  </button>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="ghost" size="sm" onClick={() => { const doc = productDoc(); if (doc) onOpenProduct(doc); }} icon={<Eye size={14} />}>Open in Map</Button>
+                <Button variant="outline" size="sm" onClick={handleExport} icon={<Download size={14} />}>GenBank</Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {product.junctions.map((j, i) => <JunctionBox key={i} junction={j} title={i === 0 ? "5' junction" : "3' junction"} />)}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {product.features.map((f, i) => (
+                <span key={i} className={`px-2 py-0.5 rounded text-[11px] font-mono ${f.label === 'insert' ? 'bg-pink-100 text-pink-700' : 'bg-slate-100 text-slate-600'}`} title={f.type}>
+                  {f.label} {f.start + 1}–{f.end}{f.strand === -1 ? ' (−)' : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {diagnostics.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="flex items-center text-sm font-bold text-slate-700"><TestTube size={16} className="mr-2 text-pink-500" /> Diagnostic Digest</h4>
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-500 font-bold uppercase">
+                <tr>
+                  <th className="px-2 py-2">Enzymes</th>
+                  <th className="px-2 py-2">Clone</th>
+                  <th className="px-2 py-2">Empty Vector</th>
+                  {diagnostics[0].reverse && <th className="px-2 py-2">Reversed Insert</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {diagnostics.map(d => (
+                  <tr key={d.enzymes.join('+')}>
+                    <td className="px-2 py-1.5 font-bold text-slate-700">{d.enzymes.join(' + ')}</td>
+                    <td className="px-2 py-1.5 font-mono text-pink-600">{d.product.join(', ')}</td>
+                    <td className="px-2 py-1.5 font-mono text-slate-500">{d.parent.join(', ')}</td>
+                    {d.reverse && <td className="px-2 py-1.5 font-mono text-slate-500">{d.reverse.join(', ')}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 ml-1">Band sizes in bp. Digests are chosen so every pattern differs by a visible band (≥100 bp, ≥10% apart).</p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// Sub-components
+const JunctionBox: React.FC<{ junction: Junction; title: string }> = ({ junction, title }) => (
+  <div className="p-3 rounded-xl bg-slate-50 border border-slate-100 text-xs">
+    <div className="font-bold text-slate-400 uppercase text-[10px] mb-1">{title} · {junction.position}</div>
+    <div className="font-bold text-slate-700">{junction.left} / {junction.right}</div>
+    <div className={junction.regenerated.length ? 'text-emerald-600' : 'text-slate-500'}>
+      {junction.regenerated.length ? `${junction.regenerated.join(', ')} site restored` : 'No site restored'}
+    </div>
+  </div>
+);
+
+export default CloningSimulator;
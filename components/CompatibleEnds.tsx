@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { Card, Select } from './UI';
+import { getComplement } from '../lib/nucleotide';
+import { Enzyme, ENZYMES, findEnzyme, isTypeIIS } from '../lib/enzymes';
+import { Match, endType, joinEnds } from '../lib/digest';
+
+const MATCH_STYLES: Record<Match, string> = {
+  yes: 'bg-emerald-100 text-emerald-700',
+  maybe: 'bg-amber-100 text-amber-700',
+  no: 'bg-slate-100 text-slate-500',
+};
+
+// Both strands of the site around the cut, with N for bases outside the recognition site
+const endSketch = (enzyme: Enzyme, side: 'left' | 'right'): { top: string; bottom: string } => {
+  const from = Math.min(0, enzyme.cutOffset, enzyme.bottomOffset);
+  const to = Math.max(enzyme.seq.length, enzyme.cutOffset, enzyme.bottomOffset);
+  let top = '';
+  let bottom = '';
+  for (let i = from; i < to; i++) {
+    const base = enzyme.seq[i] ?? 'N';
+    const keepTop = side === 'left' ? i < enzyme.cutOffset : i >= enzyme.cutOffset;
+    const keepBottom = side === 'left' ? i < enzyme.bottomOffset : i >= enzyme.bottomOffset;
+    top += keepTop ? base : ' ';
+    bottom += keepBottom ? getComplement(base) : ' ';
+  }
+  return { top, bottom };
+};
+
+/** Compatible-end checker: whether ends from two digests ligate and which sites the junction keeps. */
+const CompatibleEnds: React.FC = () => {
+  const [left, setLeft] = useState('BamHI');
+  const [right, setRight] = useState('BglII');
+
+  const a = findEnzyme(left) ?? ENZYMES[0];
+  const b = findEnzyme(right) ?? ENZYMES[0];
+  const join = useMemo(() => joinEnds(a, b), [a, b]);
+  const partners = useMemo(
+    () => ENZYMES.filter(e => e !== a && joinEnds(a, e).compatible === 'yes'),
+    [a]
+  );
+
+  const describe = (e: Enzyme) => {
+    const type = endType(e.cutOffset, e.bottomOffset);
+    const n = Math.abs(e.bottomOffset - e.cutOffset);
+    return type === 'blunt' ? 'blunt' : `${n} nt ${type} overhang${isTypeIIS(e) ? ', sequence-dependent' : ''}`;
+  };
+
+  return (
+    <Card title="Compatible Ends">
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 gap-6">
+          <Select label="Digest A (left fragment)" value={left} onChange={(e) => setLeft(e.target.value)}>
+            {ENZYMES.map(e => <option key={e.name} value={e.name}>{e.name} · {e.seq}</option>)}
+          </Select>
+          <Select label="Digest B (right fragment)" value={right} onChange={(e) => setRight(e.target.value)}>
+            {ENZYMES.map(e => <option key={e.name} value={e.name}>{e.name} · {e.seq}</option>)}
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          <EndSketch enzyme={a} side="left" caption={describe(a)} />
+          <EndSketch enzyme={b} side="right" caption={describe(b)} />
+        </div>
+
+        <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center text-sm font-bold text-slate-700">
+              <Link2 size={16} className="mr-2 text-pink-500" /> Ligation
+            </span>
+            <span className={`px-2 py-1 rounded-md text-xs font-bold ${MATCH_STYLES[join.compatible]}`}>
+              {join.compatible === 'yes' ? 'Compatible' : join.compatible === 'maybe' ? 'Depends on sequence' : 'Incompatible'}
+            </span>
+          </div>
+          {join.compatible !== 'no' && (
+            <>
+              <div className="font-mono text-sm text-slate-700 break-all">5'-…{join.junction}…-3'</div>
+              <div className="flex flex-wrap gap-2">
+                {join.regenerates.map(r => (
+                  <span key={r.enzyme} className={`px-2 py-1 rounded-md text-xs font-bold ${MATCH_STYLES[r.match]}`}>
+                    {r.enzyme} site {r.match === 'yes' ? 'regenerated' : r.match === 'maybe' ? 'depends on flanking bases' : 'destroyed'}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {partners.length > 0 && (
+          <div>
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Also compatible with {a.name}</div>
+            <div className="flex flex-wrap gap-2">
+              {partners.map(e => (
+                <button
+                  key={e.name}
+                  onClick={() => setRight(e.name)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${e === b ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                >
+                  {e.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// Sub-components
+const EndSketch: React.FC<{ enzyme: Enzyme; side: 'left' | 'right'; caption: string }> = ({ enzyme, side, caption }) => {
+  const { top, bottom } = endSketch(enzyme, side);
+  return (
+    <div className="p-3 bg-white rounded-xl border border-slate-100">
+      <pre className="font-mono text-sm text-slate-700 leading-tight">
+        {side === 'left' ? `5'…${top}\n3'…${bottom}` : `${top}…3'\n${bottom}…5'`}
+      </pre>
+      <div className="text-xs text-slate-400 mt-2">{enzyme.name}: {caption}</div>
+    </div>
+  );
+};
+
+export default CompatibleEnds;
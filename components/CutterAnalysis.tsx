@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Flame, Target } from 'lucide-react';
+import { Card, Input } from './UI';
+import { safeNum } from '../utils';
+import { cleanSequence } from '../lib/primerThermo';
+import { HostMethylation } from '../lib/methylation';
+import { CUTSMART_COMPATIBLE, findMcsEnzymes, summarizeCutters } from '../lib/cloningSites';
+
+interface CutterAnalysisProps {
+  sequence: string; // cleaned; used as the vector
+  circular: boolean;
+  host: HostMethylation;
+}
+
+type CutterTab = 'single' | 'double' | 'none';
+
+/** Single/double/non-cutter lists for the sequence, and MCS enzymes for cloning an insert into it. */
+const CutterAnalysis: React.FC<CutterAnalysisProps> = ({ sequence, circular, host }) => {
+  const [tab, setTab] = useState<CutterTab>('single');
+  const [insert, setInsert] = useState('');
+  const [mcsStart, setMcsStart] = useState<number | ''>('');
+  const [mcsEnd, setMcsEnd] = useState<number | ''>('');
+
+  const summary = useMemo(() => (sequence ? summarizeCutters(sequence, circular, host) : null), [sequence, circular, host]);
+  const candidates = useMemo(() => {
+    if (!sequence) return [];
+    // MCS bounds are 1-based and inclusive in the inputs
+    const region = mcsStart !== '' && mcsEnd !== '' && mcsEnd >= mcsStart ? { start: mcsStart - 1, end: mcsEnd } : undefined;
+    return findMcsEnzymes(sequence, cleanSequence(insert), circular, host, region);
+  }, [sequence, insert, circular, host, mcsStart, mcsEnd]);
+
+  if (!summary) return null;
+
+  const lists: Record<CutterTab, { label: string; names: string[] }> = {
+    single: { label: 'Single', names: summary.single.map(c => `${c.enzyme.name} (${c.sites[0].topCut})`) },
+    double: { label: 'Double', names: summary.double.map(c => `${c.enzyme.name} (${c.sites.map(s => s.topCut).join(', ')})`) },
+    none: { label: 'Non-cutters', names: summary.none.map(e => e.name) },
+  };
+
+  return (
+    <Card title="Cutter Analysis">
+      <div className="space-y-6">
+        <div>
+          <div className="flex space-x-2 mb-3">
+            {(Object.keys(lists) as CutterTab[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${tab === key ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+              >
+                {lists[key].label} · {lists[key].names.length}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs font-mono text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 max-h-32 overflow-y-auto leading-relaxed">
+            {lists[tab].names.join(', ') || 'None'}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h4 className="flex items-center text-sm font-bold text-slate-700"><Target size={16} className="mr-2 text-pink-500" /> Cloning Sites</h4>
+          <textarea
+            className="w-full p-3 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-20 resize-none"
+            placeholder="PASTE INSERT (must not be cut)..."
+            value={insert}
+            onChange={(e) => setInsert(e.target.value)}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="MCS Start" unit="bp" value={mcsStart} onChange={(e) => setMcsStart(e.target.value === '' ? '' : safeNum(e.target.value))} />
+            <Input label="MCS End" unit="bp" value={mcsEnd} onChange={(e) => setMcsEnd(e.target.value === '' ? '' : safeNum(e.target.value))} />
+          </div>
+          <div className="overflow-y-auto max-h-72 pr-1">
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-500 font-bold uppercase sticky top-0 bg-white">
+                <tr>
+                  <th className="px-2 py-2">Enzyme</th>
+                  <th className="px-2 py-2">Cut</th>
+                  <th className="px-2 py-2">Ends</th>
+                  <th className="px-2 py-2">rCutSmart</th>
+                  <th className="px-2 py-2">Heat Kill</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {candidates.length > 0 ? candidates.map(c => (
+                  <tr key={c.enzyme.name}>
+                    <td className="px-2 py-1.5 font-bold text-slate-700">{c.enzyme.name}</td>
+                    <td className="px-2 py-1.5 font-mono text-pink-500">{c.cut}</td>
+                    <td className="px-2 py-1.5 text-slate-500">{c.end}</td>
+                    <td className={`px-2 py-1.5 font-mono ${(c.properties?.cutSmart ?? 0) >= CUTSMART_COMPATIBLE ? 'text-emerald-600' : 'text-amber-600'}`}>
+                      {c.properties ? `${c.properties.cutSmart}%` : '?'}
+                    </td>
+                    <td className="px-2 py-1.5 text-slate-500">
+                      {c.properties?.heatInactivation ? <span className="flex items-center"><Flame size={12} className="mr-1 text-orange-400" />{c.properties.heatInactivation}°C</span> : 'No'}
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={5} className="px-2 py-6 text-center text-slate-400 italic">No enzyme cuts the vector once{insert ? ' without cutting the insert' : ''}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 ml-1">
+            Enzymes with ≥{CUTSMART_COMPATIBLE}% activity in rCutSmart can be combined in one double digest. Ranked by buffer activity, then heat inactivation.
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default CutterAnalysis;
@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, FileText, Loader2, Play, Upload, X } from 'lucide-react';
+import { Button, Card, Input, Select } from './UI';
+import { downloadBlob, safeNum } from '../utils';
+import {
+  ADAPTER_PRESETS, DEFAULT_FASTQ_OPTIONS, MAX_POSITIONS, FastqOptions, FastqReport, FastqRequest, FastqWorkerMessage, PhredOffset,
+} from '../lib/fastq';
+
+interface FastqProcessorProps {
+  source: File | null;
+  onSourceChange: (file: File | null) => void;
+}
+
+const FASTQ_ACCEPT = '.fastq,.fq,.fastq.gz,.fq.gz,.txt';
+const isGzip = (file: File) => /\.gz$/i.test(file.name);
+
+/** FASTQ mode of the FASTA cleaner: quality summary, trimming and conversion, streamed in a worker. */
+const FastqProcessor: React.FC<FastqProcessorProps> = ({ source, onSourceChange }) => {
+  const [options, setOptions] = useState<FastqOptions>(DEFAULT_FASTQ_OPTIONS);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ report: FastqReport; output: Blob; name: string } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setTrim = (change: Partial<FastqOptions['trim']>) => setOptions(o => ({ ...o, trim: { ...o.trim, ...change } }));
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  const handleRun = useCallback(() => {
+    if (!source) return;
+    stopWorker();
+    setRunning(true);
+    setProgress(0);
+    setError('');
+    setResult(null);
+
+    const worker = new Worker(new URL('../lib/fastq.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<FastqWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        setProgress(msg.fraction);
+        return;
+      }
+      if (msg.type === 'result') {
+        const base = source.name.replace(/\.gz$/i, '').replace(/\.[^.]+$/, '');
+        setResult({ report: msg.report, output: msg.output, name: `${base}_trimmed.${options.output === 'fasta' ? 'fasta' : 'fastq'}` });
+      } else {
+        setError(msg.message);
+      }
+      setRunning(false);
+      stopWorker();
+    };
+    worker.onerror = (e) => {
+      setError(e.message || 'FASTQ worker failed');
+      setRunning(false);
+      stopWorker();
+    };
+    const request: FastqRequest = { source, gzip: isGzip(source), options };
+    worker.postMessage(request);
+  }, [source, options, stopWorker]);
+
+  const handleCancel = useCallback(() => {
+    stopWorker();
+    setRunning(false);
+  }, [stopWorker]);
+
+  const report = result?.report;
+  const adapterPreset = ADAPTER_PRESETS.find(a => a.seq === options.trim.adapter)?.seq ?? (options.trim.adapter ? 'custom' : '');
+
+  return (
+    <div className="space-y-8">
+      <Card
+        title="Reads"
+        action={
+          <div className="flex items-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} icon={<Upload size={14} />}>Open FASTQ</Button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept={FASTQ_ACCEPT}
+              onChange={(e) => { onSourceChange(e.target.files?.[0] ?? null); setResult(null); e.target.value = ''; }}
+            />
+          </div>
+        }
+      >
+        {source ? (
+          <div className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <div className="flex items-center">
+              <FileText size={20} className="mr-3 text-pink-500" />
+              <div>
+                <div className="font-bold text-slate-800 text-sm">{source.name}</div>
+                <div className="text-xs text-slate-500">{(source.size / 1e6).toFixed(2)} MB{isGzip(source) ? ' · gzip' : ''}</div>
+              </div>
+            </div>
+            <button onClick={() => { onSourceChange(null); setResult(null); }} className="text-slate-400 hover:text-red-500" title="Remove"><X size={16} /></button>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Open a FASTQ file (plain or .gz). It is read in chunks in the background, so files of tens of MB stay responsive.</p>
+        )}
+      </Card>
+
+      <Card title="Trimming & Output">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <Select label="Quality Encoding" value={String(options.phred)} onChange={(e) => setOptions({ ...options, phred: e.target.value === 'auto' ? 'auto' : (parseInt(e.target.value, 10) as PhredOffset) })}>
+            <option value="auto">Auto-detect</option>
+            <option value="33">Phred+33 (Sanger, Illumina 1.8+)</option>
+            <option value="64">Phred+64 (Illumina 1.3–1.7)</option>
+          </Select>
+          <Input label="Quality Cutoff" unit="Q" value={options.trim.quality} onChange={(e) => setTrim({ quality: safeNum(e.target.value) })} />
+          <Input label="Min Length" unit="nt" value={options.trim.minLength} onChange={(e) => setTrim({ minLength: safeNum(e.target.value) })} />
+          <Input label="Max Length" unit="nt" value={options.trim.maxLength || ''} placeholder="∞" onChange={(e) => setTrim({ maxLength: safeNum(e.target.value) })} />
+          <Select label="3' Adapter" value={adapterPreset} onChange={(e) => setTrim({ adapter: e.target.value })}>
+            <option value="">None</option>
+            {ADAPTER_PRESETS.map(a => <option key={a.seq} value={a.seq}>{a.name}</option>)}
+            {adapterPreset === 'custom' && <option value="custom">Custom</option>}
+          </Select>
+          <Input label="Adapter Sequence" type="text" value={options.trim.adapter} onChange={(e) => setTrim({ adapter: e.target.value.toUpperCase() })} />
+          <Input label="Min Adapter Overlap" unit="nt" value={options.trim.minAdapterOverlap} onChange={(e) => setTrim({ minAdapterOverlap: Math.max(1, safeNum(e.target.value)) })} />
+          <Select label="Output" value={options.output} onChange={(e) => setOptions({ ...options, output: e.target.value as FastqOptions['output'] })}>
+            <option value="fasta">FASTA</option>
+            <option value="fastq">Trimmed FASTQ</option>
+          </Select>
+        </div>
+        <p className="text-xs text-slate-500 ml-1 mt-4">
+          Ends are quality-trimmed as in cutadapt (leading bases below the cutoff, then the BWA algorithm at the 3' end); the adapter is removed at the first match allowing 10% mismatches, including partial adapters at the read end.
+        </p>
+        <div className="flex items-center justify-end space-x-3 mt-6">
+          {running && (
+            <>
+              <div className="w-48 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-pink-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <Button variant="outline" onClick={handleCancel} icon={<X size={16} />}>Cancel</Button>
+            </>
+          )}
+          <Button onClick={handleRun} disabled={!source || running} icon={running ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}>
+            {running ? `Processing ${Math.round(progress * 100)}%` : 'Process Reads'}
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-500 mt-4">{error}</p>}
+      </Card>
+
+      {report && result && (
+        <>
+          <Card
+            title="Summary"
+            action={
+              <Button variant="outline" size="sm" onClick={() => downloadBlob(result.name, result.output)} icon={<Download size={14} />}>
+                {result.name}
+              </Button>
+            }
+          >
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <Stat label="Reads" value={report.reads.toLocaleString()} />
+              <Stat label="Bases" value={report.bases.toLocaleString()} />
+              <Stat label="Length" value={`${report.minLength}–${report.maxLength} (N50 ${report.n50})`} />
+              <Stat label="Encoding" value={`Phred+${report.phred}`} />
+              <Stat label="Mean Quality" value={`Q${report.meanQuality.toFixed(1)}`} />
+              <Stat label="≥Q20 / ≥Q30" value={`${(report.q20 * 100).toFixed(1)}% / ${(report.q30 * 100).toFixed(1)}%`} />
+              <Stat label="Kept Reads" value={`${report.keptReads.toLocaleString()} (${((report.keptReads / report.reads) * 100).toFixed(1)}%)`} />
+              <Stat label="Kept Bases" value={`${report.keptBases.toLocaleString()} (${((report.keptBases / (report.bases || 1)) * 100).toFixed(1)}%)`} />
+            </div>
+            <div className="text-xs text-slate-500 mt-4">
+              {report.qualityTrimmed.toLocaleString()} quality-trimmed · {report.adapterTrimmed.toLocaleString()} with adapter · {report.tooShort.toLocaleString()} too short · {report.tooLong.toLocaleString()} too long
+            </div>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card title="Quality per Position">
+              <PositionChart positions={report.perPosition} />
+              <p className="text-xs text-slate-500 mt-2">
+                Median with interquartile band and mean (line) of the input reads{report.maxLength > MAX_POSITIONS ? `; positions past ${MAX_POSITIONS} are pooled in the last bin` : ''}.
+              </p>
+            </Card>
+            <Card title="Mean Quality per Read">
+              <ReadQualityChart counts={report.readQuality} />
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Sub-components
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <div className="text-xs font-bold text-slate-400 uppercase">{label}</div>
+    <div className="font-bold text-slate-800">{value}</div>
+  </div>
+);
+
+const CHART_W = 480;
+const CHART_H = 200;
+const CHART_MAX_Q = 42;
+const PAD = 28;
+
+// Background bands: poor (<20), fair (20-28), good (>=28)
+const QualityBands: React.FC = () => {
+  const y = (q: number) => CHART_H - PAD - (q / CHART_MAX_Q) * (CHART_H - PAD * 1.5);
+  return (
+    <>
+      <rect x={PAD} y={y(CHART_MAX_Q)} width={CHART_W - PAD} height={y(28) - y(CHART_MAX_Q)} fill="#ecfdf5" />
+      <rect x={PAD} y={y(28)} width={CHART_W - PAD} height={y(20) - y(28)} fill="#fffbeb" />
+      <rect x={PAD} y={y(20)} width={CHART_W - PAD} height={y(0) - y(20)} fill="#fef2f2" />
+      {[0, 10, 20, 30, 40].map(q => (
+        <text key={q} x={PAD - 4} y={y(q) + 3} textAnchor="end" fontSize="9" fill="#94a3b8">{q}</text>
+      ))}
+    </>
+  );
+};
+
+const PositionChart: React.FC<{ positions: FastqReport['perPosition'] }> = ({ positions }) => {
+  const n = Math.max(1, positions.length);
+  const x = (i: number) => PAD + ((i + 0.5) / n) * (CHART_W - PAD);
+  const y = (q: number) => CHART_H - PAD - (Math.min(q, CHART_MAX_Q) / CHART_MAX_Q) * (CHART_H - PAD * 1.5);
+  const band = [
+    ...positions.map((p, i) => `${x(i)},${y(p.q3)}`),
+    ...positions.map((p, i) => `${x(i)},${y(p.q1)}`).reverse(),
+  ].join(' ');
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      <QualityBands />
+      <polygon points={band} fill="#f9a8d4" fillOpacity={0.5} />
+      <polyline points={positions.map((p, i) => `${x(i)},${y(p.median)}`).join(' ')} fill="none" stroke="#db2777" strokeWidth={1.5} />
+      <polyline points={positions.map((p, i) => `${x(i)},${y(p.mean)}`).join(' ')} fill="none" stroke="#0f172a" strokeWidth={1} strokeDasharray="3 2" />
+      <text x={PAD} y={CHART_H - 8} fontSize="9" fill="#94a3b8">1</text>
+      <text x={CHART_W} y={CHART_H - 8} fontSize="9" fill="#94a3b8" textAnchor="end">{positions.length} nt</text>
+    </svg>
+  );
+};
+
+const ReadQualityChart: React.FC<{ counts: number[] }> = ({ counts }) => {
+  const shown = counts.slice(0, CHART_MAX_Q + 1);
+  const max = Math.max(1, ...shown);
+  const w = (CHART_W - PAD) / shown.length;
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      {shown.map((count, q) => {
+        const h = (count / max) * (CHART_H - PAD * 1.5);
+        return (
+          <rect key={q} x={PAD + q * w + 1} y={CHART_H - PAD - h} width={Math.max(1, w - 2)} height={h} fill={q >= 28 ? '#10b981' : q >= 20 ? '#f59e0b' : '#ef4444'}>
+            <title>Q{q}: {count.toLocaleString()} reads</title>
+          </rect>
+        );
+      })}
+      {[0, 10, 20, 30, 40].map(q => (
+        <text key={q} x={PAD + (q + 0.5) * w} y={CHART_H - 12} fontSize="9" fill="#94a3b8" textAnchor="middle">{q}</text>
+      ))}
+      <text x={PAD - 4} y={PAD} fontSize="9" fill="#94a3b8" textAnchor="end">{max.toLocaleString()}</text>
+    </svg>
+  );
+};
+
+export default FastqProcessor;
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, Check, Copy, Download, Layers, Plus, Trash2 } from 'lucide-react';
+import { Button, Card, Input } from './UI';
+import { CloningPrimerRow } from './CloningBuilder';
+import SequenceFileButton from './SequenceFileButton';
+import { downloadBlob, safeNum } from '../utils';
+import { BufferConditions } from '../lib/primerThermo';
+import { ENZYMES } from '../lib/enzymes';
+import { toGenBank } from '../lib/sequenceIO';
+import { FragmentSource, GibsonDesign, GibsonFragment, designGibson } from '../lib/gibson';
+
+const newFragment = (n: number): GibsonFragment => ({ name: `Fragment ${n}`, seq: '', source: 'pcr', enzymes: ['EcoRI', ''] });
+
+/** Gibson / NEBuilder mode of the Primer Engine: overlap primers and junction checks for a multi-fragment assembly. */
+const GibsonDesigner: React.FC<{ buffer: BufferConditions }> = ({ buffer }) => {
+  const [fragments, setFragments] = useState<GibsonFragment[]>([
+    { ...newFragment(1), name: 'Vector', source: 'vector' },
+    newFragment(2),
+  ]);
+  const [circular, setCircular] = useState(true);
+  const [minOverlap, setMinOverlap] = useState(20);
+  const [maxOverlap, setMaxOverlap] = useState(40);
+  const [overlapTm, setOverlapTm] = useState(50);
+  const [targetTm, setTargetTm] = useState(60);
+  const [copied, setCopied] = useState(false);
+
+  const outcome = useMemo((): { design?: GibsonDesign; error?: string } => {
+    if (!fragments.some(f => f.seq.trim())) return {};
+    try {
+      return {
+        design: designGibson({
+          fragments, circular, targetTm, cond: buffer,
+          minOverlap: Math.max(10, minOverlap), maxOverlap: Math.max(minOverlap, maxOverlap), overlapTm,
+        }),
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [fragments, circular, minOverlap, maxOverlap, overlapTm, targetTm, buffer]);
+  const design = outcome.design;
+
+  const updateFragment = (i: number, change: Partial<GibsonFragment>) =>
+    setFragments(fs => fs.map((f, j) => (j === i ? { ...f, ...change } : f)));
+  const moveFragment = (i: number, by: number) => setFragments(fs => {
+    const next = [...fs];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    return next;
+  });
+
+  const handleCopy = () => {
+    if (!design) return;
+    navigator.clipboard.writeText(design.assembly);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleExport = () => {
+    if (!design) return;
+    const text = toGenBank({
+      name: 'gibson_assembly',
+      description: `Gibson assembly of ${design.fragments.map(f => f.name).join(', ')}`,
+      seq: design.assembly,
+      circular,
+      features: design.fragments.map(f => ({ type: 'misc_feature', label: f.name, start: f.start, end: f.start + f.length, strand: 1 })),
+    });
+    downloadBlob('gibson_assembly.gb', new Blob([text], { type: 'text/plain' }));
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card
+        title="Fragments (in assembly order)"
+        action={
+          <div className="flex items-center space-x-2">
+            <SequenceFileButton
+              variant="ghost"
+              label="Open Fragments"
+              onLoad={docs => setFragments(fs => [
+                ...fs.filter(f => f.seq.trim()),
+                ...docs.map(d => ({ ...newFragment(0), name: d.name, seq: d.seq, source: (d.circular ? 'vector' : 'pcr') as FragmentSource })),
+              ])}
+            />
+            <Button variant="outline" size="sm" onClick={() => setFragments(fs => [...fs, newFragment(fs.length + 1)])} icon={<Plus size={14} />}>Add Fragment</Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {fragments.map((frag, i) => (
+            <div key={i} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  className="flex-1 min-w-[8rem] bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-sm font-bold text-slate-800 focus:outline-none focus:border-pink-500"
+                  value={frag.name}
+                  onChange={(e) => updateFragment(i, { name: e.target.value })}
+                />
+                <select
+                  className="bg-white px-2 py-1.5 rounded-lg border border-slate-200 text-xs font-semibold text-slate-700"
+                  value={frag.source}
+                  onChange={(e) => updateFragment(i, { source: e.target.value as FragmentSource })}
+                >
+                  <option value="pcr">PCR product</option>
+                  <option value="vector">Linearized vector</option>
+                </select>
+                {frag.source === 'vector' && [0, 1].map(slot => (
+                  <select
+                    key={slot}
+                    className="bg-white px-2 py-1.5 rounded-lg border border-slate-200 text-xs font-semibold text-slate-700"
+                    value={frag.enzymes[slot] ?? ''}
+                    onChange={(e) => updateFragment(i, { enzymes: slot === 0 ? [e.target.value, frag.enzymes[1] ?? ''] : [frag.enzymes[0] ?? '', e.target.value] })}
+                  >
+                    <option value="">{slot === 0 ? 'Enzyme' : '(single cut)'}</option>
+                    {ENZYMES.map(e => <option key={e.name} value={e.name}>{e.name}</option>)}
+                  </select>
+                ))}
+                <span className="text-xs font-mono text-slate-400">{frag.seq.replace(/[^A-Za-z]/g, '').length} bp</span>
+                <button onClick={() => moveFragment(i, -1)} disabled={i === 0} className="text-slate-400 hover:text-slate-900 disabled:opacity-30" title="Move up"><ArrowUp size={14} /></button>
+                <button onClick={() => moveFragment(i, 1)} disabled={i === fragments.length - 1} className="text-slate-400 hover:text-slate-900 disabled:opacity-30" title="Move down"><ArrowDown size={14} /></button>
+                <button onClick={() => setFragments(fs => fs.filter((_, j) => j !== i))} disabled={fragments.length === 1} className="text-slate-400 hover:text-red-500 disabled:opacity-30" title="Remove"><Trash2 size={14} /></button>
+              </div>
+              <textarea
+                className="w-full p-3 rounded-xl border-2 border-slate-200 focus:border-emerald-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-20 resize-none"
+                placeholder={frag.source === 'vector' ? 'PASTE CIRCULAR VECTOR SEQUENCE...' : 'PASTE FRAGMENT SEQUENCE (5\'→3\')...'}
+                value={frag.seq}
+                onChange={(e) => updateFragment(i, { seq: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <Card title="Overlaps">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <Input label="Min Overlap" unit="nt" value={minOverlap} onChange={(e) => setMinOverlap(safeNum(e.target.value))} />
+          <Input label="Max Overlap" unit="nt" value={maxOverlap} onChange={(e) => setMaxOverlap(safeNum(e.target.value))} />
+          <Input label="Overlap Tm" unit="°C" value={overlapTm} onChange={(e) => setOverlapTm(safeNum(e.target.value))} />
+          <Input label="Annealing Tm" unit="°C" value={targetTm} onChange={(e) => setTargetTm(safeNum(e.target.value))} />
+        </div>
+        <label className="flex items-center text-sm font-semibold text-slate-900 mt-4">
+          <input type="checkbox" className="mr-2 rounded" checked={circular} onChange={(e) => setCircular(e.target.checked)} />
+          Circular product (last fragment joins the first)
+        </label>
+        <p className="text-xs text-slate-500 ml-1 mt-3">
+          Each junction gets the shortest overlap reaching the overlap Tm. Overlaps between PCR products are split across both primers; next to a linearized vector the PCR primer carries all of it.
+        </p>
+      </Card>
+
+      {outcome.error && (
+        <div className="flex items-start p-3 bg-red-50 text-red-700 rounded-lg text-sm border border-red-100">
+          <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+          <p>{outcome.error}</p>
+        </div>
+      )}
+
+      {design ? (
+        <>
+          <Card title="Junctions">
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                <thead className="text-slate-500 font-bold uppercase">
+                  <tr>
+                    <th className="px-2 py-2">Junction</th>
+                    <th className="px-2 py-2">Overlap</th>
+                    <th className="px-2 py-2">Length</th>
+                    <th className="px-2 py-2">Tm</th>
+                    <th className="px-2 py-2">GC</th>
+                    <th className="px-2 py-2">Checks</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {design.junctions.map((j, i) => (
+                    <tr key={i}>
+                      <td className="px-2 py-1.5 font-bold text-slate-700 whitespace-nowrap">{j.between[0]} → {j.between[1]}</td>
+                      <td className="px-2 py-1.5 font-mono text-slate-600 break-all" title={`Starts at ${j.position + 1}`}>{j.overlap}</td>
+                      <td className="px-2 py-1.5 font-mono text-slate-500">{j.overlap.length}</td>
+                      <td className="px-2 py-1.5 font-mono text-slate-500">{j.tm.toFixed(1)} °C</td>
+                      <td className="px-2 py-1.5 font-mono text-slate-500">{j.gc.toFixed(0)}%</td>
+                      <td className="px-2 py-1.5">
+                        {j.issues.length ? (
+                          <span className="text-amber-700">{j.issues.join('; ')}</span>
+                        ) : (
+                          <span className="flex items-center text-emerald-600"><Check size={12} className="mr-1" /> OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          <Card title="Fragment Primers">
+            <div className="space-y-6">
+              {design.warnings.map(w => (
+                <div key={w} className="flex items-start p-3 bg-amber-50 text-amber-800 rounded-lg text-sm border border-amber-100">
+                  <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                  <p>{w}</p>
+                </div>
+              ))}
+              {design.fragments.map((f, i) => (
+                <div key={i} className="space-y-3">
+                  <h4 className="font-bold text-slate-800">
+                    {f.name} <span className="text-xs font-medium text-slate-400">{f.product ? `${f.product.length} bp product` : `${f.length} bp linearized vector, no primers`}</span>
+                  </h4>
+                  {f.forward && <CloningPrimerRow label="Forward" primer={f.forward} />}
+                  {f.reverse && <CloningPrimerRow label="Reverse" primer={f.reverse} />}
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card
+            title={`Assembled Sequence · ${design.assembly.length} bp`}
+            action={
+              <div className="flex items-center space-x-2">
+                <Button variant="ghost" size="sm" onClick={handleCopy} icon={copied ? <Check size={14} /> : <Copy size={14} />}>{copied ? 'Copied' : 'Copy'}</Button>
+                <Button variant="outline" size="sm" onClick={handleExport} icon={<Download size={14} />}>GenBank</Button>
+              </div>
+            }
+          >
+            <div className="font-mono text-xs break-all text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 max-h-48 overflow-y-auto">
+              {design.assembly}
+            </div>
+          </Card>
+        </>
+      ) : !outcome.error && (
+        <Card>
+          <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+            <Layers size={32} strokeWidth={1} className="mb-3 opacity-50" />
+            Enter the fragments to plan the assembly
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default GibsonDesigner;
@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, Check, Copy, Download, Plus, Puzzle, Trash2 } from 'lucide-react';
+import { Button, Card, Input, Select } from './UI';
+import { CloningPrimerRow } from './CloningBuilder';
+import SequenceFileButton from './SequenceFileButton';
+import { downloadBlob, safeNum } from '../utils';
+import { BufferConditions } from '../lib/primerThermo';
+import { findEnzyme, overhangLength } from '../lib/enzymes';
+import { toFasta } from '../lib/sequenceIO';
+import { GOLDEN_GATE_ENZYMES, GoldenGatePart, OverhangIssueKind, designGoldenGate } from '../lib/goldenGate';
+
+const ISSUE_LABELS: Record<OverhangIssueKind, string> = {
+  palindrome: 'Palindromic (self-ligates)',
+  duplicate: 'Identical or complementary',
+  'near-duplicate': 'One mismatch apart',
+  gc: 'All AT or all GC',
+};
+
+const newPart = (n: number): GoldenGatePart => ({ name: `Part ${n}`, seq: '', coding: false });
+
+/** Golden Gate mode of the Primer Engine: fusion sites, domestication and tailed primers for a Type IIS assembly. */
+const GoldenGateDesigner: React.FC<{ buffer: BufferConditions }> = ({ buffer }) => {
+  const [parts, setParts] = useState<GoldenGatePart[]>([newPart(1), newPart(2)]);
+  const [enzyme, setEnzyme] = useState('BsaI');
+  const [circular, setCircular] = useState(false);
+  const [vectorOverhangs, setVectorOverhangs] = useState<[string, string]>(['GGAG', 'CGCT']);
+  const [overrides, setOverrides] = useState<string[]>([]);
+  const [leader, setLeader] = useState('GCGC');
+  const [targetTm, setTargetTm] = useState(60);
+  const [copied, setCopied] = useState(false);
+
+  const design = useMemo(() => designGoldenGate({
+    enzyme, parts, circular, vectorOverhangs, overrides, leader, targetTm, cond: buffer,
+  }), [enzyme, parts, circular, vectorOverhangs, overrides, leader, targetTm, buffer]);
+
+  const k = overhangLength(findEnzyme(enzyme) ?? findEnzyme('BsaI')!);
+
+  const updatePart = (i: number, change: Partial<GoldenGatePart>) =>
+    setParts(ps => ps.map((p, j) => (j === i ? { ...p, ...change } : p)));
+  const movePart = (i: number, by: number) => setParts(ps => {
+    const next = [...ps];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    return next;
+  });
+  // Junction overrides follow their position, not the parts, so they are reset on reordering
+  const reorder = (fn: () => void) => { fn(); setOverrides([]); };
+
+  const handleCopy = () => {
+    if (!design) return;
+    navigator.clipboard.writeText(design.assembly);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card
+        title="Parts (in assembly order)"
+        action={
+          <div className="flex items-center space-x-2">
+            <SequenceFileButton
+              variant="ghost"
+              label="Open Parts"
+              onLoad={docs => reorder(() => setParts(ps => [...ps.filter(p => p.seq.trim()), ...docs.map(d => ({ name: d.name, seq: d.seq, coding: false }))]))}
+            />
+            <Button variant="outline" size="sm" onClick={() => reorder(() => setParts(ps => [...ps, newPart(ps.length + 1)]))} icon={<Plus size={14} />}>Add Part</Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {parts.map((part, i) => (
+            <div key={i} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+              <div className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  className="flex-1 bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-sm font-bold text-slate-800 focus:outline-none focus:border-pink-500"
+                  value={part.name}
+                  onChange={(e) => updatePart(i, { name: e.target.value })}
+                />
+                <label className="flex items-center text-xs font-semibold text-slate-600">
+                  <input type="checkbox" className="mr-1.5 rounded" checked={part.coding} onChange={(e) => updatePart(i, { coding: e.target.checked })} />
+                  Coding (frame 1)
+                </label>
+                <span className="text-xs font-mono text-slate-400">{part.seq.replace(/[^A-Za-z]/g, '').length} bp</span>
+                <button onClick={() => reorder(() => movePart(i, -1))} disabled={i === 0} className="text-slate-400 hover:text-slate-900 disabled:opacity-30" title="Move up"><ArrowUp size={14} /></button>
+                <button onClick={() => reorder(() => movePart(i, 1))} disabled={i === parts.length - 1} className="text-slate-400 hover:text-slate-900 disabled:opacity-30" title="Move down"><ArrowDown size={14} /></button>
+                <button onClick={() => reorder(() => setParts(ps => ps.filter((_, j) => j !== i)))} disabled={parts.length === 1} className="text-slate-400 hover:text-red-500 disabled:opacity-30" title="Remove"><Trash2 size={14} /></button>
+              </div>
+              <textarea
+                className="w-full p-3 rounded-xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-20 resize-none"
+                placeholder="PASTE PART SEQUENCE (5'→3')..."
+                value={part.seq}
+                onChange={(e) => updatePart(i, { seq: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <Card title="Assembly">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-6 items-end">
+          <Select label="Enzyme" value={enzyme} onChange={(e) => { setEnzyme(e.target.value); setOverrides([]); }}>
+            {GOLDEN_GATE_ENZYMES.map(name => <option key={name} value={name}>{name}</option>)}
+          </Select>
+          <Input label="5' Vector Overhang" type="text" value={vectorOverhangs[0]} disabled={circular} onChange={(e) => setVectorOverhangs([e.target.value.toUpperCase(), vectorOverhangs[1]])} />
+          <Input label="3' Vector Overhang" type="text" value={vectorOverhangs[1]} disabled={circular} onChange={(e) => setVectorOverhangs([vectorOverhangs[0], e.target.value.toUpperCase()])} />
+          <Input label="Leader" type="text" value={leader} onChange={(e) => setLeader(e.target.value)} />
+          <Input label="Annealing Tm" unit="°C" value={targetTm} onChange={(e) => setTargetTm(safeNum(e.target.value))} />
+        </div>
+        <label className="flex items-center text-sm font-semibold text-slate-900 mt-4">
+          <input type="checkbox" className="mr-2 rounded" checked={circular} onChange={(e) => { setCircular(e.target.checked); setOverrides([]); }} />
+          Circular assembly (one of the parts is the backbone)
+        </label>
+        <p className="text-xs text-slate-500 ml-1 mt-3">
+          {enzyme} leaves {k} nt overhangs. Vector overhangs are the ends of the opened destination vector, written on the top strand.
+        </p>
+      </Card>
+
+      {design ? (
+        <>
+          <Card
+            title="Fusion Sites"
+            action={
+              <span className={`px-3 py-1 rounded-full text-xs font-bold ${design.fidelity.score >= 80 ? 'bg-emerald-100 text-emerald-700' : design.fidelity.score > 0 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'}`}>
+                Fidelity {design.fidelity.score}
+              </span>
+            }
+          >
+            <div className="space-y-4">
+              <table className="w-full text-xs text-left">
+                <thead className="text-slate-500 font-bold uppercase">
+                  <tr>
+                    <th className="px-2 py-2">Junction</th>
+                    <th className="px-2 py-2">Overhang</th>
+                    <th className="px-2 py-2">Position</th>
+                    <th className="px-2 py-2">Type</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {design.fusionSites.map((f, i) => (
+                    <tr key={i}>
+                      <td className="px-2 py-1.5 font-bold text-slate-700">{f.between[0]} → {f.between[1]}</td>
+                      <td className="px-2 py-1.5">
+                        {f.junction === null ? (
+                          <span className="font-mono font-bold text-slate-700">{f.overhang}</span>
+                        ) : (
+                          <input
+                            type="text"
+                            className="w-20 px-2 py-1 rounded border border-slate-200 font-mono font-bold uppercase text-pink-600 placeholder-pink-400 focus:outline-none focus:border-pink-500"
+                            placeholder={f.overhang}
+                            maxLength={k}
+                            value={overrides[f.junction] ?? ''}
+                            onChange={(e) => {
+                              const next = [...overrides];
+                              next[f.junction as number] = e.target.value.toUpperCase();
+                              setOverrides(next);
+                            }}
+                          />
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 font-mono text-slate-500">{f.position + 1}</td>
+                      <td className="px-2 py-1.5 text-slate-500">{f.junction === null ? 'Vector' : f.seamless ? 'Seamless' : 'Scar'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {design.fidelity.issues.map((issue, i) => (
+                <div key={i} className="flex items-center text-xs text-amber-700">
+                  <AlertCircle size={14} className="mr-2" />
+                  <span className="font-mono font-bold mr-2">{issue.overhangs.join(' / ')}</span> {ISSUE_LABELS[issue.kind]}
+                </div>
+              ))}
+              <p className="text-xs text-slate-500 ml-1">
+                Leave a junction blank to pick a seamless site from the part sequences, or type an overhang to add it as a scar. Sets without palindromes, duplicates or one-mismatch pairs score highest.
+              </p>
+            </div>
+          </Card>
+
+          {design.domestication.length > 0 && (
+            <Card title="Domestication">
+              <div className="space-y-2 text-sm">
+                {design.domestication.map((d, i) => (
+                  <div key={i} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100">
+                    <span><span className="font-bold text-slate-800">{d.part}</span> · {design.enzyme.name} site at {d.position + 1} ({d.strand === 'forward' ? '+' : '−'})</span>
+                    <span className={`font-mono text-xs ${d.fix ? 'text-emerald-700' : 'text-red-600'}`}>
+                      {d.fix ? `${d.fix.from}${d.fix.position + 1}${d.fix.to}` : 'No silent fix'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          <Card title="Part Primers">
+            <div className="space-y-6">
+              {design.warnings.map(w => (
+                <div key={w} className="flex items-start p-3 bg-amber-50 text-amber-800 rounded-lg text-sm border border-amber-100">
+                  <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                  <p>{w}</p>
+                </div>
+              ))}
+              {design.parts.map((p, i) => (
+                <div key={i} className="space-y-3">
+                  <h4 className="font-bold text-slate-800">{p.name} <span className="text-xs font-medium text-slate-400">{p.product.length} bp product</span></h4>
+                  <CloningPrimerRow label="Forward" primer={p.forward} />
+                  <CloningPrimerRow label="Reverse" primer={p.reverse} />
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card
+            title={`Assembled Sequence · ${design.assembly.length} bp`}
+            action={
+              <div className="flex items-center space-x-2">
+                <Button variant="ghost" size="sm" onClick={handleCopy} icon={copied ? <Check size={14} /> : <Copy size={14} />}>{copied ? 'Copied' : 'Copy'}</Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadBlob('golden_gate_assembly.fasta', new Blob([toFasta([{ name: 'golden_gate_assembly', description: parts.map(p => p.name).join('-'), seq: design.assembly }])], { type: 'text/plain' }))}
+                  icon={<Download size={14} />}
+                >
+                  FASTA
+                </Button>
+              </div>
+            }
+          >
+            <div className="font-mono text-xs break-all text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 max-h-48 overflow-y-auto">
+              {design.assembly}
+            </div>
+          </Card>
+        </>
+      ) : (
+        <Card>
+          <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+            <Puzzle size={32} strokeWidth={1} className="mb-3 opacity-50" />
+            Enter at least one part to design the assembly
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default GoldenGateDesigner;
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, FlaskConical } from 'lucide-react';
+import { Card, Button, Input } from './UI';
+import { safeNum } from '../utils';
+import { parseFastaRecords } from '../lib/primerSpecificity';
+import { SequenceDocument, toFasta } from '../lib/sequenceIO';
+import SequenceFileButton from './SequenceFileButton';
+import { PcrOptions, PcrProduct, PcrSite, DEFAULT_PCR_OPTIONS, simulatePcr, productsToFasta } from '../lib/inSilicoPcr';
+
+interface InSilicoPcrProps {
+  forward: string;
+  reverse: string;
+  template: string;
+  onTemplateChange: (template: string) => void;
+}
+
+/** In-silico PCR card of the Primer Engine: binding map and exact products for the current primers. */
+const InSilicoPcr: React.FC<InSilicoPcrProps> = ({ forward, reverse, template, onTemplateChange }) => {
+  const [options, setOptions] = useState<PcrOptions>(DEFAULT_PCR_OPTIONS);
+  const [selected, setSelected] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  const record = useMemo(() => parseFastaRecords(template, 'template')[0], [template]);
+  const result = useMemo(
+    () => (record && (forward.trim() || reverse.trim()) ? simulatePcr(forward, reverse, record.seq, options) : null),
+    [forward, reverse, record, options]
+  );
+  const product = result?.products[Math.min(selected, result.products.length - 1)];
+
+  // Opened files bring their topology along
+  const handleOpen = (docs: SequenceDocument[]) => {
+    onTemplateChange(toFasta(docs.slice(0, 1)));
+    setOptions(o => ({ ...o, circular: docs[0].circular }));
+  };
+
+  const handleCopy = () => {
+    if (!result) return;
+    navigator.clipboard.writeText(productsToFasta(result.products, record?.name.split(/\s/)[0]));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Card
+      title="In-Silico PCR"
+      action={
+        <div className="flex items-center space-x-2">
+          <SequenceFileButton variant="ghost" onLoad={handleOpen} />
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={!result?.products.length} icon={<Copy size={14} />}>
+            {copied ? 'Copied' : 'Copy FASTA'}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <textarea
+          className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-28 resize-none"
+          placeholder="PASTE TEMPLATE (RAW OR FASTA SEQUENCE)..."
+          value={template}
+          onChange={(e) => onTemplateChange(e.target.value)}
+        />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 items-end">
+          <Input label="3' Anchor" unit="nt" value={options.anchorLength} onChange={(e) => setOptions(o => ({ ...o, anchorLength: Math.max(8, safeNum(e.target.value)) }))} />
+          <Input label="Max Mismatch Score" value={options.maxScore} onChange={(e) => setOptions(o => ({ ...o, maxScore: safeNum(e.target.value) }))} />
+          <Input label="Max Product" unit="bp" value={options.maxProduct} onChange={(e) => setOptions(o => ({ ...o, maxProduct: safeNum(e.target.value) }))} />
+          <label className="flex items-center text-sm font-semibold text-slate-900 pb-3">
+            <input type="checkbox" className="mr-2 rounded" checked={options.circular} onChange={(e) => setOptions(o => ({ ...o, circular: e.target.checked }))} />
+            Circular template
+          </label>
+        </div>
+        <p className="text-xs text-slate-500 ml-1">
+          Only the 3' anchor must bind; 5' bases that do not pair are treated as tails and included in the product.
+        </p>
+
+        {result ? (
+          <>
+            <BindingMap length={result.templateLength} sites={result.sites} product={product} />
+            {result.products.length > 0 ? (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {result.products.map((p, i) => (
+                    <button
+                      key={`${p.start}-${p.end}-${p.forward.primer}${p.reverse.primer}`}
+                      onClick={() => setSelected(i)}
+                      className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${p === product ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                    >
+                      {p.forward.primer}/{p.reverse.primer} · {p.size} bp
+                    </button>
+                  ))}
+                </div>
+                {product && <ProductSequence product={product} />}
+              </div>
+            ) : (
+              <div className="text-center text-slate-400 py-4">No product: the primers do not bind in convergent orientation within {options.maxProduct} bp</div>
+            )}
+          </>
+        ) : (
+          <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+            <FlaskConical size={32} strokeWidth={1} className="mb-3 opacity-50" />
+            Enter primers above and a template to simulate the reaction
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// Sub-components
+const MAP_WIDTH = 1000;
+const SITE_COLORS = { F: '#3b82f6', R: '#6366f1' };
+
+const BindingMap: React.FC<{ length: number; sites: PcrSite[]; product?: PcrProduct }> = ({ length, sites, product }) => {
+  const x = (pos: number) => 20 + (pos / Math.max(1, length)) * (MAP_WIDTH - 40);
+  return (
+    <svg viewBox={`0 0 ${MAP_WIDTH} 110`} className="w-full h-auto bg-slate-50 rounded-2xl border border-slate-100">
+      <line x1={x(0)} x2={x(length)} y1={55} y2={55} stroke="#94a3b8" strokeWidth={3} />
+      <text x={x(0)} y={100} fontSize={11} fill="#64748b">1</text>
+      <text x={x(length)} y={100} fontSize={11} fill="#64748b" textAnchor="end">{length} bp</text>
+      {product && (product.end >= product.start ? (
+        <rect x={x(product.start)} y={50} width={Math.max(2, x(product.end) - x(product.start))} height={10} fill="#ec4899" opacity={0.35} rx={3} />
+      ) : (
+        <>
+          <rect x={x(product.start)} y={50} width={x(length) - x(product.start)} height={10} fill="#ec4899" opacity={0.35} rx={3} />
+          <rect x={x(0)} y={50} width={x(product.end) - x(0)} height={10} fill="#ec4899" opacity={0.35} rx={3} />
+        </>
+      ))}
+      {sites.map((s, i) => {
+        const sense = s.strand === 'sense';
+        const y = sense ? 38 : 72;
+        const x1 = x(s.start);
+        const x2 = Math.max(x1 + 6, x(s.end));
+        const tip = sense ? `${x2},${y} ${x2 - 6},${y - 5} ${x2 - 6},${y + 5}` : `${x1},${y} ${x1 + 6},${y - 5} ${x1 + 6},${y + 5}`;
+        return (
+          <g key={i} opacity={s.mismatches > 0 ? 0.55 : 1}>
+            <title>{`${s.primer} ${s.strand} ${s.start + 1}-${s.end + 1}, ${s.mismatches} mismatch(es), ${s.tail} nt tail`}</title>
+            <line x1={x1} x2={x2} y1={y} y2={y} stroke={SITE_COLORS[s.primer]} strokeWidth={4} />
+            <polygon points={tip} fill={SITE_COLORS[s.primer]} />
+            <text x={(x1 + x2) / 2} y={sense ? y - 8 : y + 16} fontSize={11} fontWeight="bold" fill={SITE_COLORS[s.primer]} textAnchor="middle">{s.primer}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const ProductSequence: React.FC<{ product: PcrProduct }> = ({ product }) => {
+  const { sequence, forward, reverse } = product;
+  return (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+      <div className="text-xs text-slate-500">
+        Template {product.start + 1}-{product.end + 1} · F tail {forward.tail} nt, {forward.mismatches} mismatch(es) · R tail {reverse.tail} nt, {reverse.mismatches} mismatch(es)
+      </div>
+      <div className="font-mono text-xs break-all text-slate-700 max-h-40 overflow-y-auto">
+        <span className="bg-pink-100 text-pink-700">{sequence.slice(0, forward.tail)}</span>
+        {sequence.slice(forward.tail, sequence.length - reverse.tail)}
+        <span className="bg-pink-100 text-pink-700">{sequence.slice(sequence.length - reverse.tail)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default InSilicoPcr;
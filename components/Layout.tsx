@@ -30,6 +30,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { to: '/primers', label: 'Primers' },
     { to: '/timer', label: 'Timer' },
     { to: '/fasta', label: 'FASTA' },
+    { to: '/sequence', label: 'Seq Tools' },
+    { to: '/trace', label: 'Sanger' },
     { to: '/log', label: 'Log Calc' },
     { to: '/cellcount', label: 'Cells' },
     { to: '/sds', label: 'SDS Gel' },
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Copy, Pencil } from 'lucide-react';
+import { Card, Input } from './UI';
+import { safeNum } from '../utils';
+import { BufferConditions } from '../lib/primerThermo';
+import { MutagenesisResult, MutagenicPrimer, designMutagenesis } from '../lib/mutagenesis';
+
+/** Mutagenesis mode of the Primer Engine: QuikChange and Q5-SDM primers for one change. */
+const MutagenesisDesigner: React.FC<{ buffer: BufferConditions }> = ({ buffer }) => {
+  const [template, setTemplate] = useState('');
+  const [spec, setSpec] = useState('');
+  const [frameStart, setFrameStart] = useState(1);
+  const [targetTm, setTargetTm] = useState(60);
+
+  const outcome = useMemo((): { result?: MutagenesisResult; error?: string } => {
+    if (!template.trim() || !spec.trim()) return {};
+    try {
+      return { result: designMutagenesis(template, spec, Math.max(1, frameStart), targetTm, buffer) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [template, spec, frameStart, targetTm, buffer]);
+  const result = outcome.result;
+  const codon = result?.mutation.codon;
+
+  return (
+    <div className="space-y-8">
+      <Card title="Template & Change">
+        <div className="space-y-6">
+          <textarea
+            className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-32 resize-none"
+            placeholder="PASTE TEMPLATE (PLASMID OR GENE)..."
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Input
+              label="Mutation"
+              type="text"
+              placeholder="K45A, 123A>G, 123_125del, 123_124insGGC"
+              value={spec}
+              onChange={(e) => setSpec(e.target.value)}
+            />
+            <Input label="Reading Frame Start (nt)" value={frameStart} onChange={(e) => setFrameStart(safeNum(e.target.value))} />
+            <Input label="Annealing Tm (Q5-SDM)" unit="°C" value={targetTm} onChange={(e) => setTargetTm(safeNum(e.target.value))} />
+          </div>
+          <p className="text-xs text-slate-500 ml-1">
+            Amino acid changes are numbered from the codon starting at the reading frame position. Nucleotide positions are 1-based on the template.
+          </p>
+          {outcome.error && (
+            <div className="flex items-center text-xs text-red-600 bg-red-50 p-2 rounded-lg">
+              <AlertCircle size={14} className="mr-1.5" /> {outcome.error}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {result ? (
+        <>
+          {codon && (
+            <Card title="Codon Choice">
+              <div className="space-y-4">
+                <div className="font-mono text-lg text-slate-900">
+                  {codon.from}{codon.residue}{codon.to}: {codon.wildCodon} → <span className="text-pink-600 font-bold">{codon.newCodon}</span>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {codon.options.map((o, i) => (
+                    <span key={o.codon} className={`px-2 py-1 rounded-lg border font-mono ${i === 0 ? 'bg-pink-50 border-pink-200 text-pink-700 font-bold' : 'bg-slate-50 border-slate-100 text-slate-600'}`}>
+                      {o.codon} · {o.changes} nt · {o.usage.toFixed(1)}‰
+                    </span>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">Fewest base changes first, then E. coli K-12 codon usage (per thousand).</p>
+              </div>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card title="QuikChange (Overlapping)">
+              <div className="space-y-4">
+                <MutagenicPrimerRow label="Forward" primer={result.quikChange.forward} />
+                <MutagenicPrimerRow label="Reverse" primer={result.quikChange.reverse} />
+                <div className="flex justify-between text-sm p-3 bg-slate-50 rounded-xl">
+                  <span className="text-slate-600">Agilent Tm (target ≥ 78°C)</span>
+                  <span className={`font-mono font-bold ${result.quikChange.agilentTm < 78 ? 'text-red-500' : 'text-emerald-600'}`}>
+                    {result.quikChange.agilentTm.toFixed(1)} °C
+                  </span>
+                </div>
+              </div>
+            </Card>
+            <Card title="Q5-SDM (Back-to-Back)">
+              <div className="space-y-4">
+                <MutagenicPrimerRow label="Forward" primer={result.backToBack.forward} />
+                <MutagenicPrimerRow label="Reverse" primer={result.backToBack.reverse} />
+                <div className="flex justify-between text-sm p-3 bg-slate-50 rounded-xl">
+                  <span className="text-slate-600">Annealing Temp (Ta)</span>
+                  <span className="font-mono font-bold text-slate-900">{result.backToBack.ta} °C</span>
+                </div>
+              </div>
+            </Card>
+          </div>
+
+          {result.warnings.map(w => (
+            <div key={w} className="flex items-start p-3 bg-amber-50 text-amber-800 rounded-lg text-sm border border-amber-100">
+              <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+              <p>{w}</p>
+            </div>
+          ))}
+        </>
+      ) : !outcome.error && (
+        <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+          <Pencil size={32} strokeWidth={1} className="mb-3 opacity-50" />
+          Enter a template and a mutation
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Sub-components
+const MutagenicPrimerRow: React.FC<{ label: string; primer: MutagenicPrimer }> = ({ label, primer }) => {
+  const { seq, mutStart, mutLength } = primer;
+  return (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="font-bold text-slate-800">{label} <span className="text-xs font-medium text-slate-400">{seq.length} nt</span></span>
+        <button
+          onClick={() => navigator.clipboard.writeText(seq)}
+          className="text-slate-400 hover:text-slate-900 transition-colors"
+          title="Copy oligo"
+        >
+          <Copy size={14} />
+        </button>
+      </div>
+      <div className="font-mono text-sm break-all text-slate-700">
+        <span className="text-slate-400">5'-</span>
+        {seq.slice(0, mutStart)}
+        {mutLength > 0
+          ? <span className="bg-pink-100 text-pink-700 font-bold rounded px-0.5">{seq.slice(mutStart, mutStart + mutLength)}</span>
+          : <span className="text-pink-600 font-bold" title="Deletion junction">|</span>}
+        {seq.slice(mutStart + mutLength)}
+        <span className="text-slate-400">-3'</span>
+      </div>
+      <div className="grid grid-cols-3 gap-3 text-xs">
+        <div className="p-2 bg-white rounded-lg border border-slate-100">
+          <div className="text-slate-400 uppercase font-bold text-[10px]">Full Tm</div>
+          <div className="font-mono font-bold text-slate-900">{primer.tm.toFixed(1)} °C</div>
+        </div>
+        <div className="p-2 bg-white rounded-lg border border-slate-100">
+          <div className="text-slate-400 uppercase font-bold text-[10px]">3' Anneal Tm</div>
+          <div className="font-mono font-bold text-slate-900">{primer.annealTm.toFixed(1)} °C</div>
+        </div>
+        <div className="p-2 bg-white rounded-lg border border-slate-100">
+          <div className="text-slate-400 uppercase font-bold text-[10px]">Mismatch</div>
+          <div className="font-mono font-bold text-slate-900">
+            {mutLength > 0 ? `${mutStart + 1}-${mutStart + mutLength}, ${primer.fromThreePrime} nt from 3'` : 'none'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MutagenesisDesigner;
@@ -0,0 +1,331 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Copy, RotateCw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from './UI';
+import { SeqFeature, featureLength, findOrfs } from '../lib/features';
+
+export interface MapSite {
+  name: string;
+  pos: number; // top-strand cut
+  blocked: boolean;
+}
+
+interface PlasmidMapProps {
+  sequence: string; // cleaned
+  features: SeqFeature[];
+  sites: MapSite[];
+}
+
+interface Region {
+  start: number;
+  end: number; // exclusive; end < start wraps the origin
+}
+
+const SIZE = 640;
+const C = SIZE / 2;
+const R = 150;
+const TRACK = 14;
+const ORF_TRACK = 7;
+const LABEL_GAP = 13;
+const MAX_LABELS = 40;
+
+const FEATURE_COLORS: Record<string, string> = {
+  CDS: '#f472b6',
+  gene: '#f9a8d4',
+  promoter: '#34d399',
+  rep_origin: '#fbbf24',
+  terminator: '#f87171',
+  protein_bind: '#60a5fa',
+  primer_bind: '#a78bfa',
+};
+
+// Greedy packing into concentric tracks so overlapping intervals don't collide
+const assignTracks = (items: SeqFeature[], len: number): number[] => {
+  const trackEnds: number[] = [];
+  return items.map(f => {
+    const end = f.start + featureLength(f, len);
+    let t = trackEnds.findIndex(e => e <= f.start);
+    if (t < 0) t = trackEnds.length;
+    trackEnds[t] = end;
+    return t;
+  });
+};
+
+/** Circular plasmid map: features, ORFs and cut sites, with rotation, zoom and region selection. */
+const PlasmidMap: React.FC<PlasmidMapProps> = ({ sequence, features, sites }) => {
+  const len = sequence.length;
+  const [rotation, setRotation] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [showOrfs, setShowOrfs] = useState(true);
+  const [minOrf, setMinOrf] = useState(100);
+  const [selection, setSelection] = useState<Region | null>(null);
+  const [copied, setCopied] = useState(false);
+  const dragAnchor = useRef<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const orfs = useMemo(() => (showOrfs ? findOrfs(sequence, minOrf, true) : []), [sequence, showOrfs, minOrf]);
+  const sortedFeatures = useMemo(() => [...features].sort((a, b) => a.start - b.start), [features]);
+  const featureTracks = useMemo(() => assignTracks(sortedFeatures, len), [sortedFeatures, len]);
+  const orfTracks = useMemo(() => assignTracks(orfs, len), [orfs, len]);
+  const outerRadius = R + 8 + (Math.max(-1, ...featureTracks) + 1) * TRACK;
+
+  // Geometry: 0 bp at 12 o'clock, clockwise
+  const angle = (bp: number) => ((bp / Math.max(1, len)) * 360 + rotation) * (Math.PI / 180);
+  const point = (r: number, bp: number) => ({ x: C + r * Math.sin(angle(bp)), y: C - r * Math.cos(angle(bp)) });
+  const arc = (r: number, from: number, length: number) => {
+    const a = point(r, from);
+    const b = point(r, from + length);
+    return `M ${a.x} ${a.y} A ${r} ${r} 0 ${length > len / 2 ? 1 : 0} 1 ${b.x} ${b.y}`;
+  };
+
+  // Cut labels: spread vertically on each side of the map so they don't overlap
+  const labels = useMemo(() => {
+    const cutting = sites.filter(s => !s.blocked);
+    const counts = new Map<string, number>();
+    cutting.forEach(s => counts.set(s.name, (counts.get(s.name) ?? 0) + 1));
+    const shown = cutting.length > MAX_LABELS ? cutting.filter(s => counts.get(s.name) === 1) : cutting;
+    const rl = outerRadius + 28;
+    const placed = shown.slice(0, MAX_LABELS).map(s => {
+      const p = point(rl, s.pos);
+      return { site: s, right: p.x >= C, y: p.y };
+    });
+    for (const right of [true, false]) {
+      const side = placed.filter(l => l.right === right).sort((a, b) => a.y - b.y);
+      for (let i = 1; i < side.length; i++) side[i].y = Math.max(side[i].y, side[i - 1].y + LABEL_GAP);
+      const bottom = SIZE - 12;
+      for (let i = side.length - 1; i >= 0; i--) {
+        const limit = i === side.length - 1 ? bottom : side[i + 1].y - LABEL_GAP;
+        side[i].y = Math.min(side[i].y, limit);
+      }
+    }
+    return placed.map(l => {
+      const dy = l.y - C;
+      const dx = Math.sqrt(Math.max(0, rl * rl - dy * dy));
+      return { ...l, x: C + (l.right ? 1 : -1) * Math.max(dx, 20) };
+    });
+  }, [sites, rotation, len, outerRadius]);
+
+  const bpFromEvent = (e: React.PointerEvent): number | null => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const { x, y } = pt.matrixTransform(ctm.inverse());
+    const deg = (Math.atan2(x - C, C - y) * 180) / Math.PI - rotation;
+    return Math.round(((((deg % 360) + 360) % 360) / 360) * len) % len;
+  };
+
+  const updateSelection = (anchor: number, current: number) => {
+    // Follow the shorter way round from the anchor
+    const forward = (current - anchor + len) % len;
+    setSelection(forward <= len / 2 ? { start: anchor, end: current } : { start: current, end: anchor });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGPathElement>) => {
+    const bp = bpFromEvent(e);
+    if (bp === null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragAnchor.current = bp;
+    setSelection(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGPathElement>) => {
+    if (dragAnchor.current === null) return;
+    const bp = bpFromEvent(e);
+    if (bp !== null && bp !== dragAnchor.current) updateSelection(dragAnchor.current, bp);
+  };
+
+  const selectionLength = selection ? (selection.end - selection.start + len) % len : 0;
+  const selectedSeq = selection
+    ? selection.end >= selection.start
+      ? sequence.slice(selection.start, selection.end)
+      : sequence.slice(selection.start) + sequence.slice(0, selection.end)
+    : '';
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(selectedSeq);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  // Zooming closes in on the 12 o'clock region; rotate to bring a region there
+  const view = SIZE / zoom;
+  const focusY = C - (R * (1 - 1 / zoom));
+  const viewBox = `${C - view / 2} ${focusY - view / 2} ${view} ${view}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <Button variant="outline" size="sm" onClick={() => setZoom(z => Math.min(8, z * 1.5))} icon={<ZoomIn size={14} />}>Zoom</Button>
+        <Button variant="outline" size="sm" onClick={() => setZoom(z => Math.max(1, z / 1.5))} icon={<ZoomOut size={14} />}>Out</Button>
+        <label className="flex items-center text-slate-500">
+          <RotateCw size={14} className="mr-1.5" />
+          <input type="range" min={0} max={359} value={rotation} onChange={(e) => setRotation(Number(e.target.value))} className="w-28 accent-pink-500" />
+        </label>
+        <label className="flex items-center font-semibold text-slate-600">
+          <input type="checkbox" className="mr-1.5 rounded" checked={showOrfs} onChange={(e) => setShowOrfs(e.target.checked)} />
+          ORFs ≥
+          <input
+            type="number"
+            value={minOrf}
+            onChange={(e) => setMinOrf(Math.max(20, Number(e.target.value) || 0))}
+            className="w-16 ml-1.5 px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs"
+          />
+          <span className="ml-1 font-normal text-slate-400">aa</span>
+        </label>
+      </div>
+
+      <svg ref={svgRef} viewBox={viewBox} className="w-full h-auto bg-slate-50 rounded-2xl border border-slate-100 select-none touch-none">
+        {/* Backbone and scale */}
+        <circle cx={C} cy={C} r={R} fill="none" stroke="#cbd5e1" strokeWidth={3} />
+        {Array.from({ length: 8 }, (_, i) => Math.round((i * len) / 8)).map(bp => {
+          const a = point(R - 4, bp);
+          const b = point(R - 12, bp);
+          const t = point(R - 24, bp);
+          return (
+            <g key={bp}>
+              <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#94a3b8" strokeWidth={1} />
+              <text x={t.x} y={t.y + 3} fontSize={8} fill="#94a3b8" textAnchor="middle">{bp}</text>
+            </g>
+          );
+        })}
+
+        {selection && selectionLength > 0 && (
+          <path d={arc(R, selection.start, selectionLength)} fill="none" stroke="#ec4899" strokeWidth={22} opacity={0.2} />
+        )}
+
+        {/* Features */}
+        {sortedFeatures.map((f, i) => (
+          <FeatureArc
+            key={`${f.label}-${f.start}-${i}`}
+            feature={f}
+            radius={R + 12 + featureTracks[i] * TRACK}
+            width={10}
+            len={len}
+            point={point}
+            arc={arc}
+            color={FEATURE_COLORS[f.type] ?? '#94a3b8'}
+            onSelect={() => setSelection({ start: f.start, end: f.end % len })}
+          />
+        ))}
+
+        {/* ORFs */}
+        {orfs.map((o, i) => (
+          <FeatureArc
+            key={`orf-${o.start}-${o.strand}`}
+            feature={o}
+            radius={R - 34 - orfTracks[i] * ORF_TRACK}
+            width={4}
+            len={len}
+            point={point}
+            arc={arc}
+            color="#818cf8"
+            onSelect={() => setSelection({ start: o.start, end: o.end % len })}
+          />
+        ))}
+
+        {/* Cut sites */}
+        {sites.map((s, i) => {
+          const a = point(R - 3, s.pos);
+          const b = point(outerRadius + 4, s.pos);
+          return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={s.blocked ? '#cbd5e1' : '#ec4899'} strokeWidth={1} />;
+        })}
+        {labels.map((l, i) => {
+          const from = point(outerRadius + 4, l.site.pos);
+          return (
+            <g key={i}>
+              <polyline points={`${from.x},${from.y} ${l.x},${l.y}`} fill="none" stroke="#f9a8d4" strokeWidth={0.75} />
+              <text x={l.x + (l.right ? 3 : -3)} y={l.y + 3} fontSize={9} fontWeight="bold" fill="#db2777" textAnchor={l.right ? 'start' : 'end'}>
+                {l.site.name} <tspan fill="#94a3b8" fontWeight="normal">({l.site.pos})</tspan>
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Drag target for region selection */}
+        <path
+          d={`M ${C} ${C - R} A ${R} ${R} 0 1 1 ${C - 0.01} ${C - R}`}
+          fill="none"
+          stroke="transparent"
+          strokeWidth={24}
+          className="cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragAnchor.current = null; }}
+        />
+
+        <text x={C} y={C - 4} fontSize={14} fontWeight="bold" fill="#334155" textAnchor="middle">{len} bp</text>
+        <text x={C} y={C + 12} fontSize={9} fill="#94a3b8" textAnchor="middle">
+          {sites.filter(s => !s.blocked).length} cuts · {features.length} features{showOrfs ? ` · ${orfs.length} ORFs` : ''}
+        </text>
+      </svg>
+
+      {selection && selectionLength > 0 ? (
+        <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-bold text-slate-700">
+              {selection.start + 1}–{selection.end === 0 ? len : selection.end} <span className="font-normal text-slate-400">· {selectionLength} bp</span>
+            </span>
+            <Button variant="ghost" size="sm" onClick={handleCopy} icon={<Copy size={12} />}>{copied ? 'Copied' : 'Copy'}</Button>
+          </div>
+          <div className="font-mono text-[11px] text-slate-600 break-all max-h-24 overflow-y-auto">{selectedSeq}</div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 ml-1">Drag along the backbone or click a feature to select a region.</p>
+      )}
+    </div>
+  );
+};
+
+// Sub-components
+interface FeatureArcProps {
+  feature: SeqFeature;
+  radius: number;
+  width: number;
+  len: number;
+  color: string;
+  point: (r: number, bp: number) => { x: number; y: number };
+  arc: (r: number, from: number, length: number) => string;
+  onSelect: () => void;
+}
+
+const FeatureArc: React.FC<FeatureArcProps> = ({ feature, radius, width, len, color, point, arc, onSelect }) => {
+  const length = featureLength(feature, len);
+  // Arrow head length in bp, capped so short features stay visible
+  const head = Math.min(length * 0.4, (width * 0.9 * len) / (2 * Math.PI * radius));
+  const forward = feature.strand !== -1;
+  const bodyStart = forward ? feature.start : feature.start + head;
+  const tipBase = forward ? feature.start + length - head : feature.start + head;
+  const tip = forward ? feature.start + length : feature.start;
+  const outer = point(radius + width / 2 + 1, tipBase);
+  const inner = point(radius - width / 2 - 1, tipBase);
+  const end = point(radius, tip);
+  // Label runs along the arc, reversed on the lower half so it reads left to right
+  const pathId = `feature-${feature.type}-${feature.start}-${feature.end}-${feature.strand}`;
+  const labelFits = (2 * Math.PI * radius * length) / len > feature.label.length * 6 + 8;
+  const a = point(radius, feature.start);
+  const b = point(radius, feature.start + length);
+  const large = length > len / 2 ? 1 : 0;
+  const lower = point(radius, feature.start + length / 2).y > C;
+  const labelPath = lower
+    ? `M ${b.x} ${b.y} A ${radius} ${radius} 0 ${large} 0 ${a.x} ${a.y}`
+    : arc(radius, feature.start, length);
+  return (
+    <g onClick={onSelect} className="cursor-pointer">
+      <title>{`${feature.label} (${feature.type}) ${feature.start + 1}–${feature.end}, ${feature.strand === -1 ? '−' : '+'} strand`}</title>
+      <path d={arc(radius, bodyStart, Math.max(0, length - head))} fill="none" stroke={color} strokeWidth={width} />
+      {feature.strand !== 0 && <polygon points={`${outer.x},${outer.y} ${end.x},${end.y} ${inner.x},${inner.y}`} fill={color} />}
+      {width > 6 && labelFits && (
+        <>
+          <path id={pathId} d={labelPath} fill="none" />
+          <text fontSize={8} fontWeight="bold" fill="white" dy={3}>
+            <textPath href={`#${pathId}`} startOffset="50%" textAnchor="middle">{feature.label}</textPath>
+          </text>
+        </>
+      )}
+    </g>
+  );
+};
+
+export default PlasmidMap;
@@ -123,6 +123,23 @@ export const FastaIcon: React.FC<IconProps> = ({ className }) => (
   </svg>
 );
 
+export const HelixIcon: React.FC<IconProps> = ({ className }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <path d="M7 3c0 6 10 6 10 12s-10 3-10 6" />
+    <path d="M17 3c0 6-10 6-10 12s10 3 10 6" />
+    <line x1="9" y1="6" x2="15" y2="6" />
+    <line x1="9" y1="18" x2="15" y2="18" />
+  </svg>
+);
+
+export const TraceIcon: React.FC<IconProps> = ({ className }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <path d="M2 20c2 0 2-12 4-12s2 12 4 12" />
+    <path d="M10 20c2 0 2-16 4-16s2 16 4 16" />
+    <path d="M18 20c1 0 1.5-6 2.5-6S22 20 22 20" />
+  </svg>
+);
+
 export const ScissorsIcon: React.FC<IconProps> = ({ className }) => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
     <circle cx="6" cy="6" r="3" />
@@ -0,0 +1,43 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen } from 'lucide-react';
+import { Button } from './UI';
+import { SequenceDocument, SEQUENCE_FILE_ACCEPT, readSequenceFile } from '../lib/sequenceIO';
+
+interface SequenceFileButtonProps {
+  onLoad: (docs: SequenceDocument[], fileName: string) => void;
+  label?: string;
+  variant?: 'primary' | 'secondary' | 'outline' | 'ghost' | 'pink';
+  className?: string;
+}
+
+/** Opens a GenBank, EMBL, SnapGene or FASTA file and hands its records to `onLoad`. */
+const SequenceFileButton: React.FC<SequenceFileButtonProps> = ({ onLoad, label = 'Open File', variant = 'outline', className = '' }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState('');
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const docs = await readSequenceFile(file);
+      if (docs.length === 0) throw new Error('No sequence found in file');
+      setError('');
+      onLoad(docs, file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center">
+      <Button variant={variant} size="sm" className={className} onClick={() => inputRef.current?.click()} icon={<FolderOpen size={14} />}>
+        {label}
+      </Button>
+      {error && <span className="ml-2 text-xs text-red-500">{error}</span>}
+      <input type="file" ref={inputRef} className="hidden" accept={SEQUENCE_FILE_ACCEPT} onChange={handleChange} />
+    </span>
+  );
+};
+
+export default SequenceFileButton;
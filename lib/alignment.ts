@@ -0,0 +1,184 @@
+// Aligning a sequencing read against a reference: the whole read is aligned
+// (global) to the best-matching stretch of the reference (local), on either strand.
+
+import { IUPAC_CODES } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+
+export interface AlignmentColumn {
+  ref: string; // '-' where the read has an insertion
+  read: string; // '-' where the read has a deletion
+  refPos: number | null; // 0-based reference position
+  readPos: number | null; // 0-based position in the read as sequenced
+}
+
+export type DifferenceKind = 'mismatch' | 'ambiguous' | 'insertion' | 'deletion';
+
+export interface AlignmentDifference {
+  kind: DifferenceKind;
+  refPos: number; // first reference position (insertions: the base before)
+  readPos: number; // first read position involved
+  ref: string;
+  read: string;
+}
+
+export interface ReadAlignment {
+  strand: 1 | -1; // -1: the read matches the reverse complement of the reference
+  refStart: number; // 0-based, inclusive
+  refEnd: number; // exclusive; may exceed the length on circular references
+  score: number;
+  columns: AlignmentColumn[];
+  matches: number;
+  identity: number; // matches / columns
+  differences: AlignmentDifference[];
+}
+
+// Messages exchanged with alignment.worker.ts
+export interface AlignRequest {
+  read: string;
+  reference: string;
+  circular: boolean;
+}
+
+export type AlignWorkerMessage =
+  | { type: 'result'; alignment: ReadAlignment }
+  | { type: 'error'; message: string };
+
+const MATCH = 2;
+const MISMATCH = -3;
+const GAP = -5;
+// Traceback matrix limit (read length x reference length)
+export const MAX_ALIGNMENT_CELLS = 40_000_000;
+
+const DIAG = 0;
+const UP = 1; // read base against a gap
+const LEFT = 2; // reference base against a gap
+
+// Whether the read call is compatible with the reference base (IUPAC aware)
+const compatible = (readBase: string, refBase: string): boolean => {
+  if (readBase === refBase) return true;
+  const a = IUPAC_CODES[readBase];
+  const b = IUPAC_CODES[refBase];
+  return !!a && !!b && Array.from(a).some(x => b.includes(x));
+};
+
+const pairScore = (readBase: string, refBase: string): number => {
+  if (readBase === refBase && readBase !== 'N') return MATCH;
+  return compatible(readBase, refBase) ? 0 : MISMATCH;
+};
+
+interface RawAlignment {
+  score: number;
+  refStart: number;
+  refEnd: number;
+  pairs: [number | null, number | null][]; // [read index, ref index]
+}
+
+const glocal = (read: string, ref: string): RawAlignment => {
+  const m = read.length;
+  const n = ref.length;
+  const trace = new Uint8Array((m + 1) * (n + 1));
+  let prev = new Float64Array(n + 1); // free leading reference
+  let curr = new Float64Array(n + 1);
+  for (let i = 1; i <= m; i++) {
+    curr[0] = i * GAP;
+    trace[i * (n + 1)] = UP;
+    const r = read[i - 1];
+    for (let j = 1; j <= n; j++) {
+      const diag = prev[j - 1] + pairScore(r, ref[j - 1]);
+      const up = prev[j] + GAP;
+      const left = curr[j - 1] + GAP;
+      let best = diag;
+      let dir = DIAG;
+      if (up > best) {
+        best = up;
+        dir = UP;
+      }
+      if (left > best) {
+        best = left;
+        dir = LEFT;
+      }
+      curr[j] = best;
+      trace[i * (n + 1) + j] = dir;
+    }
+    [prev, curr] = [curr, prev];
+  }
+  // Free trailing reference: best end anywhere on the last row
+  let endJ = 0;
+  for (let j = 1; j <= n; j++) if (prev[j] > prev[endJ]) endJ = j;
+
+  const pairs: RawAlignment['pairs'] = [];
+  let i = m;
+  let j = endJ;
+  while (i > 0) {
+    const dir = j === 0 ? UP : trace[i * (n + 1) + j];
+    if (dir === DIAG) pairs.push([--i, --j]);
+    else if (dir === UP) pairs.push([--i, null]);
+    else pairs.push([null, --j]);
+  }
+  pairs.reverse();
+  return { score: prev[endJ], refStart: j, refEnd: endJ, pairs };
+};
+
+/** How a column differs from the reference, or null for a match. */
+export const columnKind = (col: AlignmentColumn): DifferenceKind | null => {
+  if (col.refPos === null) return 'insertion';
+  if (col.readPos === null) return 'deletion';
+  if (col.ref === col.read && col.read !== 'N') return null;
+  return compatible(col.read, col.ref) ? 'ambiguous' : 'mismatch';
+};
+
+const summarize = (columns: AlignmentColumn[]): Pick<ReadAlignment, 'matches' | 'identity' | 'differences'> => {
+  const differences: AlignmentDifference[] = [];
+  let matches = 0;
+  let lastRef = -1;
+  let lastRead = -1;
+  for (const col of columns) {
+    const kind = columnKind(col);
+    const last = differences[differences.length - 1];
+    // Runs of gaps are reported as one indel
+    const continues = (kind === 'insertion' && last?.kind === kind && last.refPos === lastRef)
+      || (kind === 'deletion' && last?.kind === kind && last.readPos === lastRead);
+    if (!kind) {
+      matches++;
+    } else if (continues) {
+      last.ref += col.ref;
+      last.read += col.read;
+    } else {
+      differences.push({ kind, refPos: col.refPos ?? lastRef, readPos: col.readPos ?? lastRead, ref: col.ref, read: col.read });
+    }
+    if (col.refPos !== null) lastRef = col.refPos;
+    if (col.readPos !== null) lastRead = col.readPos;
+  }
+  return { matches, identity: columns.length ? matches / columns.length : 0, differences };
+};
+
+/**
+ * Aligns `read` to the reference on both strands and returns the better
+ * alignment. Positions in the result refer to the read as sequenced and to
+ * the forward reference, so read-side differences map straight onto the
+ * trace. Circular references may be spanned across the origin.
+ */
+export const alignRead = (read: string, reference: string, circular = false): ReadAlignment => {
+  const r = read.toUpperCase();
+  const ref = reference.toUpperCase();
+  if (!r || !ref) throw new Error('Both the read and the reference need bases');
+  // Circular references are extended by the read length so a read can cross the origin
+  const target = circular ? ref + ref.slice(0, Math.min(ref.length, r.length)) : ref;
+  if ((r.length + 1) * (target.length + 1) > MAX_ALIGNMENT_CELLS) {
+    throw new Error(`Reference too long to align a ${r.length} nt read against (limit about ${Math.floor(MAX_ALIGNMENT_CELLS / r.length).toLocaleString()} nt)`);
+  }
+
+  const forward = glocal(r, target);
+  const reverse = glocal(reverseComplement(r), target);
+  const strand: 1 | -1 = reverse.score > forward.score ? -1 : 1;
+  const best = strand === 1 ? forward : reverse;
+  const readSeq = strand === 1 ? r : reverseComplement(r);
+
+  const columns: AlignmentColumn[] = best.pairs.map(([ri, fi]) => ({
+    ref: fi === null ? '-' : target[fi],
+    read: ri === null ? '-' : readSeq[ri],
+    refPos: fi === null ? null : fi % ref.length,
+    readPos: ri === null ? null : strand === 1 ? ri : r.length - 1 - ri,
+  }));
+  return { strand, refStart: best.refStart, refEnd: best.refEnd, score: best.score, columns, ...summarize(columns) };
+};
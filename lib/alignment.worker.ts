@@ -0,0 +1,15 @@
+/// <reference lib="webworker" />
+import { AlignRequest, AlignWorkerMessage, alignRead } from './alignment';
+
+// Runs read alignment off the main thread; a long reference fills a matrix of
+// tens of millions of cells. The page terminates the worker when its input changes.
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<AlignRequest>) => {
+  const post = (msg: AlignWorkerMessage) => self.postMessage(msg);
+  try {
+    post({ type: 'result', alignment: alignRead(e.data.read, e.data.reference, e.data.circular) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
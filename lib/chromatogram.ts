@@ -0,0 +1,176 @@
+// Sanger chromatogram readers (ABIF .ab1 and Staden .scf) and quality trimming.
+
+export type TraceBase = 'A' | 'C' | 'G' | 'T';
+
+export const TRACE_BASES: TraceBase[] = ['A', 'C', 'G', 'T'];
+
+export interface Trace {
+  name: string;
+  format: 'ab1' | 'scf';
+  channels: Record<TraceBase, number[]>; // signal per sample
+  baseCalls: string;
+  peaks: number[]; // sample index of each base call
+  qualities: number[]; // Phred per base call; empty when the file has none
+}
+
+export const TRACE_FILE_ACCEPT = '.ab1,.abi,.ab!,.scf';
+
+// --- ABIF (.ab1) ---
+
+interface AbifEntry {
+  count: number;
+  size: number;
+  offset: number; // data offset; data of 4 bytes or less sits in the entry itself
+}
+
+const ABIF_MAGIC = 0x41424946; // 'ABIF'
+const ABIF_ENTRY_SIZE = 28;
+
+const readAbifDirectory = (view: DataView): Map<string, AbifEntry> => {
+  // Entry layout: name, number, element type, element size, count, data size, data offset
+  const entryAt = (pos: number): AbifEntry => {
+    const size = view.getInt32(pos + 16);
+    return {
+      count: view.getInt32(pos + 12),
+      size,
+      offset: size <= 4 ? pos + 20 : view.getInt32(pos + 20),
+    };
+  };
+  const root = entryAt(6);
+  const entries = new Map<string, AbifEntry>();
+  for (let i = 0; i < root.count; i++) {
+    const pos = root.offset + i * ABIF_ENTRY_SIZE;
+    if (pos + ABIF_ENTRY_SIZE > view.byteLength) break;
+    const name = String.fromCharCode(view.getUint8(pos), view.getUint8(pos + 1), view.getUint8(pos + 2), view.getUint8(pos + 3));
+    entries.set(`${name}${view.getInt32(pos + 4)}`, entryAt(pos));
+  }
+  return entries;
+};
+
+/** Parses an ABIF chromatogram: analyzed traces (DATA9-12), base calls, peak positions and qualities. */
+export const parseAb1 = (buffer: ArrayBuffer, fallbackName = 'trace'): Trace => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 34 || view.getUint32(0) !== ABIF_MAGIC) throw new Error('Not an ABIF (.ab1) file');
+  const dir = readAbifDirectory(view);
+  // Edited calls (number 1) win over the basecaller's originals (number 2)
+  const pick = (tag: string) => dir.get(`${tag}1`) ?? dir.get(`${tag}2`);
+  const bytes = (e: AbifEntry | undefined): number[] =>
+    e && e.offset + e.size <= buffer.byteLength ? Array.from(new Uint8Array(buffer, e.offset, e.size)) : [];
+  const shorts = (e: AbifEntry | undefined): number[] =>
+    e ? Array.from({ length: e.count }, (_, i) => view.getInt16(e.offset + i * 2)) : [];
+
+  const order = String.fromCharCode(...bytes(dir.get('FWO_1'))).toUpperCase() || 'GATC';
+  const channels = {} as Record<TraceBase, number[]>;
+  for (const base of TRACE_BASES) {
+    const entry = dir.get(`DATA${9 + order.indexOf(base)}`);
+    if (!entry) throw new Error(`ABIF file has no analyzed trace for ${base}`);
+    channels[base] = shorts(entry);
+  }
+  const baseCalls = String.fromCharCode(...bytes(pick('PBAS'))).toUpperCase();
+  const peaks = shorts(pick('PLOC'));
+  if (!baseCalls || peaks.length !== baseCalls.length) throw new Error('ABIF file has no usable base calls');
+  const qualities = bytes(pick('PCON'));
+  const sample = bytes(dir.get('SMPL1'));
+  const name = sample.length > 1 ? String.fromCharCode(...sample.slice(1, 1 + sample[0])) : fallbackName;
+  return { name, format: 'ab1', channels, baseCalls, peaks, qualities: qualities.length === baseCalls.length ? qualities : [] };
+};
+
+// --- SCF ---
+
+const SCF_MAGIC = 0x2e736366; // '.scf'
+
+// SCF 3 stores each channel as second-order differences
+const undoDelta = (values: number[], mask: number): number[] => {
+  for (let pass = 0; pass < 2; pass++) {
+    let prev = 0;
+    for (let i = 0; i < values.length; i++) {
+      values[i] = (values[i] + prev) & mask;
+      prev = values[i];
+    }
+  }
+  return values;
+};
+
+/** Parses an SCF 2 or 3 chromatogram. */
+export const parseScf = (buffer: ArrayBuffer, fallbackName = 'trace'): Trace => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 128 || view.getUint32(0) !== SCF_MAGIC) throw new Error('Not an SCF file');
+  const samples = view.getUint32(4);
+  const samplesOffset = view.getUint32(8);
+  const baseCount = view.getUint32(12);
+  const basesOffset = view.getUint32(24);
+  const version = parseFloat(String.fromCharCode(view.getUint8(36), view.getUint8(37), view.getUint8(38), view.getUint8(39)));
+  const sampleSize = view.getUint32(40) === 1 ? 1 : 2;
+  const readSample = (pos: number) => (sampleSize === 1 ? view.getUint8(pos) : view.getUint16(pos));
+
+  const channels = {} as Record<TraceBase, number[]>;
+  const peaks: number[] = [];
+  const qualities: number[] = [];
+  let baseCalls = '';
+
+  if (version >= 3) {
+    TRACE_BASES.forEach((base, c) => {
+      const start = samplesOffset + c * samples * sampleSize;
+      const raw = Array.from({ length: samples }, (_, i) => readSample(start + i * sampleSize));
+      channels[base] = undoDelta(raw, sampleSize === 1 ? 0xff : 0xffff);
+    });
+    const probAt = (c: number, i: number) => view.getUint8(basesOffset + baseCount * (4 + c) + i);
+    for (let i = 0; i < baseCount; i++) {
+      peaks.push(view.getUint32(basesOffset + i * 4));
+      const call = String.fromCharCode(view.getUint8(basesOffset + baseCount * 8 + i)).toUpperCase();
+      baseCalls += call;
+      const c = TRACE_BASES.indexOf(call as TraceBase);
+      qualities.push(c >= 0 ? probAt(c, i) : Math.max(probAt(0, i), probAt(1, i), probAt(2, i), probAt(3, i)));
+    }
+  } else {
+    TRACE_BASES.forEach((base, c) => {
+      channels[base] = Array.from({ length: samples }, (_, i) => readSample(samplesOffset + (i * 4 + c) * sampleSize));
+    });
+    for (let i = 0; i < baseCount; i++) {
+      const pos = basesOffset + i * 12;
+      peaks.push(view.getUint32(pos));
+      const call = String.fromCharCode(view.getUint8(pos + 8)).toUpperCase();
+      baseCalls += call;
+      const c = TRACE_BASES.indexOf(call as TraceBase);
+      qualities.push(c >= 0 ? view.getUint8(pos + 4 + c) : 0);
+    }
+  }
+  if (!baseCalls) throw new Error('SCF file has no base calls');
+  return { name: fallbackName, format: 'scf', channels, baseCalls, peaks, qualities: qualities.some(q => q > 0) ? qualities : [] };
+};
+
+/** Reads an .ab1 or .scf file, recognised by its magic number. */
+export const readTraceFile = async (file: File): Promise<Trace> => {
+  const buffer = await file.arrayBuffer();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const magic = buffer.byteLength >= 4 ? new DataView(buffer).getUint32(0) : 0;
+  if (magic === ABIF_MAGIC) return parseAb1(buffer, baseName);
+  if (magic === SCF_MAGIC) return parseScf(buffer, baseName);
+  throw new Error(`${file.name} is not an AB1 or SCF chromatogram`);
+};
+
+// --- Quality trimming ---
+
+/**
+ * Modified Mott algorithm (as in phred/SeqTrace): the kept range is the
+ * stretch maximising the sum of (errorLimit - error probability). Traces
+ * without qualities are not trimmed. Returns [start, end).
+ */
+export const mottTrim = (qualities: number[], length: number, errorLimit: number): [number, number] => {
+  if (qualities.length === 0 || errorLimit <= 0) return [0, length];
+  let best = 0;
+  let range: [number, number] = [0, 0];
+  let sum = 0;
+  let start = 0;
+  qualities.forEach((q, i) => {
+    sum += errorLimit - Math.pow(10, -q / 10);
+    if (sum <= 0) {
+      sum = 0;
+      start = i + 1;
+    } else if (sum > best) {
+      best = sum;
+      range = [start, i + 1];
+    }
+  });
+  return range;
+};
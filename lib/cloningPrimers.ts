@@ -0,0 +1,187 @@
+import { BufferConditions, PrimerResult, calculatePrimerProps, cleanSequence } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { Enzyme, findEnzyme, findCutPositions } from './enzymes';
+
+export type CloningStrategy = 'restriction' | 'gibson' | 'infusion';
+
+export type SegmentKind = 'leader' | 'site' | 'overlap' | 'anneal';
+
+export interface PrimerSegment {
+    kind: SegmentKind;
+    seq: string;
+    label: string;
+}
+
+export interface CloningPrimer {
+    direction: 'forward' | 'reverse';
+    segments: PrimerSegment[]; // 5'->3'
+    full: string;
+    anneal: PrimerResult; // the part that matches the insert, used for early cycles
+    whole: PrimerResult; // the complete oligo, relevant once tails are incorporated
+}
+
+export interface CloningDesign {
+    forward: CloningPrimer;
+    reverse: CloningPrimer;
+    product: string; // PCR product including tails
+    overlapTms?: { left: number; right: number };
+    warnings: string[];
+}
+
+export interface CloningRequest {
+    insert: string;
+    vector: string;
+    vectorCircular: boolean;
+    strategy: CloningStrategy;
+    fwdEnzyme: string;
+    revEnzyme: string;
+    leader: string; // extra 5' bases so the enzyme can cut near the end of the product
+    overlapLength: number;
+    targetTm: number;
+    cond: BufferConditions;
+}
+
+export const INFUSION_OVERLAP = 15;
+const MIN_ANNEAL = 16;
+const MAX_ANNEAL = 35;
+const MIN_OVERLAP_TM = 48;
+
+/**
+ * Shortest prefix of `seq` (16-35 nt) reaching `targetTm`, or the one
+ * closest to it when none does.
+ */
+export const pickAnnealing = (seq: string, targetTm: number, cond: BufferConditions): string => {
+    let best = seq.slice(0, MIN_ANNEAL);
+    let bestDiff = Infinity;
+    for (let l = MIN_ANNEAL; l <= Math.min(MAX_ANNEAL, seq.length); l++) {
+        const part = seq.slice(0, l);
+        const tm = calculatePrimerProps(part, cond).tmNN;
+        if (tm >= targetTm) return part;
+        if (Math.abs(tm - targetTm) < bestDiff) {
+            bestDiff = Math.abs(tm - targetTm);
+            best = part;
+        }
+    }
+    return best;
+};
+
+export const buildPrimer = (direction: 'forward' | 'reverse', segments: PrimerSegment[], cond: BufferConditions): CloningPrimer => {
+    const full = segments.map(s => s.seq).join('');
+    const anneal = segments.filter(s => s.kind === 'anneal').map(s => s.seq).join('');
+    return {
+        direction,
+        segments: segments.filter(s => s.seq.length > 0),
+        full,
+        anneal: calculatePrimerProps(anneal, cond),
+        whole: calculatePrimerProps(full, cond),
+    };
+};
+
+// Bases either side of the cut, wrapping around the origin on circular vectors
+const vectorSlice = (vector: string, from: number, to: number, circular: boolean): string => {
+    if (!circular) return vector.slice(Math.max(0, from), Math.min(vector.length, to));
+    let out = '';
+    for (let i = from; i < to; i++) out += vector[((i % vector.length) + vector.length) % vector.length];
+    return out;
+};
+
+const siteCountWarning = (enzyme: Enzyme, seq: string, what: string): string | null => {
+    const n = findCutPositions(seq, enzyme).length;
+    return n > 0 ? `${enzyme.name} cuts the ${what} ${n} time${n === 1 ? '' : 's'}` : null;
+};
+
+/**
+ * Builds tailed cloning primers for `insert`.
+ *
+ * Restriction: leader + recognition site + annealing part, with each enzyme
+ * checked against the insert (must not cut) and the vector (should cut once).
+ * Gibson / In-Fusion: the vector is opened at the chosen enzyme cut(s) and the
+ * primers carry the vector arms adjacent to each cut as 5' overlaps.
+ */
+export const designCloningPrimers = (req: CloningRequest): CloningDesign | null => {
+    const insert = cleanSequence(req.insert);
+    const vector = cleanSequence(req.vector);
+    if (insert.length < MIN_ANNEAL * 2) return null;
+
+    const warnings: string[] = [];
+    const fwdAnneal = pickAnnealing(insert, req.targetTm, req.cond);
+    const revAnneal = pickAnnealing(reverseComplement(insert), req.targetTm, req.cond);
+    const fwdEnzyme = findEnzyme(req.fwdEnzyme);
+    const revEnzyme = findEnzyme(req.revEnzyme) ?? fwdEnzyme;
+    if (!fwdEnzyme || !revEnzyme) return null;
+
+    let fwdSegments: PrimerSegment[];
+    let revSegments: PrimerSegment[];
+    let overlapTms: CloningDesign['overlapTms'];
+
+    if (req.strategy === 'restriction') {
+        const leader = cleanSequence(req.leader);
+        fwdSegments = [
+            { kind: 'leader', seq: leader, label: 'Leader' },
+            { kind: 'site', seq: fwdEnzyme.seq, label: fwdEnzyme.name },
+            { kind: 'anneal', seq: fwdAnneal, label: 'Insert' },
+        ];
+        revSegments = [
+            { kind: 'leader', seq: leader, label: 'Leader' },
+            { kind: 'site', seq: reverseComplement(revEnzyme.seq), label: revEnzyme.name },
+            { kind: 'anneal', seq: revAnneal, label: 'Insert' },
+        ];
+        for (const enzyme of fwdEnzyme === revEnzyme ? [fwdEnzyme] : [fwdEnzyme, revEnzyme]) {
+            const inInsert = siteCountWarning(enzyme, insert, 'insert');
+            if (inInsert) warnings.push(`${inInsert}; the insert would be cut internally`);
+            if (vector) {
+                const n = findCutPositions(vector, enzyme, req.vectorCircular).length;
+                if (n !== 1) warnings.push(`${enzyme.name} cuts the vector ${n} times (expected once)`);
+            }
+        }
+        if (fwdEnzyme === revEnzyme) warnings.push('Same enzyme on both ends: the insert can ligate in either orientation');
+    } else {
+        if (!vector) return null;
+        const overlap = req.strategy === 'infusion' ? INFUSION_OVERLAP : req.overlapLength;
+        const leftCuts = findCutPositions(vector, fwdEnzyme, req.vectorCircular);
+        const rightCuts = findCutPositions(vector, revEnzyme, req.vectorCircular);
+        if (leftCuts.length === 0 || rightCuts.length === 0) {
+            warnings.push('Linearizing enzyme does not cut the vector');
+            return null;
+        }
+        if (leftCuts.length > 1) warnings.push(`${fwdEnzyme.name} cuts the vector ${leftCuts.length} times; using the first site`);
+        if (revEnzyme !== fwdEnzyme && rightCuts.length > 1) warnings.push(`${revEnzyme.name} cuts the vector ${rightCuts.length} times; using the first site`);
+
+        // The insert replaces the vector between the two cuts (a single cut just opens it)
+        const leftCut = leftCuts[0];
+        const rightCut = revEnzyme === fwdEnzyme ? leftCut : rightCuts.find(c => c >= leftCut) ?? rightCuts[0];
+        const leftArm = vectorSlice(vector, leftCut - overlap, leftCut, req.vectorCircular);
+        const rightArm = vectorSlice(vector, rightCut, rightCut + overlap, req.vectorCircular);
+        if (leftArm.length < overlap || rightArm.length < overlap) warnings.push('Cut is too close to the end of a linear vector for a full overlap');
+
+        const label = req.strategy === 'infusion' ? 'In-Fusion' : 'Gibson';
+        fwdSegments = [
+            { kind: 'overlap', seq: leftArm, label: `${label} (vector)` },
+            { kind: 'anneal', seq: fwdAnneal, label: 'Insert' },
+        ];
+        revSegments = [
+            { kind: 'overlap', seq: reverseComplement(rightArm), label: `${label} (vector)` },
+            { kind: 'anneal', seq: revAnneal, label: 'Insert' },
+        ];
+        overlapTms = {
+            left: calculatePrimerProps(leftArm, req.cond).tmNN,
+            right: calculatePrimerProps(rightArm, req.cond).tmNN,
+        };
+        if (req.strategy === 'gibson' && Math.min(overlapTms.left, overlapTms.right) < MIN_OVERLAP_TM) {
+            warnings.push(`Overlap Tm below ${MIN_OVERLAP_TM}°C; lengthen the overlap`);
+        }
+    }
+
+    const forward = buildPrimer('forward', fwdSegments, req.cond);
+    const reverse = buildPrimer('reverse', revSegments, req.cond);
+
+    // Tails become part of the template after the first cycles
+    const fwdTail = forward.full.slice(0, forward.full.length - fwdAnneal.length);
+    const revTail = reverse.full.slice(0, reverse.full.length - revAnneal.length);
+    const product = fwdTail + insert + reverseComplement(revTail);
+
+    if (forward.full.length > 60 || reverse.full.length > 60) warnings.push('Oligo longer than 60 nt; consider PAGE purification');
+    if (Math.abs(forward.anneal.tmNN - reverse.anneal.tmNN) > 5) warnings.push('Annealing-part Tm differs by more than 5°C');
+
+    return { forward, reverse, product, overlapTms, warnings };
+};
@@ -0,0 +1,82 @@
+import { Enzyme, EnzymeProperties, ENZYMES, SiteMatch, enzymeProperties, findSites } from './enzymes';
+import { EndType, endType } from './digest';
+import { HostMethylation, UNMETHYLATED, blockingMethylation, methylationMap } from './methylation';
+
+export interface CutterCount {
+  enzyme: Enzyme;
+  sites: SiteMatch[]; // sites that cut, methylation-blocked ones excluded
+}
+
+export interface CutterSummary {
+  single: CutterCount[];
+  double: CutterCount[];
+  none: Enzyme[];
+}
+
+export interface McsCandidate {
+  enzyme: Enzyme;
+  cut: number; // top-strand cut in the vector
+  end: EndType;
+  properties?: EnzymeProperties;
+  score: number;
+}
+
+// rCutSmart activity at or above this counts as compatible for a double digest
+export const CUTSMART_COMPATIBLE = 75;
+
+const cuttingSites = (seq: string, circular: boolean, host: HostMethylation, enzymes: Enzyme[]): CutterCount[] => {
+  const map = methylationMap(seq, host, circular);
+  return enzymes.map(enzyme => ({
+    enzyme,
+    sites: findSites(seq, enzyme, circular).filter(site => blockingMethylation(site, map).length === 0),
+  }));
+};
+
+/** Enzymes cutting `seq` once, twice, or not at all. */
+export const summarizeCutters = (
+  seq: string,
+  circular: boolean,
+  host: HostMethylation = UNMETHYLATED,
+  enzymes: Enzyme[] = ENZYMES
+): CutterSummary => {
+  const counts = cuttingSites(seq, circular, host, enzymes);
+  return {
+    single: counts.filter(c => c.sites.length === 1),
+    double: counts.filter(c => c.sites.length === 2),
+    none: counts.filter(c => c.sites.length === 0).map(c => c.enzyme),
+  };
+};
+
+// Ranking: rCutSmart activity, then heat inactivation (65 °C is gentlest), then a small bonus for sticky ends
+const mcsScore = (properties: EnzymeProperties | undefined, end: EndType): number => {
+  const activity = properties?.cutSmart ?? 0;
+  const heat = properties?.heatInactivation === 65 ? 20 : properties?.heatInactivation === 80 ? 10 : 0;
+  return activity + heat + (end === 'blunt' ? 0 : 5);
+};
+
+/**
+ * Enzymes that cut `vector` exactly once, inside `region` when given
+ * (0-based, end exclusive), and do not cut `insert`. The insert is taken to
+ * be a PCR product, so only the vector is subject to `host` methylation.
+ */
+export const findMcsEnzymes = (
+  vector: string,
+  insert: string,
+  vectorCircular: boolean,
+  host: HostMethylation = UNMETHYLATED,
+  region?: { start: number; end: number }
+): McsCandidate[] => {
+  const inInsert = new Set(
+    insert ? cuttingSites(insert, false, UNMETHYLATED, ENZYMES).filter(c => c.sites.length > 0).map(c => c.enzyme.name) : []
+  );
+  return summarizeCutters(vector, vectorCircular, host).single
+    .filter(c => !inInsert.has(c.enzyme.name))
+    .filter(c => !region || (c.sites[0].topCut >= region.start && c.sites[0].topCut < region.end))
+    .map(c => {
+      const site = c.sites[0];
+      const properties = enzymeProperties(c.enzyme);
+      const end = endType(c.enzyme.cutOffset, c.enzyme.bottomOffset);
+      return { enzyme: c.enzyme, cut: site.topCut, end, properties, score: mcsScore(properties, end) };
+    })
+    .sort((a, b) => b.score - a.score || a.cut - b.cut);
+};
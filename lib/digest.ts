@@ -0,0 +1,185 @@
+import { IUPAC_CODES } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { Enzyme, SiteMatch, findSites } from './enzymes';
+import { HostMethylation, Methylation, UNMETHYLATED, blockingMethylation, methylationMap } from './methylation';
+
+export type EndType = 'blunt' | "5'" | "3'";
+
+export interface FragmentEnd {
+  enzyme: string;
+  type: EndType;
+  overhang: string; // single-stranded bases read on the top strand, '' for blunt
+  cut: SiteMatch;
+}
+
+export interface Fragment {
+  start: number; // top-strand cut starting the fragment
+  end: number; // top-strand cut ending it (exclusive; wraps on circular)
+  length: number;
+  left: FragmentEnd | null; // null = end of a linear molecule
+  right: FragmentEnd | null;
+}
+
+export interface BlockedSite {
+  site: SiteMatch;
+  by: Methylation[];
+}
+
+export interface DigestResult {
+  cuts: SiteMatch[];
+  blocked: BlockedSite[]; // sites protected by host methylation, not cut
+  fragments: Fragment[];
+}
+
+export const endType = (topCut: number, bottomCut: number): EndType =>
+  bottomCut > topCut ? "5'" : bottomCut < topCut ? "3'" : 'blunt';
+
+// Top-strand bases between two positions, wrapping on circular sequences
+const circularSlice = (seq: string, from: number, to: number): string => {
+  if (from <= to) return seq.slice(from, to);
+  return seq.slice(from) + seq.slice(0, to);
+};
+
+// Type and length come from the enzyme: wrapped cuts near the origin of a circular sequence cannot be compared
+const toEnd = (seq: string, cut: SiteMatch): FragmentEnd => {
+  const { cutOffset, bottomOffset } = cut.enzyme;
+  const type = endType(cutOffset, bottomOffset);
+  const lo = type === "3'" ? cut.bottomCut : cut.topCut;
+  return {
+    enzyme: cut.enzyme.name,
+    type,
+    overhang: circularSlice(seq, lo, (lo + Math.abs(bottomOffset - cutOffset)) % seq.length),
+    cut,
+  };
+};
+
+/**
+ * Cuts `seq` with every enzyme at once. Fragments run between consecutive
+ * top-strand cuts and carry the end left by each cut; where two enzymes cut
+ * at the same top-strand position only the first is kept. Sites blocked by
+ * `host` methylation are reported separately and left uncut.
+ */
+export const digest = (seq: string, enzymes: Enzyme[], circular: boolean, host: HostMethylation = UNMETHYLATED): DigestResult => {
+  const len = seq.length;
+  const map = methylationMap(seq, host, circular);
+  const blocked: BlockedSite[] = [];
+  const all = enzymes
+    .flatMap(e => findSites(seq, e, circular))
+    .filter(site => {
+      const by = blockingMethylation(site, map);
+      if (by.length > 0) blocked.push({ site, by });
+      return by.length === 0;
+    })
+    .sort((a, b) => a.topCut - b.topCut);
+  const cuts = all.filter((c, i) => i === 0 || c.topCut !== all[i - 1].topCut);
+
+  const fragments: Fragment[] = [];
+  if (cuts.length === 0) {
+    fragments.push({ start: 0, end: len, length: len, left: null, right: null });
+    return { cuts, blocked, fragments };
+  }
+  if (circular) {
+    cuts.forEach((c, i) => {
+      const next = cuts[(i + 1) % cuts.length];
+      const length = i === cuts.length - 1 ? len - c.topCut + next.topCut : next.topCut - c.topCut;
+      fragments.push({ start: c.topCut, end: next.topCut, length, left: toEnd(seq, c), right: toEnd(seq, next) });
+    });
+  } else {
+    const bounds: (SiteMatch | null)[] = [null, ...cuts, null];
+    for (let i = 0; i < bounds.length - 1; i++) {
+      const a = bounds[i];
+      const b = bounds[i + 1];
+      const start = a ? a.topCut : 0;
+      const end = b ? b.topCut : len;
+      fragments.push({ start, end, length: end - start, left: a && toEnd(seq, a), right: b && toEnd(seq, b) });
+    }
+  }
+  return { cuts, blocked, fragments };
+};
+
+// --- Compatible ends ---
+
+export type Match = 'yes' | 'maybe' | 'no';
+
+// Per-position comparison of IUPAC codes: 'yes' when every base `text` may hold is allowed by `pattern`
+const patternMatch = (pattern: string, text: string): Match => {
+  let result: Match = 'yes';
+  for (let i = 0; i < pattern.length; i++) {
+    const allowed = IUPAC_CODES[pattern[i]] ?? 'ACGT';
+    const present = IUPAC_CODES[text[i]] ?? 'ACGT';
+    if (![...present].some(b => allowed.includes(b))) return 'no';
+    if (![...present].every(b => allowed.includes(b))) result = 'maybe';
+  }
+  return result;
+};
+
+/**
+ * Whether `site` occurs across the ligation seam (`seamStart`-`seamEnd`, the
+ * annealed overhang) of `junction`. Bases beyond the junction are unknown, so
+ * sites that need them give 'maybe'.
+ */
+const siteAcrossSeam = (site: string, junction: string, seamStart: number, seamEnd: number): Match => {
+  const pad = site.length - 1;
+  const text = 'N'.repeat(pad) + junction + 'N'.repeat(pad);
+  let best: Match = 'no';
+  for (let i = 0; i + site.length <= text.length; i++) {
+    const from = i - pad;
+    const to = from + site.length;
+    // Sites not spanning the seam were already in one of the parent molecules
+    if (from > seamStart || to < seamEnd || from >= seamEnd || to <= seamStart) continue;
+    const m = patternMatch(site, text.slice(i, i + site.length));
+    if (m === 'yes' && from >= 0 && to <= junction.length) return 'yes';
+    if (m !== 'no') best = 'maybe';
+  }
+  return best;
+};
+
+export interface EndJoin {
+  compatible: Match;
+  junction: string; // left part of A + overhang + right part of B
+  regenerates: { enzyme: string; match: Match }[];
+}
+
+/**
+ * Joins the end an enzyme leaves on the left fragment (`a`) to the end `b`
+ * leaves on the right fragment. Ends join when they have the same type and
+ * overhangs that can pair; degenerate overhangs give 'maybe'. Type IIS ends
+ * depend on the sequence outside the site and are reported as 'maybe'.
+ */
+export const joinEnds = (a: Enzyme, b: Enzyme): EndJoin => {
+  const typeA = endType(a.cutOffset, a.bottomOffset);
+  const typeB = endType(b.cutOffset, b.bottomOffset);
+  const loA = Math.min(a.cutOffset, a.bottomOffset);
+  const hiA = Math.max(a.cutOffset, a.bottomOffset);
+  const loB = Math.min(b.cutOffset, b.bottomOffset);
+  const hiB = Math.max(b.cutOffset, b.bottomOffset);
+  const outside = (e: Enzyme, lo: number, hi: number) => lo < 0 || hi > e.seq.length;
+  const ohA = outside(a, loA, hiA) ? 'N'.repeat(hiA - loA) : a.seq.slice(loA, hiA);
+  const ohB = outside(b, loB, hiB) ? 'N'.repeat(hiB - loB) : b.seq.slice(loB, hiB);
+
+  let compatible: Match = 'no';
+  if (typeA === typeB && ohA.length === ohB.length) {
+    compatible = typeA === 'blunt' ? 'yes' : patternMatch(ohA, ohB);
+    if (compatible === 'yes' && (ohA !== ohB || /[^ACGT]/.test(ohA))) compatible = 'maybe';
+  }
+  // Type IIS cuts outside the site leave unknown bases between site and cut
+  const left = loA < 0 ? '' : (a.seq + 'N'.repeat(Math.max(0, loA - a.seq.length))).slice(0, loA);
+  const right = hiB < 0 ? 'N'.repeat(-hiB) + b.seq : b.seq.slice(hiB);
+  const junction = left + ohA + right;
+  return {
+    compatible,
+    junction,
+    regenerates: [a, b]
+      .filter((e, i, arr) => arr.findIndex(x => x.name === e.name) === i)
+      .map(e => ({ enzyme: e.name, match: compatible === 'no' ? 'no' : siteAcrossSeam(e.seq, junction, left.length, left.length + ohA.length) })),
+  };
+};
+
+/**
+ * Whether two fragment ends can be ligated, flipping one fragment if needed:
+ * same end type and overhangs that pair (equal, or reverse complements).
+ */
+export const endsLigate = (a: FragmentEnd, b: FragmentEnd): boolean =>
+  a.type === b.type &&
+  a.overhang.length === b.overhang.length &&
+  (a.overhang === b.overhang || a.overhang === reverseComplement(b.overhang));
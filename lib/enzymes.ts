@@ -0,0 +1,195 @@
+import { IUPAC_CODES } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+
+// --- DATA: Enzyme Dictionary ---
+export interface Enzyme {
+  name: string;
+  seq: string; // recognition site 5'->3', IUPAC codes allowed
+  cutOffset: number; // top-strand cut, relative to the site start (may fall outside the site)
+  bottomOffset: number; // bottom-strand cut, in the same top-strand coordinates
+  palindromic: boolean;
+}
+
+/**
+ * Commercially available Type II enzymes in REBASE notation: `^` marks the
+ * top-strand cut inside the site (the bottom cut is symmetric), `(n/m)`
+ * gives top/bottom cuts n and m bases 3' of the site. Enzymes that cut on
+ * both sides of their site, or need a methylated site, are left out.
+ */
+const REBASE_SITES: [string, string][] = [
+  ['AatII', 'GACGT^C'], ['Acc65I', 'G^GTACC'], ['AccI', 'GT^MKAC'], ['AciI', 'C^CGC'],
+  ['AclI', 'AA^CGTT'], ['AcuI', 'CTGAAG(16/14)'], ['AfeI', 'AGC^GCT'], ['AflII', 'C^TTAAG'],
+  ['AflIII', 'A^CRYGT'], ['AgeI', 'A^CCGGT'], ['AhdI', 'GACNNN^NNGTC'], ['AleI', 'CACNN^NNGTG'],
+  ['AluI', 'AG^CT'], ['AlwI', 'GGATC(4/5)'], ['AlwNI', 'CAGNNN^CTG'], ['ApaI', 'GGGCC^C'],
+  ['ApaLI', 'G^TGCAC'], ['ApeKI', 'G^CWGC'], ['ApoI', 'R^AATTY'], ['AscI', 'GG^CGCGCC'],
+  ['AseI', 'AT^TAAT'], ['AsiSI', 'GCGAT^CGC'], ['AvaI', 'C^YCGRG'], ['AvaII', 'G^GWCC'],
+  ['AvrII', 'C^CTAGG'], ['BaeGI', 'GKGCM^C'], ['BamHI', 'G^GATCC'], ['BanI', 'G^GYRCC'],
+  ['BanII', 'GRGCY^C'], ['BbsI', 'GAAGAC(2/6)'], ['BbvCI', 'CC^TCAGC'], ['BbvI', 'GCAGC(8/12)'],
+  ['BccI', 'CCATC(4/5)'], ['BceAI', 'ACGGC(12/14)'], ['BciVI', 'GTATCC(6/5)'], ['BclI', 'T^GATCA'],
+  ['BfaI', 'C^TAG'], ['BglI', 'GCCNNNN^NGGC'], ['BglII', 'A^GATCT'], ['BlpI', 'GC^TNAGC'],
+  ['BmgBI', 'CAC^GTC'], ['BmrI', 'ACTGGG(5/4)'], ['BmtI', 'GCTAG^C'], ['BpmI', 'CTGGAG(16/14)'],
+  ['Bpu10I', 'CC^TNAGC'], ['BpuEI', 'CTTGAG(16/14)'], ['BsaAI', 'YAC^GTR'], ['BsaBI', 'GATNN^NNATC'],
+  ['BsaHI', 'GR^CGYC'], ['BsaI', 'GGTCTC(1/5)'], ['BsaJI', 'C^CNNGG'], ['BsaWI', 'W^CCGGW'],
+  ['BseRI', 'GAGGAG(10/8)'], ['BseYI', 'C^CCAGC'], ['BsgI', 'GTGCAG(16/14)'], ['BsiEI', 'CGRY^CG'],
+  ['BsiHKAI', 'GWGCW^C'], ['BsiWI', 'C^GTACG'], ['BslI', 'CCNNNNN^NNGG'], ['BsmAI', 'GTCTC(1/5)'],
+  ['BsmBI', 'CGTCTC(1/5)'], ['BsmFI', 'GGGAC(10/14)'], ['BsmI', 'GAATGC(1/-1)'], ['BsoBI', 'C^YCGRG'],
+  ['BspCNI', 'CTCAG(9/7)'], ['BspDI', 'AT^CGAT'], ['BspEI', 'T^CCGGA'], ['BspHI', 'T^CATGA'],
+  ['BspMI', 'ACCTGC(4/8)'], ['BspQI', 'GCTCTTC(1/4)'], ['BsrBI', 'CCGCTC(-3/-3)'], ['BsrDI', 'GCAATG(2/0)'],
+  ['BsrFI', 'R^CCGGY'], ['BsrGI', 'T^GTACA'], ['BsrI', 'ACTGG(1/-1)'], ['BssHII', 'G^CGCGC'],
+  ['BssSI', 'C^ACGAG'], ['BstAPI', 'GCANNNN^NTGC'], ['BstBI', 'TT^CGAA'], ['BstEII', 'G^GTNACC'],
+  ['BstNI', 'CC^WGG'], ['BstUI', 'CG^CG'], ['BstXI', 'CCANNNNN^NTGG'], ['BstYI', 'R^GATCY'],
+  ['BstZ17I', 'GTA^TAC'], ['Bsu36I', 'CC^TNAGG'], ['BtgI', 'C^CRYGG'], ['BtgZI', 'GCGATG(10/14)'],
+  ['BtsI', 'GCAGTG(2/0)'], ['Cac8I', 'GCN^NGC'], ['ClaI', 'AT^CGAT'], ['CviQI', 'G^TAC'],
+  ['DdeI', 'C^TNAG'], ['DpnII', '^GATC'], ['DraI', 'TTT^AAA'], ['DraIII', 'CACNNN^GTG'],
+  ['DrdI', 'GACNNNN^NNGTC'], ['EaeI', 'Y^GGCCR'], ['EagI', 'C^GGCCG'], ['EarI', 'CTCTTC(1/4)'],
+  ['EciI', 'GGCGGA(11/9)'], ['Eco53kI', 'GAG^CTC'], ['EcoNI', 'CCTNN^NNNAGG'], ['EcoO109I', 'RG^GNCCY'],
+  ['EcoRI', 'G^AATTC'], ['EcoRV', 'GAT^ATC'], ['Esp3I', 'CGTCTC(1/5)'], ['FatI', '^CATG'],
+  ['FauI', 'CCCGC(4/6)'], ['Fnu4HI', 'GC^NGC'], ['FokI', 'GGATG(9/13)'], ['FseI', 'GGCCGG^CC'],
+  ['FspI', 'TGC^GCA'], ['HaeII', 'RGCGC^Y'], ['HaeIII', 'GG^CC'], ['HgaI', 'GACGC(5/10)'],
+  ['HhaI', 'GCG^C'], ['HincII', 'GTY^RAC'], ['HindIII', 'A^AGCTT'], ['HinfI', 'G^ANTC'],
+  ['HinP1I', 'G^CGC'], ['HpaI', 'GTT^AAC'], ['HpaII', 'C^CGG'], ['HphI', 'GGTGA(8/7)'],
+  ['Hpy188I', 'TCN^GA'], ['Hpy99I', 'CGWCG^'], ['HpyAV', 'CCTTC(6/5)'], ['HpyCH4IV', 'A^CGT'],
+  ['HpyCH4V', 'TG^CA'], ['KasI', 'G^GCGCC'], ['KpnI', 'GGTAC^C'], ['MboI', '^GATC'],
+  ['MboII', 'GAAGA(8/7)'], ['MfeI', 'C^AATTG'], ['MluI', 'A^CGCGT'], ['MlyI', 'GAGTC(5/5)'],
+  ['MmeI', 'TCCRAC(20/18)'], ['MnlI', 'CCTC(7/6)'], ['MscI', 'TGG^CCA'], ['MseI', 'T^TAA'],
+  ['MslI', 'CAYNN^NNRTG'], ['MspA1I', 'CMG^CKG'], ['MspI', 'C^CGG'], ['MwoI', 'GCNNNNN^NNGC'],
+  ['NaeI', 'GCC^GGC'], ['NarI', 'GG^CGCC'], ['NciI', 'CC^SGG'], ['NcoI', 'C^CATGG'],
+  ['NdeI', 'CA^TATG'], ['NgoMIV', 'G^CCGGC'], ['NheI', 'G^CTAGC'], ['NlaIII', 'CATG^'],
+  ['NlaIV', 'GGN^NCC'], ['NotI', 'GC^GGCCGC'], ['NruI', 'TCG^CGA'], ['NsiI', 'ATGCA^T'],
+  ['NspI', 'RCATG^Y'], ['PacI', 'TTAAT^TAA'], ['PaeR7I', 'C^TCGAG'], ['PaqCI', 'CACCTGC(4/8)'],
+  ['PciI', 'A^CATGT'], ['PflFI', 'GACN^NNGTC'], ['PflMI', 'CCANNNN^NTGG'], ['PleI', 'GAGTC(4/5)'],
+  ['PmeI', 'GTTT^AAAC'], ['PmlI', 'CAC^GTG'], ['PpuMI', 'RG^GWCCY'], ['PshAI', 'GACNN^NNGTC'],
+  ['PsiI', 'TTA^TAA'], ['PspGI', '^CCWGG'], ['PspOMI', 'G^GGCCC'], ['PstI', 'CTGCA^G'],
+  ['PvuI', 'CGAT^CG'], ['PvuII', 'CAG^CTG'], ['RsaI', 'GT^AC'], ['RsrII', 'CG^GWCCG'],
+  ['SacI', 'GAGCT^C'], ['SacII', 'CCGC^GG'], ['SalI', 'G^TCGAC'], ['SapI', 'GCTCTTC(1/4)'],
+  ['Sau3AI', '^GATC'], ['Sau96I', 'G^GNCC'], ['SbfI', 'CCTGCA^GG'], ['ScaI', 'AGT^ACT'],
+  ['ScrFI', 'CC^NGG'], ['SexAI', 'A^CCWGGT'], ['SfaNI', 'GCATC(5/9)'], ['SfcI', 'C^TRYAG'],
+  ['SfiI', 'GGCCNNNN^NGGCC'], ['SfoI', 'GGC^GCC'], ['SgrAI', 'CR^CCGGYG'], ['SmaI', 'CCC^GGG'],
+  ['SmlI', 'C^TYRAG'], ['SnaBI', 'TAC^GTA'], ['SpeI', 'A^CTAGT'], ['SphI', 'GCATG^C'],
+  ['SrfI', 'GCCC^GGGC'], ['SspI', 'AAT^ATT'], ['StuI', 'AGG^CCT'], ['StyI', 'C^CWWGG'],
+  ['SwaI', 'ATTT^AAAT'], ['TaqI', 'T^CGA'], ['TfiI', 'G^AWTC'], ['TseI', 'G^CWGC'],
+  ['Tsp45I', '^GTSAC'], ['Tth111I', 'GACN^NNGTC'], ['XbaI', 'T^CTAGA'], ['XcmI', 'CCANNNNN^NNNNTGG'],
+  ['XhoI', 'C^TCGAG'], ['XmaI', 'C^CCGGG'], ['XmnI', 'GAANN^NNTTC'], ['ZraI', 'GAC^GTC'],
+];
+
+/**
+ * Activity in NEB rCutSmart buffer (%) and heat-inactivation temperature
+ * (°C, '-' when the enzyme cannot be heat-killed), from the NEB tables for
+ * the HF / current versions.
+ */
+const NEB_PROPERTIES = `
+AatII 100 80, Acc65I 100 65, AccI 50 80, AciI 100 65, AclI 100 -, AcuI 100 65, AfeI 100 65,
+AflII 100 65, AflIII 100 80, AgeI 100 65, AhdI 100 65, AleI 100 80, AluI 100 80, AlwI 100 -,
+AlwNI 100 80, ApaI 100 65, ApaLI 100 -, ApeKI 25 -, ApoI 100 80, AscI 100 80, AseI 100 65,
+AsiSI 100 80, AvaI 100 80, AvaII 100 80, AvrII 100 -, BaeGI 100 80, BamHI 100 -, BanI 100 65,
+BanII 100 80, BbsI 100 65, BbvCI 100 -, BbvI 100 65, BccI 100 65, BceAI 100 65, BciVI 100 80,
+BclI 100 -, BfaI 100 80, BglI 100 65, BglII 10 -, BlpI 100 -, BmgBI 10 65, BmrI 75 65,
+BmtI 100 80, BpmI 100 65, Bpu10I 100 80, BpuEI 100 65, BsaAI 100 -, BsaBI 100 80, BsaHI 100 80,
+BsaI 100 80, BsaJI 100 80, BsaWI 100 80, BseRI 100 80, BseYI 100 80, BsgI 100 65, BsiEI 100 -,
+BsiHKAI 100 80, BsiWI 100 -, BslI 100 -, BsmAI 100 80, BsmBI 10 80, BsmFI 100 80, BsmI 100 80,
+BsoBI 100 80, BspCNI 100 65, BspDI 100 80, BspEI 100 80, BspHI 100 80, BspMI 10 65,
+BspQI 100 80, BsrBI 100 80, BsrDI 100 80, BsrFI 100 -, BsrGI 100 80, BsrI 10 80, BssHII 100 65,
+BssSI 100 -, BstAPI 100 80, BstBI 100 65, BstEII 100 -, BstNI 100 -, BstUI 100 -, BstXI 100 80,
+BstYI 100 -, BstZ17I 100 -, Bsu36I 100 80, BtgI 100 80, BtgZI 100 80, BtsI 100 -, Cac8I 100 65,
+ClaI 100 65, CviQI 100 -, DdeI 100 65, DpnII 100 65, DraI 100 65, DraIII 100 80, DrdI 100 65,
+EaeI 100 65, EagI 100 65, EarI 100 65, EciI 100 65, Eco53kI 100 65, EcoNI 100 65,
+EcoO109I 100 65, EcoRI 100 65, EcoRV 100 65, Esp3I 100 65, FatI 50 80, FauI 100 65,
+Fnu4HI 100 -, FokI 100 65, FseI 100 65, FspI 100 -, HaeII 100 80, HaeIII 100 80, HgaI 100 65,
+HhaI 100 65, HincII 100 65, HindIII 100 80, HinfI 100 80, HinP1I 100 65, HpaI 100 -,
+HpaII 100 80, HphI 100 65, Hpy188I 100 65, Hpy99I 100 65, HpyAV 100 65, HpyCH4IV 100 65,
+HpyCH4V 100 65, KasI 100 65, KpnI 100 -, MboI 100 65, MboII 100 65, MfeI 100 -, MluI 100 -,
+MlyI 100 65, MmeI 100 65, MnlI 100 65, MscI 100 80, MseI 100 65, MslI 100 80, MspA1I 100 65,
+MspI 100 -, MwoI 100 -, NaeI 100 -, NarI 100 65, NciI 100 -, NcoI 100 80, NdeI 100 65,
+NgoMIV 100 -, NheI 100 80, NlaIII 100 65, NlaIV 100 65, NotI 100 65, NruI 100 -, NsiI 100 80,
+NspI 100 65, PacI 100 65, PaeR7I 100 -, PaqCI 100 65, PciI 100 80, PflFI 100 65, PflMI 100 65,
+PleI 100 65, PmeI 100 65, PmlI 100 65, PpuMI 100 -, PshAI 100 65, PsiI 100 65, PspGI 100 -,
+PspOMI 100 65, PstI 100 -, PvuI 100 -, PvuII 100 -, RsaI 100 -, RsrII 100 65, SacI 100 65,
+SacII 100 65, SalI 100 65, SapI 100 65, Sau3AI 50 65, Sau96I 100 65, SbfI 100 80, ScaI 100 80,
+ScrFI 100 65, SexAI 100 65, SfaNI 10 65, SfcI 100 65, SfiI 100 -, SfoI 100 -, SgrAI 100 65,
+SmaI 100 65, SmlI 100 65, SnaBI 50 80, SpeI 100 80, SphI 100 65, SrfI 100 65, SspI 100 65,
+StuI 100 -, StyI 100 65, SwaI 100 65, TaqI 100 80, TfiI 100 -, TseI 100 -, Tsp45I 100 -,
+Tth111I 100 -, XbaI 100 65, XcmI 100 65, XhoI 100 65, XmaI 100 65, XmnI 100 65, ZraI 100 80
+`;
+
+/** Parses one REBASE site string into an Enzyme. */
+export const parseRebaseSite = (name: string, site: string): Enzyme => {
+  const external = site.match(/^([A-Z]+)\((-?\d+)\/(-?\d+)\)$/);
+  const seq = external ? external[1] : site.replace('^', '');
+  const caret = site.indexOf('^');
+  const cutOffset = external ? seq.length + parseInt(external[2], 10) : caret;
+  const bottomOffset = external ? seq.length + parseInt(external[3], 10) : seq.length - caret;
+  return { name, seq, cutOffset, bottomOffset, palindromic: reverseComplement(seq) === seq };
+};
+
+export const ENZYMES: Enzyme[] = REBASE_SITES.map(([name, site]) => parseRebaseSite(name, site));
+
+export const findEnzyme = (name: string): Enzyme | undefined => ENZYMES.find(e => e.name === name);
+
+export interface EnzymeProperties {
+  cutSmart: number; // % activity in rCutSmart
+  heatInactivation: number | null; // °C, null if it cannot be heat-inactivated
+}
+
+const PROPERTIES: Record<string, EnzymeProperties> = Object.fromEntries(
+  NEB_PROPERTIES.split(/[,\n]/).map(s => s.trim()).filter(Boolean).map(entry => {
+    const [name, activity, heat] = entry.split(' ');
+    return [name, { cutSmart: parseInt(activity, 10), heatInactivation: heat === '-' ? null : parseInt(heat, 10) }];
+  })
+);
+
+export const enzymeProperties = (enzyme: Enzyme): EnzymeProperties | undefined => PROPERTIES[enzyme.name];
+
+// Overhang length: positive for 5' overhangs, negative for 3', zero for blunt
+export const overhangLength = (enzyme: Enzyme): number => enzyme.bottomOffset - enzyme.cutOffset;
+
+export const isTypeIIS = (enzyme: Enzyme): boolean =>
+  enzyme.cutOffset < 0 || enzyme.cutOffset > enzyme.seq.length || enzyme.bottomOffset < 0 || enzyme.bottomOffset > enzyme.seq.length;
+
+export interface SiteMatch {
+  enzyme: Enzyme;
+  recStart: number; // 0-based start of the recognition sequence on the top strand
+  strand: 'forward' | 'reverse'; // reverse = site read on the bottom strand
+  topCut: number; // cut happens before this top-strand index
+  bottomCut: number; // bottom-strand cut, in top-strand coordinates
+}
+
+const sitePattern = (site: string): string => site.split('').map(b => `[${IUPAC_CODES[b] ?? 'ACGT'}]`).join('');
+
+/**
+ * Every recognition site of `enzyme` in `seq`, on both strands for
+ * non-palindromic sites. Cuts are in top-strand coordinates. On a circular
+ * sequence sites and cuts may span the origin and are wrapped; on a linear
+ * one, sites whose cut would fall off the end are dropped.
+ */
+export const findSites = (seq: string, enzyme: Enzyme, circular = false): SiteMatch[] => {
+  const len = seq.length;
+  const L = enzyme.seq.length;
+  if (len < L) return [];
+  const text = circular ? seq + seq.slice(0, L - 1) : seq;
+  const matches: SiteMatch[] = [];
+
+  const scan = (pattern: string, strand: 'forward' | 'reverse') => {
+    const re = new RegExp(`(?=${pattern})`, 'g');
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null) {
+      const p = m.index;
+      re.lastIndex = p + 1;
+      // A reverse site is the enzyme's own top strand running leftwards from p + L
+      const topCut = strand === 'forward' ? p + enzyme.cutOffset : p + L - enzyme.bottomOffset;
+      const bottomCut = strand === 'forward' ? p + enzyme.bottomOffset : p + L - enzyme.cutOffset;
+      if (circular) {
+        const wrap = (x: number) => ((x % len) + len) % len;
+        matches.push({ enzyme, recStart: p, strand, topCut: wrap(topCut), bottomCut: wrap(bottomCut) });
+      } else if (Math.min(topCut, bottomCut) > 0 && Math.max(topCut, bottomCut) < len) {
+        matches.push({ enzyme, recStart: p, strand, topCut, bottomCut });
+      }
+    }
+  };
+  scan(sitePattern(enzyme.seq), 'forward');
+  if (!enzyme.palindromic) scan(sitePattern(reverseComplement(enzyme.seq)), 'reverse');
+  return matches.sort((a, b) => a.topCut - b.topCut);
+};
+
+// Top-strand cut positions (cut happens before this index) of every site in `seq`
+export const findCutPositions = (seq: string, enzyme: Enzyme, circular = false): number[] =>
+  findSites(seq, enzyme, circular).map(s => s.topCut);
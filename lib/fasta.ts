@@ -0,0 +1,261 @@
+import { detectFormat, parseSequenceText, toFasta } from './sequenceIO';
+import { reverseComplement } from './nucleotide';
+
+export interface FastaRecord {
+  header: string; // without '>'
+  seq: string; // uppercase; '*' and '-' kept
+}
+
+/**
+ * Splits pasted text into FASTA records. Digits and whitespace are stripped
+ * from sequence lines (NCBI numbered style); text without a '>' header is one
+ * record named Sequence_1. GenBank and EMBL flatfiles are read as their records.
+ * Records left without sequence are dropped.
+ */
+export const parseFasta = (raw: string): FastaRecord[] => {
+  const format = detectFormat(raw);
+  const text = format === 'genbank' || format === 'embl' ? toFasta(parseSequenceText(raw), 0) : raw;
+  if (!text.trim()) return [];
+
+  if (!text.trimStart().startsWith('>')) {
+    const seq = text.replace(/[\s\d]+/g, '').toUpperCase();
+    return seq ? [{ header: 'Sequence_1', seq }] : [];
+  }
+  return text.split('>').slice(1).map(record => {
+    const firstBreak = record.indexOf('\n');
+    return firstBreak === -1
+      ? { header: record.trim(), seq: '' }
+      : { header: record.substring(0, firstBreak).trim(), seq: record.substring(firstBreak + 1).replace(/[\s\d]+/g, '').toUpperCase() };
+  }).filter(r => r.seq);
+};
+
+/** Records as FASTA text, sequence lines wrapped at `wrap` (0 = one line). */
+export const formatFasta = (records: FastaRecord[], wrap: number): string =>
+  toFasta(records.map(r => ({ name: r.header, description: '', seq: r.seq })), wrap);
+
+// --- Record operations ---
+
+/** First word of the header, the usual sequence ID. */
+export const recordId = (header: string): string => header.split(/\s/)[0];
+
+// Database tags whose next field holds the accession in NCBI/UniProt style IDs (gi|123|ref|NM_000546.6|)
+const ACCESSION_TAGS = new Set(['ref', 'gb', 'emb', 'dbj', 'sp', 'tr', 'pdb', 'lcl']);
+
+/** Accession from an ID such as `ref|NM_000546.6|` or `sp|P04637|P53_HUMAN`; plain IDs are returned as-is. */
+export const recordAccession = (header: string): string => {
+  const fields = recordId(header).split('|');
+  const tagged = fields.findIndex((f, i) => ACCESSION_TAGS.has(f.toLowerCase()) && fields[i + 1]);
+  if (tagged >= 0) return fields[tagged + 1];
+  return fields.find(Boolean) ?? '';
+};
+
+export type DedupeMode = 'none' | 'sequence' | 'id';
+
+/** Keeps the first record of each sequence (or ID); returns how many were dropped. */
+export const dedupeRecords = (records: FastaRecord[], mode: DedupeMode): { records: FastaRecord[]; removed: number } => {
+  if (mode === 'none') return { records, removed: 0 };
+  const seen = new Set<string>();
+  const kept = records.filter(r => {
+    const key = mode === 'sequence' ? r.seq : recordId(r.header);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { records: kept, removed: records.length - kept.length };
+};
+
+export interface RecordFilter {
+  minLength: number;
+  maxLength: number; // 0 = no limit
+  headerPattern: string; // regular expression, case-insensitive
+  invert: boolean; // drop headers matching the pattern instead of keeping them
+}
+
+export const NO_FILTER: RecordFilter = { minLength: 0, maxLength: 0, headerPattern: '', invert: false };
+
+/** Records within the length range whose header matches the pattern. Throws on an invalid pattern. */
+export const filterRecords = (records: FastaRecord[], filter: RecordFilter): FastaRecord[] => {
+  let pattern: RegExp | null = null;
+  if (filter.headerPattern) {
+    try {
+      pattern = new RegExp(filter.headerPattern, 'i');
+    } catch {
+      throw new Error(`Invalid header pattern: ${filter.headerPattern}`);
+    }
+  }
+  return records.filter(r => {
+    if (r.seq.length < filter.minLength) return false;
+    if (filter.maxLength > 0 && r.seq.length > filter.maxLength) return false;
+    return !pattern || pattern.test(r.header) !== filter.invert;
+  });
+};
+
+export const HEADER_PLACEHOLDERS = ['{id}', '{acc}', '{desc}', '{header}', '{n}', '{len}'];
+
+/**
+ * Rewrites headers from a template. Placeholders: {id} first word, {acc}
+ * accession, {desc} text after the ID, {header} whole header, {n} record
+ * number and {len} sequence length.
+ */
+export const applyHeaderTemplate = (records: FastaRecord[], template: string): FastaRecord[] => {
+  if (!template.trim()) return records;
+  return records.map((r, i) => {
+    const id = recordId(r.header);
+    const values: Record<string, string> = {
+      id,
+      acc: recordAccession(r.header),
+      desc: r.header.slice(id.length).trim(),
+      header: r.header,
+      n: String(i + 1),
+      len: String(r.seq.length),
+    };
+    return { ...r, header: template.replace(/\{(\w+)\}/g, (m, key: string) => values[key] ?? m).trim() };
+  });
+};
+
+/**
+ * The 1-based inclusive range `start`..`end` of every record; a start after
+ * the end takes the reverse complement. Ranges are clipped to each record and
+ * records the range misses are dropped.
+ */
+export const extractSubsequences = (records: FastaRecord[], start: number, end: number): FastaRecord[] => {
+  const reversed = start > end;
+  const [from, to] = reversed ? [end, start] : [start, end];
+  return records.flatMap(r => {
+    const lo = Math.max(1, from);
+    const hi = Math.min(r.seq.length, to);
+    if (lo > hi) return [];
+    const part = r.seq.slice(lo - 1, hi);
+    const [first, last] = reversed ? [hi, lo] : [lo, hi];
+    return [{ header: `${recordId(r.header)}:${first}-${last}${r.header.slice(recordId(r.header).length)}`, seq: reversed ? reverseComplement(part) : part }];
+  });
+};
+
+/** Splits records into `parts` consecutive groups whose sizes differ by at most one. */
+export const splitRecords = (records: FastaRecord[], parts: number): FastaRecord[][] => {
+  const n = Math.max(1, Math.min(Math.floor(parts), records.length));
+  return Array.from({ length: n }, (_, i) =>
+    records.slice(Math.round((i * records.length) / n), Math.round(((i + 1) * records.length) / n)));
+};
+
+// --- Alphabet & validation ---
+
+export type Alphabet = 'dna' | 'rna' | 'iupac' | 'protein';
+
+export const ALPHABET_LABELS: Record<Alphabet, string> = {
+  dna: 'DNA',
+  rna: 'RNA',
+  iupac: 'IUPAC nucleotide',
+  protein: 'Protein',
+};
+
+export type IssueKind = 'gap' | 'stop' | 'ambiguous' | 'uracil' | 'invalid';
+
+export interface RecordIssue {
+  char: string;
+  kind: IssueKind;
+  positions: number[]; // 1-based
+}
+
+export interface RecordReport {
+  index: number; // position in the record list
+  header: string;
+  length: number;
+  alphabet: Alphabet;
+  gc: number | null; // %, nucleotides only
+  ambiguousContent: number; // % N (nucleotides) or X (protein)
+  issues: RecordIssue[];
+}
+
+const NUCLEOTIDES = 'ACGTU';
+const NUCLEOTIDE_AMBIGUOUS = 'RYSWKMBDHVN';
+const AMINO_ACIDS = 'ACDEFGHIKLMNPQRSTVWYUO'; // U, O: selenocysteine, pyrrolysine
+const AMINO_AMBIGUOUS = 'BZJX';
+const GAPS = '-.';
+// Share of A/C/G/T/U/N above which a sequence of IUPAC letters is read as nucleotides
+const NUCLEOTIDE_FRACTION = 0.75;
+
+/** DNA, RNA, IUPAC-ambiguous nucleotides or protein, judged from the letters. */
+export const detectAlphabet = (seq: string): Alphabet => {
+  const letters = seq.replace(/[-.*]/g, '');
+  if (!letters) return 'dna';
+  let core = 0;
+  let iupac = 0;
+  for (const c of letters) {
+    if (NUCLEOTIDES.includes(c) || c === 'N') core++;
+    else if (NUCLEOTIDE_AMBIGUOUS.includes(c)) iupac++;
+  }
+  if (core / letters.length < NUCLEOTIDE_FRACTION) return 'protein';
+  if (iupac > 0 || /N/.test(letters)) return 'iupac';
+  return /U/.test(letters) && !/T/.test(letters) ? 'rna' : 'dna';
+};
+
+const issueKind = (c: string, alphabet: Alphabet): IssueKind => {
+  if (GAPS.includes(c)) return 'gap';
+  if (c === '*') return 'stop';
+  if (alphabet === 'protein') return AMINO_AMBIGUOUS.includes(c) ? 'ambiguous' : 'invalid';
+  if (NUCLEOTIDE_AMBIGUOUS.includes(c)) return 'ambiguous';
+  if (c === 'U' && alphabet !== 'rna') return 'uracil';
+  return 'invalid';
+};
+
+const isStrict = (c: string, alphabet: Alphabet, rna: boolean): boolean => {
+  if (alphabet === 'protein') return AMINO_ACIDS.includes(c);
+  return c === 'A' || c === 'C' || c === 'G' || c === (rna ? 'U' : 'T');
+};
+
+/** Alphabet, composition and every character outside the strict alphabet for one record. */
+export const validateRecord = (record: FastaRecord, index: number): RecordReport => {
+  const { seq } = record;
+  const alphabet = detectAlphabet(seq);
+  const rna = alphabet === 'rna' || (alphabet === 'iupac' && /U/.test(seq) && !/T/.test(seq));
+  const byChar = new Map<string, RecordIssue>();
+  let gc = 0;
+  let ambiguous = 0;
+  let residues = 0;
+  for (let i = 0; i < seq.length; i++) {
+    const c = seq[i];
+    if (!GAPS.includes(c) && c !== '*') residues++;
+    if (c === 'G' || c === 'C' || c === 'S') gc++;
+    if (c === (alphabet === 'protein' ? 'X' : 'N')) ambiguous++;
+    if (isStrict(c, alphabet, rna)) continue;
+    let issue = byChar.get(c);
+    if (!issue) {
+      issue = { char: c, kind: issueKind(c, alphabet), positions: [] };
+      byChar.set(c, issue);
+    }
+    issue.positions.push(i + 1);
+  }
+  return {
+    index,
+    header: record.header,
+    length: seq.length,
+    alphabet,
+    gc: alphabet === 'protein' || residues === 0 ? null : (gc / residues) * 100,
+    ambiguousContent: residues ? (ambiguous / residues) * 100 : 0,
+    issues: [...byChar.values()].sort((a, b) => a.positions[0] - b.positions[0]),
+  };
+};
+
+export interface SequenceFixes {
+  uracilToThymine: boolean; // nucleotide records, RNA included
+  stripGaps: boolean;
+  ambiguousToN: boolean; // nucleotide records
+  dropStops: boolean;
+}
+
+export const NO_FIXES: SequenceFixes = { uracilToThymine: false, stripGaps: false, ambiguousToN: false, dropStops: false };
+
+/** Applies the selected fixes to every record, according to its detected alphabet. */
+export const fixRecords = (records: FastaRecord[], fixes: SequenceFixes): FastaRecord[] =>
+  records.map(r => {
+    const alphabet = detectAlphabet(r.seq);
+    let seq = r.seq;
+    if (fixes.stripGaps) seq = seq.replace(/[-.]/g, '');
+    if (fixes.dropStops) seq = seq.replace(/\*/g, '');
+    if (alphabet !== 'protein') {
+      if (fixes.uracilToThymine) seq = seq.replace(/U/g, 'T');
+      if (fixes.ambiguousToN) seq = seq.replace(/[RYSWKMBDHV]/g, 'N');
+    }
+    return seq === r.seq ? r : { ...r, seq };
+  });
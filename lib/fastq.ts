@@ -0,0 +1,327 @@
+// FASTQ parsing, quality summaries and read trimming. Reads are processed one
+// at a time so large files can be streamed through `createFastqProcessor`.
+
+export type PhredOffset = 33 | 64;
+
+export interface FastqRead {
+  id: string; // header line without '@'
+  seq: string;
+  qual: string;
+}
+
+export interface TrimOptions {
+  quality: number; // trim ends below this Phred score (0 = off)
+  adapter: string; // 3' adapter to remove ('' = off)
+  minAdapterOverlap: number; // shortest adapter prefix removed at the read end
+  minLength: number; // drop shorter reads after trimming
+  maxLength: number; // drop longer reads (0 = no limit)
+}
+
+export interface FastqOptions {
+  phred: PhredOffset | 'auto';
+  trim: TrimOptions;
+  output: 'fasta' | 'fastq';
+  wrap: number; // FASTA line length (0 = one line)
+}
+
+export const DEFAULT_FASTQ_OPTIONS: FastqOptions = {
+  phred: 'auto',
+  trim: { quality: 20, adapter: '', minAdapterOverlap: 3, minLength: 20, maxLength: 0 },
+  output: 'fasta',
+  wrap: 60,
+};
+
+export const ADAPTER_PRESETS: { name: string; seq: string }[] = [
+  { name: 'Illumina TruSeq', seq: 'AGATCGGAAGAGC' },
+  { name: 'Illumina Nextera', seq: 'CTGTCTCTTATACACATCT' },
+  { name: 'Illumina Small RNA', seq: 'TGGAATTCTCGG' },
+  { name: 'Nanopore ligation (LSK)', seq: 'AATGTACTTCGTTCAGTTACGTATTGCT' },
+];
+
+// Positions beyond this are pooled into the last per-position bin
+export const MAX_POSITIONS = 1000;
+export const MAX_QUALITY = 60;
+// Reads inspected before an automatic Phred offset is chosen
+const DETECT_READS = 1000;
+// Mismatches allowed per adapter base aligned
+const ADAPTER_ERROR_RATE = 0.1;
+
+export interface FastqReport {
+  phred: PhredOffset;
+  reads: number;
+  bases: number;
+  keptReads: number;
+  keptBases: number;
+  minLength: number;
+  maxLength: number;
+  n50: number;
+  meanQuality: number; // over all input bases
+  q20: number; // fraction of input bases at Q20 or better
+  q30: number;
+  qualityTrimmed: number; // reads shortened by quality trimming
+  adapterTrimmed: number;
+  tooShort: number;
+  tooLong: number;
+  perPosition: { mean: number; q1: number; median: number; q3: number }[]; // input reads
+  readQuality: number[]; // reads per mean-quality bin (floor of the mean)
+}
+
+/** 33 unless a quality character only Phred+64 can explain shows up without any below ';'. */
+export const detectPhredOffset = (qualities: string[]): PhredOffset => {
+  let min = 255;
+  let max = 0;
+  for (const q of qualities) {
+    for (let i = 0; i < q.length; i++) {
+      const c = q.charCodeAt(i);
+      if (c < min) min = c;
+      if (c > max) max = c;
+    }
+  }
+  return min >= 64 && max > 74 ? 64 : 33;
+};
+
+export const phredScores = (qual: string, offset: PhredOffset): number[] =>
+  Array.from(qual, c => Math.max(0, c.charCodeAt(0) - offset));
+
+/**
+ * Quality trimming as in cutadapt: leading bases below `threshold` are cut,
+ * and the 3' end is cut where the running sum of (Q - threshold) from the end
+ * is lowest (the BWA algorithm). Returns the kept [start, end).
+ */
+export const qualityTrimRange = (scores: number[], threshold: number): [number, number] => {
+  if (threshold <= 0) return [0, scores.length];
+  let start = 0;
+  while (start < scores.length && scores[start] < threshold) start++;
+  let end = scores.length;
+  let sum = 0;
+  let min = 0;
+  for (let i = scores.length - 1; i >= start; i--) {
+    sum += scores[i] - threshold;
+    if (sum > 0) break;
+    if (sum < min) {
+      min = sum;
+      end = i;
+    }
+  }
+  return [start, end];
+};
+
+/**
+ * Start of the 3' adapter in `seq`: the first position where the adapter, or
+ * a prefix of at least `minOverlap` bases running off the read end, matches
+ * within the error rate. Returns `seq.length` when there is none.
+ */
+export const findAdapter = (seq: string, adapter: string, minOverlap: number): number => {
+  if (!adapter) return seq.length;
+  for (let i = 0; i <= seq.length - minOverlap; i++) {
+    const length = Math.min(adapter.length, seq.length - i);
+    const allowed = Math.floor(length * ADAPTER_ERROR_RATE);
+    let mismatches = 0;
+    for (let j = 0; j < length && mismatches <= allowed; j++) {
+      if (seq[i + j] !== adapter[j] && adapter[j] !== 'N') mismatches++;
+    }
+    if (mismatches <= allowed) return i;
+  }
+  return seq.length;
+};
+
+const wrapLines = (seq: string, wrap: number): string =>
+  wrap > 0 ? seq.match(new RegExp(`.{1,${wrap}}`, 'g'))?.join('\n') ?? '' : seq;
+
+/**
+ * Streaming FASTQ processor. `push` takes text chunks split anywhere; kept
+ * reads are written to `emit` as FASTA or FASTQ. `finish` flushes the last
+ * read and returns the summary. Throws on malformed records.
+ */
+export const createFastqProcessor = (options: FastqOptions, emit: (text: string) => void) => {
+  const { trim } = options;
+  const adapter = trim.adapter.toUpperCase().replace(/[^ACGTN]/g, '');
+  let offset: PhredOffset | null = options.phred === 'auto' ? null : options.phred;
+  const pending: FastqRead[] = [];
+
+  let leftover = '';
+  let lines: string[] = [];
+  let lineNumber = 0;
+
+  // Input statistics
+  let reads = 0;
+  let bases = 0;
+  let qualitySum = 0;
+  let q20 = 0;
+  let q30 = 0;
+  let minLength = Infinity;
+  let maxLength = 0;
+  const lengths = new Map<number, number>();
+  const positions = new Uint32Array(MAX_POSITIONS * (MAX_QUALITY + 1));
+  let positionCount = 0;
+  const readQuality = new Array<number>(MAX_QUALITY + 1).fill(0);
+
+  // Trimming statistics
+  let keptReads = 0;
+  let keptBases = 0;
+  let qualityTrimmed = 0;
+  let adapterTrimmed = 0;
+  let tooShort = 0;
+  let tooLong = 0;
+  let out: string[] = [];
+
+  const flushOut = () => {
+    if (out.length) emit(out.join(''));
+    out = [];
+  };
+
+  const handleRead = (read: FastqRead, phred: PhredOffset) => {
+    const scores = phredScores(read.qual, phred);
+    const len = read.seq.length;
+    reads++;
+    bases += len;
+    minLength = Math.min(minLength, len);
+    maxLength = Math.max(maxLength, len);
+    lengths.set(len, (lengths.get(len) ?? 0) + 1);
+    let sum = 0;
+    for (let i = 0; i < len; i++) {
+      const q = Math.min(scores[i], MAX_QUALITY);
+      sum += q;
+      if (q >= 20) q20++;
+      if (q >= 30) q30++;
+      positions[Math.min(i, MAX_POSITIONS - 1) * (MAX_QUALITY + 1) + q]++;
+    }
+    positionCount = Math.max(positionCount, Math.min(len, MAX_POSITIONS));
+    qualitySum += sum;
+    if (len > 0) readQuality[Math.floor(sum / len)]++;
+
+    let [start, end] = qualityTrimRange(scores, trim.quality);
+    if (start > 0 || end < len) qualityTrimmed++;
+    const cut = start + findAdapter(read.seq.slice(start, end), adapter, trim.minAdapterOverlap);
+    if (cut < end) {
+      adapterTrimmed++;
+      end = cut;
+    }
+    const kept = Math.max(0, end - start);
+    if (kept < Math.max(1, trim.minLength)) {
+      tooShort++;
+      return;
+    }
+    if (trim.maxLength > 0 && kept > trim.maxLength) {
+      tooLong++;
+      return;
+    }
+    keptReads++;
+    keptBases += kept;
+    const seq = read.seq.slice(start, end);
+    out.push(options.output === 'fasta'
+      ? `>${read.id}\n${wrapLines(seq, options.wrap)}\n`
+      : `@${read.id}\n${seq}\n+\n${read.qual.slice(start, end)}\n`);
+    if (out.length >= 1000) flushOut();
+  };
+
+  const accept = (read: FastqRead) => {
+    if (offset !== null) {
+      handleRead(read, offset);
+      return;
+    }
+    pending.push(read);
+    if (pending.length >= DETECT_READS) releasePending();
+  };
+
+  const releasePending = () => {
+    offset = offset ?? detectPhredOffset(pending.map(r => r.qual));
+    for (const read of pending.splice(0)) handleRead(read, offset);
+  };
+
+  const takeRecord = () => {
+    const [header, seq, plus, qual] = lines;
+    const first = lineNumber - 3;
+    lines = [];
+    if (!header.startsWith('@')) throw new Error(`Line ${first}: expected a '@' header, found "${header.slice(0, 30)}"`);
+    if (!plus.startsWith('+')) throw new Error(`Line ${first + 2}: expected '+' separator (multi-line FASTQ is not supported)`);
+    if (seq.length !== qual.length) throw new Error(`Line ${first + 3}: quality length ${qual.length} differs from sequence length ${seq.length} (${header.slice(1)})`);
+    accept({ id: header.slice(1).trim(), seq: seq.toUpperCase(), qual });
+  };
+
+  const takeLine = (line: string) => {
+    lineNumber++;
+    const text = line.endsWith('\r') ? line.slice(0, -1) : line;
+    if (lines.length === 0 && !text.trim()) return; // blank lines between records
+    lines.push(text);
+    if (lines.length === 4) takeRecord();
+  };
+
+  const push = (chunk: string) => {
+    const parts = (leftover + chunk).split('\n');
+    leftover = parts.pop() ?? '';
+    for (const line of parts) takeLine(line);
+    flushOut();
+  };
+
+  const finish = (): FastqReport => {
+    if (leftover) takeLine(leftover);
+    leftover = '';
+    if (lines.length > 0) throw new Error(`Truncated record at the end of the file (${lines[0].slice(0, 30)})`);
+    releasePending();
+    flushOut();
+    if (reads === 0) throw new Error('No FASTQ records found');
+
+    // N50 from the length histogram
+    let n50 = 0;
+    let acc = 0;
+    for (const len of [...lengths.keys()].sort((a, b) => b - a)) {
+      acc += len * lengths.get(len)!;
+      if (acc * 2 >= bases) {
+        n50 = len;
+        break;
+      }
+    }
+
+    const perPosition = Array.from({ length: positionCount }, (_, pos) => {
+      const hist = positions.subarray(pos * (MAX_QUALITY + 1), (pos + 1) * (MAX_QUALITY + 1));
+      const total = hist.reduce((a, b) => a + b, 0);
+      const quantile = (p: number) => {
+        let seen = 0;
+        for (let q = 0; q <= MAX_QUALITY; q++) {
+          seen += hist[q];
+          if (seen >= p * total) return q;
+        }
+        return MAX_QUALITY;
+      };
+      const mean = hist.reduce((s, n, q) => s + n * q, 0) / (total || 1);
+      return { mean, q1: quantile(0.25), median: quantile(0.5), q3: quantile(0.75) };
+    });
+
+    return {
+      phred: offset ?? 33,
+      reads,
+      bases,
+      keptReads,
+      keptBases,
+      minLength,
+      maxLength,
+      n50,
+      meanQuality: bases ? qualitySum / bases : 0,
+      q20: bases ? q20 / bases : 0,
+      q30: bases ? q30 / bases : 0,
+      qualityTrimmed,
+      adapterTrimmed,
+      tooShort,
+      tooLong,
+      perPosition,
+      readQuality,
+    };
+  };
+
+  return { push, finish };
+};
+
+export interface FastqRequest {
+  source: Blob;
+  gzip: boolean;
+  options: FastqOptions;
+}
+
+export type FastqWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; report: FastqReport; output: Blob }
+  | { type: 'error'; message: string };
+
+/** Whether text (or a file's first line) looks like FASTQ rather than FASTA. */
+export const looksLikeFastq = (text: string): boolean => /^@[^\n]*\n[^\n]*\n\+/.test(text.trimStart());
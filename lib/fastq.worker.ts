@@ -0,0 +1,42 @@
+/// <reference lib="webworker" />
+import { FastqRequest, FastqWorkerMessage, createFastqProcessor } from './fastq';
+
+// Streams a FASTQ file through the processor off the main thread. Output is
+// collected as Blob parts so large results never become one string.
+declare const self: DedicatedWorkerGlobalScope;
+
+const PROGRESS_INTERVAL_MS = 100;
+
+self.onmessage = async (e: MessageEvent<FastqRequest>) => {
+  const post = (msg: FastqWorkerMessage) => self.postMessage(msg);
+  const { source, gzip, options } = e.data;
+  const parts: string[] = [];
+  let lastPost = 0;
+  let read = 0;
+  try {
+    const processor = createFastqProcessor(options, text => parts.push(text));
+    // Progress counts compressed bytes, read before decompression
+    const counted = source.stream().pipeThrough(new TransformStream<BufferSource, BufferSource>({
+      transform(chunk, controller) {
+        read += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    }));
+    const bytes: ReadableStream<BufferSource> = gzip ? counted.pipeThrough(new DecompressionStream('gzip')) : counted;
+    const reader = bytes.pipeThrough(new TextDecoderStream()).getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      processor.push(value);
+      const now = performance.now();
+      if (now - lastPost >= PROGRESS_INTERVAL_MS) {
+        lastPost = now;
+        post({ type: 'progress', fraction: source.size ? read / source.size : 1 });
+      }
+    }
+    const report = processor.finish();
+    post({ type: 'result', report, output: new Blob(parts, { type: 'text/plain' }) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
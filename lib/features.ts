@@ -0,0 +1,118 @@
+import { reverseComplement } from './nucleotide';
+import { GeneticCode, STANDARD_CODE, codonTable } from './geneticCode';
+
+export type FeatureStrand = 1 | -1 | 0;
+
+export interface SeqFeature {
+  type: string; // GenBank feature key: CDS, promoter, rep_origin, misc_feature, ...
+  label: string;
+  start: number; // 0-based
+  end: number; // exclusive; end < start means the feature spans the origin
+  strand: FeatureStrand;
+  qualifiers?: Record<string, string>;
+}
+
+/** Feature length, accounting for features that span the origin. */
+export const featureLength = (f: SeqFeature, seqLength: number): number =>
+  f.end >= f.start ? f.end - f.start : seqLength - f.start + f.end;
+
+/** The feature's bases read 5'→3' on its own strand. */
+export const featureSequence = (seq: string, f: SeqFeature): string => {
+  const top = f.end >= f.start ? seq.slice(f.start, f.end) : seq.slice(f.start) + seq.slice(0, f.end);
+  return f.strand === -1 ? reverseComplement(top) : top;
+};
+
+/**
+ * Common plasmid elements recognised by a conserved stretch at a known
+ * offset inside the feature, so variants differing elsewhere still match.
+ */
+const COMMON_FEATURES: { label: string; type: string; signature: string; offset: number; length: number }[] = [
+  { label: 'AmpR', type: 'CDS', signature: 'ATGAGTATTCAACATTTCCGTGTCGCCCTTATTCC', offset: 0, length: 861 },
+  { label: 'KanR', type: 'CDS', signature: 'ATGAGCCATATTCAACGGGAAACGTCTTGCTC', offset: 0, length: 816 },
+  { label: 'CmR', type: 'CDS', signature: 'ATGGAGAAAAAAATCACTGGATATACCACCGTTGATATATCCCAATGG', offset: 0, length: 660 },
+  { label: 'lacZα', type: 'CDS', signature: 'ATGACCATGATTACGCCAAGC', offset: 0, length: 324 },
+  { label: 'EGFP', type: 'CDS', signature: 'ATGGTGAGCAAGGGCGAGGAGCTGTTCACCGGGGTGGTGCCCATCC', offset: 0, length: 720 },
+  { label: 'ori', type: 'rep_origin', signature: 'TTGAGATCCTTTTTTTCTGCGCGTAATCTGCTGCTTGCAAAC', offset: 0, length: 589 },
+  { label: 'f1 ori', type: 'rep_origin', signature: 'ACGCGCCCTGTAGCGGCGCATTAAGCGCGGCGGGTGTGGTGG', offset: 0, length: 456 },
+  { label: 'lac promoter', type: 'promoter', signature: 'TTTACACTTTATGCTTCCGGCTCGTATGTTG', offset: 0, length: 31 },
+  { label: 'lac operator', type: 'protein_bind', signature: 'TTGTGAGCGGATAACAA', offset: 0, length: 17 },
+  { label: 'T7 promoter', type: 'promoter', signature: 'TAATACGACTCACTATAGG', offset: 0, length: 19 },
+  { label: 'T7 terminator', type: 'terminator', signature: 'CTAGCATAACCCCTTGGGGCCTCTAAACGGGTCTTGAGGGGTTTTTTG', offset: 0, length: 48 },
+  { label: '6xHis', type: 'CDS', signature: 'CATCACCATCACCATCAC', offset: 0, length: 18 },
+];
+
+/** Finds the elements of COMMON_FEATURES in `seq`, on both strands. */
+export const detectFeatures = (seq: string, circular: boolean): SeqFeature[] => {
+  const len = seq.length;
+  const wrap = (x: number) => ((x % len) + len) % len;
+  const features: SeqFeature[] = [];
+  for (const def of COMMON_FEATURES) {
+    const text = circular ? seq + seq.slice(0, def.signature.length - 1) : seq;
+    const scan = (pattern: string, strand: FeatureStrand) => {
+      for (let p = text.indexOf(pattern); p !== -1 && p < len; p = text.indexOf(pattern, p + 1)) {
+        // On the minus strand the signature is read leftwards from its right end
+        const start = strand === 1 ? p - def.offset : p + pattern.length + def.offset - def.length;
+        const end = start + def.length;
+        if (!circular && (start < 0 || end > len)) continue;
+        if (def.length > len) continue;
+        features.push({ type: def.type, label: def.label, start: wrap(start), end: end === len ? len : wrap(end), strand, qualifiers: { label: def.label, note: 'detected' } });
+      }
+    };
+    scan(def.signature, 1);
+    scan(reverseComplement(def.signature), -1);
+  }
+  return features.sort((a, b) => a.start - b.start);
+};
+
+export interface OrfOptions {
+  code?: GeneticCode;
+  alternativeStarts?: boolean; // also start at the code's non-ATG initiation codons
+}
+
+/**
+ * Open reading frames (start to stop) of at least `minCodons` codons on both
+ * strands. Each stop codon yields one ORF from the most upstream start; on
+ * circular sequences ORFs may run through the origin.
+ */
+export const findOrfs = (seq: string, minCodons: number, circular: boolean, options: OrfOptions = {}): SeqFeature[] => {
+  const len = seq.length;
+  const code = options.code ?? STANDARD_CODE;
+  const table = codonTable(code);
+  const starts = options.alternativeStarts ? code.starts : ['ATG'];
+  const orfs: SeqFeature[] = [];
+  const scanStrand = (strandSeq: string, strand: FeatureStrand) => {
+    const text = circular ? strandSeq + strandSeq : strandSeq;
+    for (let frame = 0; frame < 3; frame++) {
+      let orfStart = -1;
+      for (let i = frame; i + 3 <= text.length; i += 3) {
+        const codon = text.slice(i, i + 3);
+        const aa = table[codon];
+        if (orfStart < 0 && starts.includes(codon) && i < len) orfStart = i;
+        if (aa !== '*' || orfStart < 0) continue;
+        const stopEnd = i + 3;
+        const ntLength = stopEnd - orfStart;
+        if (ntLength / 3 - 1 >= minCodons && ntLength <= len) {
+          // Back to top-strand coordinates
+          const s = strand === 1 ? orfStart : len - (stopEnd % len || len);
+          const e = strand === 1 ? stopEnd % len || len : len - orfStart;
+          orfs.push({ type: 'ORF', label: `ORF ${ntLength / 3 - 1} aa`, start: s % len, end: e, strand });
+        }
+        orfStart = -1;
+        if (i >= len) break;
+      }
+    }
+  };
+  // Codon tables are DNA; RNA input reads the same with U as T
+  const dna = seq.replace(/U/g, 'T');
+  scanStrand(dna, 1);
+  scanStrand(reverseComplement(dna), -1);
+  // On circular sequences a frame can pick up an ORF downstream of its real
+  // start (the ATG before the origin); keep the longest ORF per stop codon
+  const byStop = new Map<string, SeqFeature>();
+  for (const o of orfs) {
+    const key = `${o.strand === 1 ? o.end : o.start}:${o.strand}`;
+    const prev = byStop.get(key);
+    if (!prev || featureLength(o, len) > featureLength(prev, len)) byStop.set(key, o);
+  }
+  return [...byStop.values()].sort((a, b) => a.start - b.start);
+};
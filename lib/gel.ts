@@ -0,0 +1,111 @@
+export type LadderId = '1kb' | '100bp' | '1kbPlus';
+
+export interface LadderBand {
+  size: number; // bp
+  mass: number; // ng in a standard 0.5 µg load
+}
+
+export interface Ladder {
+  id: LadderId;
+  name: string;
+  bands: LadderBand[];
+}
+
+// Band masses follow the NEB ladder datasheets, rounded
+export const LADDERS: Record<LadderId, Ladder> = {
+  '1kb': {
+    id: '1kb',
+    name: '1 kb Ladder',
+    bands: [
+      { size: 10000, mass: 42 }, { size: 8000, mass: 42 }, { size: 6000, mass: 50 }, { size: 5000, mass: 42 },
+      { size: 4000, mass: 33 }, { size: 3000, mass: 125 }, { size: 2000, mass: 48 }, { size: 1500, mass: 36 },
+      { size: 1000, mass: 42 }, { size: 500, mass: 42 },
+    ],
+  },
+  '100bp': {
+    id: '100bp',
+    name: '100 bp Ladder',
+    bands: [
+      { size: 1517, mass: 45 }, { size: 1200, mass: 35 }, { size: 1000, mass: 95 }, { size: 900, mass: 27 },
+      { size: 800, mass: 24 }, { size: 700, mass: 21 }, { size: 600, mass: 18 }, { size: 517, mass: 49 },
+      { size: 500, mass: 48 }, { size: 400, mass: 49 }, { size: 300, mass: 37 }, { size: 200, mass: 32 },
+      { size: 100, mass: 61 },
+    ],
+  },
+  '1kbPlus': {
+    id: '1kbPlus',
+    name: '1 kb Plus Ladder',
+    bands: [
+      { size: 10000, mass: 20 }, { size: 8000, mass: 20 }, { size: 6000, mass: 20 }, { size: 5000, mass: 20 },
+      { size: 4000, mass: 20 }, { size: 3000, mass: 60 }, { size: 2000, mass: 20 }, { size: 1500, mass: 20 },
+      { size: 1200, mass: 20 }, { size: 1000, mass: 60 }, { size: 900, mass: 20 }, { size: 800, mass: 20 },
+      { size: 700, mass: 20 }, { size: 600, mass: 20 }, { size: 500, mass: 60 }, { size: 400, mass: 20 },
+      { size: 300, mass: 20 }, { size: 200, mass: 20 }, { size: 100, mass: 20 },
+    ],
+  },
+};
+
+export type DnaForm = 'linear' | 'supercoiled' | 'nicked';
+
+export interface GelSample {
+  size: number;
+  mass: number; // ng
+  form: DnaForm;
+}
+
+export interface GelBand {
+  samples: GelSample[]; // co-migrating species merged into this band
+  mass: number;
+  position: number; // 0 = well, 1 = bottom of the gel
+}
+
+// Apparent linear size of circular forms: supercoiled DNA runs ahead, nicked circles behind
+const FORM_FACTOR: Record<DnaForm, number> = { linear: 1, supercoiled: 0.7, nicked: 1.6 };
+// Bands closer than this (fraction of gel length) are drawn as one
+const MERGE_DISTANCE = 0.012;
+
+/**
+ * Relative migration of a fragment: a sigmoid in log(size) whose midpoint
+ * moves to smaller sizes as the agarose percentage rises (about 5.5 kb at
+ * 0.5%, 2 kb at 1% and 300 bp at 2%).
+ */
+export const migration = (size: number, agarose: number, form: DnaForm = 'linear'): number => {
+  const logMid = 4.15 - 0.83 * agarose;
+  const apparent = Math.max(1, size * FORM_FACTOR[form]);
+  return 1 / (1 + Math.pow(10, 1.3 * (Math.log10(apparent) - logMid)));
+};
+
+/** Splits `totalNg` across equimolar fragments, so mass scales with length. */
+export const equimolarSamples = (sizes: number[], totalNg: number, form: DnaForm = 'linear'): GelSample[] => {
+  const total = sizes.reduce((a, b) => a + b, 0) || 1;
+  return sizes.map(size => ({ size, mass: (totalNg * size) / total, form }));
+};
+
+/** Uncut plasmid: mostly supercoiled with some nicked open circle. */
+export const uncutPlasmidSamples = (size: number, totalNg: number): GelSample[] => [
+  { size, mass: totalNg * 0.8, form: 'supercoiled' },
+  { size, mass: totalNg * 0.2, form: 'nicked' },
+];
+
+export const ladderSamples = (ladder: Ladder): GelSample[] =>
+  ladder.bands.map(b => ({ size: b.size, mass: b.mass, form: 'linear' as DnaForm }));
+
+/** Positions samples on the gel, merging those that co-migrate into one band. */
+export const resolveBands = (samples: GelSample[], agarose: number): GelBand[] => {
+  const placed = samples
+    .map(s => ({ s, position: migration(s.size, agarose, s.form) }))
+    .sort((a, b) => a.position - b.position);
+  const bands: GelBand[] = [];
+  for (const { s, position } of placed) {
+    const last = bands[bands.length - 1];
+    if (last && position - last.position < MERGE_DISTANCE) {
+      // Mass-weighted position keeps merged bands centred on the brighter species
+      last.position = (last.position * last.mass + position * s.mass) / (last.mass + s.mass);
+      last.mass += s.mass;
+      last.samples.push(s);
+    } else {
+      bands.push({ samples: [s], mass: s.mass, position });
+    }
+  }
+  return bands;
+};
@@ -0,0 +1,124 @@
+import { IUPAC_CODES } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+
+// Codons in TCAG order, as in the NCBI translation tables
+const BASES = 'TCAG';
+
+export interface GeneticCode {
+    id: number; // NCBI transl_table
+    name: string;
+    aas: string; // 64 amino acids, TCAG order
+    starts: string[]; // initiation codons, ATG first
+}
+
+// NCBI translation tables (https://www.ncbi.nlm.nih.gov/Taxonomy/Utils/wprintgc.cgi)
+export const GENETIC_CODES: GeneticCode[] = [
+    { id: 1, name: 'Standard', aas: 'FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'CTG'] },
+    { id: 2, name: 'Vertebrate Mitochondrial', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSS**VVVVAAAADDEEGGGG', starts: ['ATG', 'ATT', 'ATC', 'ATA', 'GTG'] },
+    { id: 3, name: 'Yeast Mitochondrial', aas: 'FFLLSSSSYY**CCWWTTTTPPPPHHQQRRRRIIMMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'ATA'] },
+    { id: 4, name: 'Mold, Protozoan, Coelenterate Mitochondrial; Mycoplasma', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'TTA', 'TTG', 'CTG', 'ATT', 'ATC', 'ATA', 'GTG'] },
+    { id: 5, name: 'Invertebrate Mitochondrial', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSSSVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'ATT', 'ATC', 'ATA', 'GTG'] },
+    { id: 6, name: 'Ciliate, Dasycladacean, Hexamita Nuclear', aas: 'FFLLSSSSYYQQCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 9, name: 'Echinoderm and Flatworm Mitochondrial', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG', starts: ['ATG', 'GTG'] },
+    { id: 10, name: 'Euplotid Nuclear', aas: 'FFLLSSSSYY**CCCWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 11, name: 'Bacterial, Archaeal and Plant Plastid', aas: 'FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'CTG', 'ATT', 'ATC', 'ATA', 'GTG'] },
+    { id: 12, name: 'Alternative Yeast Nuclear', aas: 'FFLLSSSSYY**CC*WLLLSPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'CTG'] },
+    { id: 13, name: 'Ascidian Mitochondrial', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSGGVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'ATA', 'GTG'] },
+    { id: 14, name: 'Alternative Flatworm Mitochondrial', aas: 'FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 16, name: 'Chlorophycean Mitochondrial', aas: 'FFLLSSSSYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 21, name: 'Trematode Mitochondrial', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNNKSSSSVVVVAAAADDEEGGGG', starts: ['ATG', 'GTG'] },
+    { id: 22, name: 'Scenedesmus obliquus Mitochondrial', aas: 'FFLLSS*SYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 23, name: 'Thraustochytrium Mitochondrial', aas: 'FF*LSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'ATT', 'GTG'] },
+    { id: 24, name: 'Rhabdopleuridae Mitochondrial', aas: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'CTG', 'GTG'] },
+    { id: 25, name: 'Candidate Division SR1 and Gracilibacteria', aas: 'FFLLSSSSYY**CCGWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'GTG'] },
+    { id: 26, name: 'Pachysolen tannophilus Nuclear', aas: 'FFLLSSSSYY**CC*WLLLAPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG', 'CTG'] },
+    { id: 29, name: 'Mesodinium Nuclear', aas: 'FFLLSSSSYYYYCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 30, name: 'Peritrich Nuclear', aas: 'FFLLSSSSYYEECC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG', starts: ['ATG'] },
+    { id: 33, name: 'Cephalodiscidae Mitochondrial', aas: 'FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG', starts: ['ATG', 'TTG', 'CTG', 'GTG'] },
+];
+
+export const STANDARD_CODE = GENETIC_CODES[0];
+
+export const findGeneticCode = (id: number): GeneticCode => GENETIC_CODES.find(c => c.id === id) ?? STANDARD_CODE;
+
+// Guards the table strings above: 64 codons each, and TGA (index 14) is Trp in vertebrate mitochondria
+const TGA = 14;
+if (GENETIC_CODES.some(c => c.aas.length !== 64) || findGeneticCode(2).aas[TGA] !== 'W') {
+    throw new Error('Genetic code tables are malformed');
+}
+
+const tables = new Map<number, Record<string, string>>();
+
+/** Codon -> one-letter amino acid ('*' for stops) for a translation table. */
+export const codonTable = (code: GeneticCode): Record<string, string> => {
+    let table = tables.get(code.id);
+    if (!table) {
+        table = {};
+        for (let i = 0; i < 64; i++) table[BASES[i >> 4] + BASES[(i >> 2) & 3] + BASES[i & 3]] = code.aas[i];
+        tables.set(code.id, table);
+    }
+    return table;
+};
+
+export const CODON_TABLE = codonTable(STANDARD_CODE);
+
+// Ambiguous codons translate when every base they stand for gives the same amino acid
+const translateAmbiguous = (codon: string, table: Record<string, string>): string => {
+    const options = codon.split('').map(b => IUPAC_CODES[b]);
+    if (options.some(o => !o)) return 'X';
+    const aas = new Set<string>();
+    for (const a of options[0]) for (const b of options[1]) for (const c of options[2]) aas.add(table[a + b + c]);
+    return aas.size === 1 ? [...aas][0] : 'X';
+};
+
+/**
+ * Translates `seq` codon by codon from its first base; a trailing partial
+ * codon is dropped. With `initiator` the first codon is read as a start and
+ * gives M even when it is an alternative start such as GTG.
+ */
+export const translate = (seq: string, code: GeneticCode = STANDARD_CODE, initiator = false): string => {
+    const table = codonTable(code);
+    const dna = seq.toUpperCase().replace(/U/g, 'T');
+    let protein = '';
+    for (let i = 0; i + 3 <= dna.length; i += 3) {
+        const codon = dna.slice(i, i + 3);
+        protein += table[codon] ?? translateAmbiguous(codon, table);
+    }
+    return initiator && code.starts.includes(dna.slice(0, 3)) ? 'M' + protein.slice(1) : protein;
+};
+
+export interface ReadingFrame {
+    label: string; // +1..+3, -1..-3
+    strand: 1 | -1;
+    offset: number; // first translated base on its strand
+    protein: string;
+}
+
+/** Translation in all six reading frames; minus-strand frames read the reverse complement. */
+export const translateSixFrames = (seq: string, code: GeneticCode = STANDARD_CODE): ReadingFrame[] => {
+    const rc = reverseComplement(seq);
+    return [1, -1].flatMap(strand => [0, 1, 2].map(offset => ({
+        label: `${strand === 1 ? '+' : '-'}${offset + 1}`,
+        strand: strand as 1 | -1,
+        offset,
+        protein: translate((strand === 1 ? seq : rc).slice(offset), code),
+    })));
+};
+
+// E. coli K-12 codon usage, per thousand codons (Kazusa)
+export const ECOLI_CODON_USAGE: Record<string, number> = {
+    TTT: 22.1, TTC: 16.0, TTA: 14.3, TTG: 13.0, CTT: 11.9, CTC: 10.2, CTA: 4.2, CTG: 48.4,
+    ATT: 29.8, ATC: 23.7, ATA: 6.8, ATG: 26.4, GTT: 19.8, GTC: 14.3, GTA: 11.6, GTG: 24.4,
+    TCT: 10.4, TCC: 9.1, TCA: 8.9, TCG: 8.5, CCT: 7.5, CCC: 5.4, CCA: 8.6, CCG: 20.9,
+    ACT: 10.3, ACC: 22.0, ACA: 9.3, ACG: 13.7, GCT: 17.1, GCC: 24.2, GCA: 21.2, GCG: 30.1,
+    TAT: 17.5, TAC: 12.2, TAA: 2.0, TAG: 0.3, CAT: 12.5, CAC: 9.3, CAA: 14.6, CAG: 28.4,
+    AAT: 20.6, AAC: 21.4, AAA: 35.3, AAG: 12.4, GAT: 32.7, GAC: 19.2, GAA: 39.1, GAG: 17.8,
+    TGT: 5.2, TGC: 6.1, TGA: 1.0, TGG: 13.9, CGT: 20.0, CGC: 20.0, CGA: 3.8, CGG: 5.9,
+    AGT: 9.9, AGC: 15.2, AGA: 3.6, AGG: 2.1, GGT: 23.7, GGC: 25.9, GGA: 9.2, GGG: 11.3,
+};
+
+// One-letter amino acid (or '*') -> every codon encoding it
+export const codonsFor = (aa: string): string[] =>
+    Object.keys(CODON_TABLE).filter(c => CODON_TABLE[c] === aa.toUpperCase());
+
+export const translateCodon = (codon: string): string => CODON_TABLE[codon.toUpperCase()] ?? 'X';
@@ -0,0 +1,189 @@
+import { BufferConditions, StructureHit, analyzeStructure, calculatePrimerProps, cleanSequence, isHairpinRisk } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { findEnzyme } from './enzymes';
+import { digest } from './digest';
+import { CloningPrimer, PrimerSegment, buildPrimer, pickAnnealing } from './cloningPrimers';
+
+export type FragmentSource = 'pcr' | 'vector';
+
+export interface GibsonFragment {
+    name: string;
+    seq: string;
+    source: FragmentSource; // 'vector' = circular plasmid opened by `enzymes`, no primers
+    enzymes: string[];
+}
+
+export interface GibsonRequest {
+    fragments: GibsonFragment[];
+    circular: boolean; // last fragment joins the first
+    minOverlap: number;
+    maxOverlap: number;
+    overlapTm: number;
+    targetTm: number; // annealing part of the primers
+    cond: BufferConditions;
+}
+
+export interface JunctionReport {
+    between: [string, string];
+    overlap: string;
+    position: number; // start of the overlap in the assembled sequence
+    tm: number;
+    gc: number;
+    hairpin: StructureHit | null;
+    issues: string[];
+}
+
+export interface GibsonFragmentDesign {
+    name: string;
+    source: FragmentSource;
+    start: number; // in the assembled sequence
+    length: number; // of the fragment as it enters the assembly
+    forward?: CloningPrimer;
+    reverse?: CloningPrimer;
+    product?: string; // PCR product including overlaps
+}
+
+export interface GibsonDesign {
+    assembly: string;
+    junctions: JunctionReport[];
+    fragments: GibsonFragmentDesign[];
+    warnings: string[];
+}
+
+// Shortest match of an overlap elsewhere in the construct that can misprime the annealing
+const REPEAT_PROBE = 12;
+const MIN_PCR = 40;
+
+const longestRun = (seq: string, unit: number): number => {
+    let best = 0;
+    for (let start = 0; start < unit; start++) {
+        let run = 1;
+        for (let i = start + unit; i + unit <= seq.length; i += unit) {
+            const u = seq.slice(i, i + unit);
+            // Homopolymers are reported on their own
+            run = u === seq.slice(i - unit, i) && !/^(.)\1*$/.test(u) ? run + 1 : 1;
+            best = Math.max(best, run);
+        }
+    }
+    return best;
+};
+
+// The top strand a fragment brings to the assembly: PCR products as given, vectors opened at their cut(s)
+const fragmentSequence = (f: GibsonFragment): string => {
+    const seq = cleanSequence(f.seq);
+    if (f.source === 'pcr') return seq;
+    const enzymes = f.enzymes.map(findEnzyme).filter((e): e is NonNullable<typeof e> => !!e);
+    if (enzymes.length === 0) throw new Error(`Pick the enzyme(s) that linearize ${f.name}`);
+    const { fragments } = digest(seq, enzymes, true);
+    if (!fragments[0]?.left) throw new Error(`${f.name} is not cut by ${enzymes.map(e => e.name).join(' + ')}`);
+    // The largest piece is the backbone; a single cut just opens the circle
+    const backbone = fragments.reduce((a, b) => (b.length > a.length ? b : a));
+    return backbone.end > backbone.start ? seq.slice(backbone.start, backbone.end) : seq.slice(backbone.start) + seq.slice(0, backbone.end);
+};
+
+/**
+ * Plans a Gibson / NEBuilder assembly. Each junction gets the shortest
+ * overlap (between `minOverlap` and `maxOverlap`) reaching `overlapTm`.
+ * Between two PCR products the overlap straddles the junction and is split
+ * across both primers; next to a linearized vector the PCR primer carries
+ * the whole overlap, taken from the vector end.
+ */
+export const designGibson = (req: GibsonRequest): GibsonDesign => {
+    const warnings: string[] = [];
+    const frags = req.fragments.filter(f => cleanSequence(f.seq).length > 0);
+    if (frags.length === 0) throw new Error('Add at least one fragment');
+    const seqs = frags.map(fragmentSequence);
+    frags.forEach((f, i) => {
+        if (f.source === 'pcr' && seqs[i].length < MIN_PCR) throw new Error(`${f.name} is too short to amplify (${seqs[i].length} bp)`);
+    });
+    const assembly = seqs.join('');
+    const offsets = seqs.map((_, i) => seqs.slice(0, i).reduce((sum, s) => sum + s.length, 0));
+
+    const junctionCount = req.circular ? frags.length : frags.length - 1;
+    if (req.circular && frags.length === 1 && frags[0].source === 'vector') throw new Error('A linearized vector alone has nothing to assemble');
+    // Bases each PCR product gains as a 5' tail: [left, right]
+    const tails = frags.map(() => ['', '']);
+    const junctions: JunctionReport[] = [];
+
+    for (let j = 0; j < junctionCount; j++) {
+        const a = j;
+        const b = (j + 1) % frags.length;
+        const up = seqs[a];
+        const down = seqs[b];
+        if (frags[a].source === 'vector' && frags[b].source === 'vector') {
+            throw new Error(`${frags[a].name} and ${frags[b].name} are both vectors; put a PCR product between them`);
+        }
+
+        // Window as [bases from the upstream end, bases from the downstream start]
+        const windowFor = (length: number): [number, number] => {
+            if (frags[a].source === 'vector') return [length, 0];
+            if (frags[b].source === 'vector') return [0, length];
+            return [Math.floor(length / 2), Math.ceil(length / 2)];
+        };
+        const overlapOf = ([fromUp, fromDown]: [number, number]) => up.slice(up.length - fromUp) + down.slice(0, fromDown);
+        let window = windowFor(req.minOverlap);
+        for (let length = req.minOverlap; length <= req.maxOverlap; length++) {
+            window = windowFor(length);
+            if (calculatePrimerProps(overlapOf(window), req.cond).tmNN >= req.overlapTm) break;
+        }
+        const overlap = overlapOf(window);
+        if (window[0] > up.length || window[1] > down.length) warnings.push(`${frags[a].name}–${frags[b].name}: a fragment is shorter than the overlap`);
+
+        // The PCR side(s) carry what the other fragment contributes
+        if (frags[a].source === 'pcr') tails[a][1] = down.slice(0, window[1]);
+        if (frags[b].source === 'pcr') tails[b][0] = up.slice(up.length - window[0]);
+
+        const props = calculatePrimerProps(overlap, req.cond);
+        const hairpin = analyzeStructure(overlap).hairpin;
+        const position = (offsets[a] + up.length - window[0] + assembly.length) % assembly.length;
+        const issues: string[] = [];
+        if (props.tmNN < req.overlapTm) issues.push(`Tm below ${req.overlapTm}°C at the maximum length`);
+        if (props.gc < 30 || props.gc > 70) issues.push(`GC ${props.gc.toFixed(0)}%`);
+        if (/(A{6,}|C{6,}|G{6,}|T{6,})/.test(overlap)) issues.push('Homopolymer run');
+        if (longestRun(overlap, 2) >= 4 || longestRun(overlap, 3) >= 4) issues.push('Tandem repeat');
+        if (isHairpinRisk(hairpin)) issues.push(`Hairpin (ΔG ${hairpin!.dG.toFixed(1)} kcal/mol)`);
+        // The annealing 3' end of either strand must be unique in the construct
+        const circ = req.circular ? assembly + assembly.slice(0, REPEAT_PROBE - 1) : assembly;
+        for (const probe of [overlap.slice(-REPEAT_PROBE), reverseComplement(overlap.slice(0, REPEAT_PROBE))]) {
+            const rc = reverseComplement(probe);
+            const count = (p: string) => (circ.match(new RegExp(p, 'g')) ?? []).length;
+            const hits = count(probe) + (rc === probe ? 0 : count(rc));
+            if (hits > 1) {
+                issues.push('Overlap end repeated elsewhere in the construct');
+                break;
+            }
+        }
+        junctions.push({ between: [frags[a].name, frags[b].name], overlap, position, tm: props.tmNN, gc: props.gc, hairpin, issues });
+    }
+
+    const fragments: GibsonFragmentDesign[] = frags.map((f, i) => {
+        if (f.source === 'vector') return { name: f.name, source: f.source, start: offsets[i], length: seqs[i].length };
+        const seq = seqs[i];
+        const [left, right] = tails[i];
+        const fwdSegments: PrimerSegment[] = [
+            { kind: 'overlap', seq: left, label: 'Overlap' },
+            { kind: 'anneal', seq: pickAnnealing(seq, req.targetTm, req.cond), label: f.name },
+        ];
+        const revSegments: PrimerSegment[] = [
+            { kind: 'overlap', seq: reverseComplement(right), label: 'Overlap' },
+            { kind: 'anneal', seq: pickAnnealing(reverseComplement(seq), req.targetTm, req.cond), label: f.name },
+        ];
+        return {
+            name: f.name,
+            source: f.source,
+            start: offsets[i],
+            length: seq.length,
+            forward: buildPrimer('forward', fwdSegments, req.cond),
+            reverse: buildPrimer('reverse', revSegments, req.cond),
+            product: left + seq + right,
+        };
+    });
+
+    const primers = fragments.flatMap(f => (f.forward && f.reverse ? [f.forward, f.reverse] : []));
+    if (primers.some(p => p.full.length > 60)) warnings.push('Oligo longer than 60 nt; consider PAGE purification');
+    const annealTms = primers.map(p => p.anneal.tmNN);
+    if (annealTms.length > 1 && Math.max(...annealTms) - Math.min(...annealTms) > 5) warnings.push('Annealing-part Tm varies by more than 5°C across primers');
+    if (frags.length > 6) warnings.push('More than 6 fragments assemble with low efficiency; consider fewer, longer fragments');
+
+    return { assembly, junctions, fragments, warnings };
+};
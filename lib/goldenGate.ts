@@ -0,0 +1,279 @@
+import { BufferConditions, cleanSequence } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { Enzyme, findEnzyme, overhangLength } from './enzymes';
+import { CODON_TABLE } from './geneticCode';
+import { CloningPrimer, PrimerSegment, buildPrimer, pickAnnealing } from './cloningPrimers';
+
+export const GOLDEN_GATE_ENZYMES = ['BsaI', 'BsmBI', 'BbsI', 'SapI'];
+
+export interface GoldenGatePart {
+    name: string;
+    seq: string;
+    coding: boolean; // reading frame starts at the first base; domestication keeps the protein
+}
+
+export interface GoldenGateRequest {
+    enzyme: string;
+    parts: GoldenGatePart[];
+    circular: boolean; // parts close on themselves (one is the backbone) instead of going into a vector
+    vectorOverhangs: [string, string]; // destination vector ends for linear assemblies
+    overrides: string[]; // per internal junction; '' lets the designer pick a seamless site
+    leader: string; // padding 5' of the recognition site
+    targetTm: number;
+    cond: BufferConditions;
+}
+
+export interface FusionSite {
+    overhang: string;
+    position: number; // start in the assembled sequence
+    between: [string, string];
+    junction: number | null; // index into GoldenGateRequest.overrides; null for vector ends
+    seamless: boolean; // taken from the part sequences rather than added as a scar
+}
+
+export type OverhangIssueKind = 'palindrome' | 'duplicate' | 'near-duplicate' | 'gc';
+
+export interface OverhangIssue {
+    kind: OverhangIssueKind;
+    overhangs: string[];
+}
+
+export interface OverhangFidelity {
+    score: number; // 0-100; 0 when two junctions cannot be told apart
+    issues: OverhangIssue[];
+}
+
+export interface Domestication {
+    part: string;
+    position: number; // 0-based start of the site in the part
+    strand: 'forward' | 'reverse';
+    fix: { position: number; from: string; to: string } | null; // single-base change removing the site
+}
+
+export interface GoldenGatePartDesign {
+    name: string;
+    forward: CloningPrimer;
+    reverse: CloningPrimer;
+    product: string; // PCR product including tails
+}
+
+export interface GoldenGateDesign {
+    enzyme: Enzyme;
+    fusionSites: FusionSite[];
+    fidelity: OverhangFidelity;
+    domestication: Domestication[];
+    parts: GoldenGatePartDesign[];
+    assembly: string;
+    warnings: string[];
+}
+
+// How far from a part boundary a seamless fusion site may sit
+const SEAM_WINDOW = 8;
+const MIN_PART = 20;
+
+const hamming = (a: string, b: string): number => [...a].filter((c, i) => c !== b[i]).length;
+
+/**
+ * Rule-based fidelity of an overhang set. Palindromes ligate to themselves
+ * and duplicates (or reverse-complement duplicates) to the wrong partner, so
+ * either makes the set unusable; pairs one mismatch apart mis-ligate at a
+ * measurable rate, and all-AT or all-GC overhangs ligate poorly.
+ */
+export const scoreOverhangs = (overhangs: string[]): OverhangFidelity => {
+    const issues: OverhangIssue[] = [];
+    overhangs.forEach((a, i) => {
+        if (a === reverseComplement(a)) issues.push({ kind: 'palindrome', overhangs: [a] });
+        const gc = [...a].filter(b => b === 'G' || b === 'C').length;
+        if (gc === 0 || gc === a.length) issues.push({ kind: 'gc', overhangs: [a] });
+        for (const b of overhangs.slice(i + 1)) {
+            const diff = Math.min(hamming(a, b), hamming(a, reverseComplement(b)));
+            if (diff === 0) issues.push({ kind: 'duplicate', overhangs: [a, b] });
+            else if (diff === 1) issues.push({ kind: 'near-duplicate', overhangs: [a, b] });
+        }
+    });
+    const fatal = issues.some(i => i.kind === 'palindrome' || i.kind === 'duplicate');
+    const penalty = issues.reduce((sum, i) => sum + (i.kind === 'near-duplicate' ? 20 : i.kind === 'gc' ? 5 : 0), 0);
+    return { score: fatal ? 0 : Math.max(0, 100 - penalty), issues };
+};
+
+// Start positions of the enzyme's recognition site on either strand
+const siteHits = (seq: string, enzyme: Enzyme): { position: number; strand: 'forward' | 'reverse' }[] => {
+    const hits: { position: number; strand: 'forward' | 'reverse' }[] = [];
+    const rc = reverseComplement(enzyme.seq);
+    for (let p = seq.indexOf(enzyme.seq); p !== -1; p = seq.indexOf(enzyme.seq, p + 1)) hits.push({ position: p, strand: 'forward' });
+    if (rc !== enzyme.seq) {
+        for (let p = seq.indexOf(rc); p !== -1; p = seq.indexOf(rc, p + 1)) hits.push({ position: p, strand: 'reverse' });
+    }
+    return hits.sort((a, b) => a.position - b.position);
+};
+
+// Single-base change inside the site that removes it without creating another, silent on coding parts
+const domesticationFix = (seq: string, position: number, enzyme: Enzyme, coding: boolean): Domestication['fix'] => {
+    const sites = siteHits(seq, enzyme).length;
+    const order = [...Array(enzyme.seq.length).keys()]
+        .map(i => position + i)
+        .sort((a, b) => (coding ? Number(a % 3 !== 2) - Number(b % 3 !== 2) : 0));
+    for (const p of order) {
+        for (const base of 'ACGT') {
+            if (base === seq[p]) continue;
+            const mutated = seq.slice(0, p) + base + seq.slice(p + 1);
+            if (siteHits(mutated, enzyme).length !== sites - 1) continue;
+            if (coding) {
+                const c = p - (p % 3);
+                if (c + 3 > seq.length || CODON_TABLE[seq.slice(c, c + 3)] !== CODON_TABLE[mutated.slice(c, c + 3)]) continue;
+            }
+            return { position: p, from: seq[p], to: base };
+        }
+    }
+    return null;
+};
+
+interface Seam {
+    overhang: string;
+    offset: number; // start relative to the boundary; negative = inside the upstream part
+    seamless: boolean;
+}
+
+// Seamless fusion sites around a boundary, closest to straddling it first
+const seamCandidates = (upstream: string, downstream: string, k: number): Seam[] => {
+    const tail = upstream.slice(-SEAM_WINDOW);
+    const head = downstream.slice(0, SEAM_WINDOW);
+    const local = tail + head;
+    const out: Seam[] = [];
+    for (let s = 0; s + k <= local.length; s++) {
+        const overhang = local.slice(s, s + k);
+        if (/^[ACGT]+$/.test(overhang)) out.push({ overhang, offset: s - tail.length, seamless: true });
+    }
+    return out.sort((a, b) => Math.abs(2 * a.offset + k) - Math.abs(2 * b.offset + k));
+};
+
+/**
+ * Designs a Golden Gate assembly: domesticates internal sites, picks (or
+ * checks) one fusion site per junction, and tails every part's primers with
+ * leader + recognition site + spacer + fusion bases. Seamless sites are
+ * chosen greedily junction by junction so the growing set stays free of
+ * palindromes and near-duplicates.
+ */
+export const designGoldenGate = (req: GoldenGateRequest): GoldenGateDesign | null => {
+    const enzyme = findEnzyme(req.enzyme);
+    const parts = req.parts.map(p => ({ ...p, seq: cleanSequence(p.seq) })).filter(p => p.seq.length > 0);
+    if (!enzyme || parts.length === 0) return null;
+    const k = overhangLength(enzyme);
+    const spacer = 'A'.repeat(enzyme.cutOffset - enzyme.seq.length);
+    const warnings: string[] = [];
+    if (parts.some(p => p.seq.length < MIN_PART)) warnings.push(`Parts shorter than ${MIN_PART} bp are better ordered as annealed oligos`);
+
+    // Domestication: internal sites would cut the part apart during assembly
+    const domestication: Domestication[] = [];
+    for (const part of parts) {
+        for (const hit of siteHits(part.seq, enzyme)) {
+            const fix = domesticationFix(part.seq, hit.position, enzyme, part.coding);
+            domestication.push({ part: part.name, ...hit, fix });
+            if (fix) part.seq = part.seq.slice(0, fix.position) + fix.to + part.seq.slice(fix.position + 1);
+        }
+    }
+    if (domestication.some(d => !d.fix)) warnings.push(`Some internal ${enzyme.name} sites have no silent single-base fix`);
+    if (domestication.some(d => d.fix)) warnings.push('Domesticated parts differ from their templates: introduce the changes by mutagenesis or synthesis');
+
+    // Fusion sites: junction j joins part j to part j + 1
+    const vectorEnds = req.circular ? [] : req.vectorOverhangs.map(cleanSequence);
+    if (vectorEnds.some(o => o.length !== k)) warnings.push(`Vector overhangs must be ${k} nt for ${enzyme.name}`);
+    const junctionCount = req.circular ? parts.length : parts.length - 1;
+    const seams: Seam[] = [];
+    for (let j = 0; j < junctionCount; j++) {
+        const override = cleanSequence(req.overrides[j] ?? '');
+        if (override) {
+            if (override.length !== k) warnings.push(`Fusion site ${j + 1} must be ${k} nt`);
+            seams.push({ overhang: override, offset: 0, seamless: false });
+            continue;
+        }
+        const chosen = [...vectorEnds, ...seams.map(s => s.overhang)];
+        const candidates = seamCandidates(parts[j].seq, parts[(j + 1) % parts.length].seq, k);
+        const penalty = (c: Seam) => {
+            const fid = scoreOverhangs([...chosen, c.overhang]);
+            return fid.score === 0 ? Infinity : 100 - fid.score;
+        };
+        const best = candidates.reduce<Seam | null>((b, c) => (!b || penalty(c) < penalty(b) ? c : b), null);
+        if (!best) {
+            warnings.push(`No seamless fusion site fits junction ${j + 1}`);
+            return null;
+        }
+        seams.push(best);
+    }
+    const overhangs = [...vectorEnds, ...seams.map(s => s.overhang)];
+    const fidelity = scoreOverhangs(overhangs);
+    if (fidelity.score === 0) warnings.push('The fusion sites cannot all be told apart; the assembly will mis-ligate');
+
+    // Bases each part carries beyond its own sequence, per side
+    const leftSeam = (i: number): Seam | null => (i > 0 || req.circular ? seams[(i - 1 + parts.length) % parts.length] : null);
+    const rightSeam = (i: number): Seam | null => (i < parts.length - 1 || req.circular ? seams[i] : null);
+    const leftExtra = (i: number): string => {
+        const s = leftSeam(i);
+        if (!s) return vectorEnds[0] ?? '';
+        // Fusion bases that lie in the upstream part (or the whole scar) go on the tail
+        return s.seamless ? (s.offset < 0 ? parts[(i - 1 + parts.length) % parts.length].seq.slice(s.offset) : '') : s.overhang;
+    };
+    const rightExtra = (i: number): string => {
+        const s = rightSeam(i);
+        if (!s) return vectorEnds[1] ?? '';
+        return s.seamless ? parts[(i + 1) % parts.length].seq.slice(0, Math.max(0, s.offset + k)) : s.overhang;
+    };
+
+    // A seamless site lying wholly in one part moves the bases beyond it onto the neighbour's primer
+    const trimStart = (i: number) => Math.max(0, leftSeam(i)?.seamless ? leftSeam(i)!.offset : 0);
+    const trimEnd = (i: number) => Math.max(0, rightSeam(i)?.seamless ? -(rightSeam(i)!.offset + k) : 0);
+
+    const leader = cleanSequence(req.leader);
+    const designs: GoldenGatePartDesign[] = parts.map((part, i) => {
+        const seq = part.seq.slice(trimStart(i), part.seq.length - trimEnd(i));
+        const fwdAnneal = pickAnnealing(seq, req.targetTm, req.cond);
+        const revAnneal = pickAnnealing(reverseComplement(seq), req.targetTm, req.cond);
+        const left = leftExtra(i);
+        const right = rightExtra(i);
+        const fwdSegments: PrimerSegment[] = [
+            { kind: 'leader', seq: leader, label: 'Leader' },
+            { kind: 'site', seq: enzyme.seq + spacer, label: enzyme.name },
+            { kind: 'overlap', seq: left, label: 'Fusion site' },
+            { kind: 'anneal', seq: fwdAnneal, label: part.name },
+        ];
+        const revSegments: PrimerSegment[] = [
+            { kind: 'leader', seq: leader, label: 'Leader' },
+            { kind: 'site', seq: enzyme.seq + spacer, label: enzyme.name },
+            { kind: 'overlap', seq: reverseComplement(right), label: 'Fusion site' },
+            { kind: 'anneal', seq: revAnneal, label: part.name },
+        ];
+        const forward = buildPrimer('forward', fwdSegments, req.cond);
+        const reverse = buildPrimer('reverse', revSegments, req.cond);
+        const product = leader + enzyme.seq + spacer + left + seq + right + reverseComplement(leader + enzyme.seq + spacer);
+        return { name: part.name, forward, reverse, product };
+    });
+
+    // Assembled sequence: parts in order, scars between them, vector overhangs at the ends
+    let assembly = vectorEnds[0] ?? '';
+    const fusionSites: FusionSite[] = [];
+    if (vectorEnds.length) fusionSites.push({ overhang: vectorEnds[0], position: 0, between: ['vector', parts[0].name], junction: null, seamless: false });
+    parts.forEach((part, i) => {
+        assembly += part.seq;
+        const s = rightSeam(i);
+        if (!s) return;
+        const next = parts[(i + 1) % parts.length].name;
+        if (s.seamless) {
+            fusionSites.push({ overhang: s.overhang, position: assembly.length + s.offset, between: [part.name, next], junction: i, seamless: true });
+        } else {
+            fusionSites.push({ overhang: s.overhang, position: assembly.length, between: [part.name, next], junction: i, seamless: false });
+            assembly += s.overhang;
+        }
+    });
+    if (vectorEnds.length) {
+        fusionSites.push({ overhang: vectorEnds[1], position: assembly.length, between: [parts[parts.length - 1].name, 'vector'], junction: null, seamless: false });
+        assembly += vectorEnds[1];
+    }
+    // A circular assembly's last seam can start before the origin
+    if (req.circular) fusionSites.forEach(f => { f.position = (f.position + assembly.length) % assembly.length; });
+
+    const remaining = siteHits(req.circular ? assembly + assembly.slice(0, enzyme.seq.length - 1) : assembly, enzyme).length;
+    if (remaining > 0) warnings.push(`The assembly contains ${remaining} ${enzyme.name} site(s) and will be re-cut`);
+    if (designs.some(d => d.forward.full.length > 60 || d.reverse.full.length > 60)) warnings.push('Oligo longer than 60 nt; consider PAGE purification');
+
+    return { enzyme, fusionSites, fidelity, domestication, parts: designs, assembly, warnings };
+};
@@ -0,0 +1,153 @@
+import { cleanSequence, iupacMatches } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { BindingSite, PrimerLabel, SequenceRecord, findBindingSites } from './primerSpecificity';
+
+export interface PcrSite {
+    primer: PrimerLabel;
+    strand: 'sense' | 'antisense';
+    start: number; // 0-based, annealed part only, on the template's top strand
+    end: number;
+    annealed: number; // primer bases paired with the template, from the 3' end
+    tail: number; // unpaired 5' bases carried into the product
+    mismatches: number; // within the annealed part
+    threePrimeMismatches: number;
+}
+
+export interface PcrProduct {
+    forward: PcrSite; // site extending rightwards
+    reverse: PcrSite; // site extending leftwards
+    start: number; // template span covered by the annealed primers
+    end: number;
+    size: number; // including both tails
+    sequence: string;
+}
+
+export interface PcrOptions {
+    anchorLength: number; // 3' bases that must bind within maxScore
+    maxScore: number;
+    maxProduct: number;
+    circular: boolean;
+}
+
+export interface PcrResult {
+    templateLength: number;
+    sites: PcrSite[];
+    products: PcrProduct[];
+}
+
+export const DEFAULT_PCR_OPTIONS: PcrOptions = { anchorLength: 15, maxScore: 4, maxProduct: 5000, circular: false };
+
+// Extension stops at the first run of this many mismatches: the rest of the primer is a tail
+const TAIL_BREAK = 3;
+// Matches needed after a mismatch before it counts as annealed rather than a chance pairing in the tail
+const CONFIRM_RUN = 3;
+
+/**
+ * Grows a 3'-anchor site towards the primer's 5' end while the primer still
+ * pairs with the template, and returns the annealed length. Mismatches are
+ * only taken in once CONFIRM_RUN matches follow them; otherwise the site ends
+ * at the last clean match.
+ */
+const extendSite = (primer: string, anchorLength: number, text: string, anchorStart: number): { annealed: number; mismatches: number } => {
+    let annealed = anchorLength;
+    let mismatches = 0;
+    let pending = 0; // bases since the last committed match
+    let pendingMismatches = 0;
+    let matchRun = 0;
+    let mismatchRun = 0;
+    for (let k = primer.length - anchorLength - 1, pos = anchorStart - 1; k >= 0 && pos >= 0; k--, pos--) {
+        pending++;
+        if (iupacMatches(primer[k], text[pos])) {
+            matchRun++;
+            mismatchRun = 0;
+            if (pendingMismatches === 0 || matchRun >= CONFIRM_RUN) {
+                annealed += pending;
+                mismatches += pendingMismatches;
+                pending = 0;
+                pendingMismatches = 0;
+            }
+        } else {
+            pendingMismatches++;
+            matchRun = 0;
+            mismatchRun++;
+            if (mismatchRun >= TAIL_BREAK) break;
+        }
+    }
+    return { annealed, mismatches };
+};
+
+const toPcrSite = (primer: string, site: BindingSite, anchorLength: number, seq: string, rc: string): PcrSite => {
+    const text = site.strand === 'sense' ? seq : rc;
+    // Anchor start in the scanned text (the reverse complement for antisense sites)
+    const anchorStart = site.strand === 'sense' ? site.start : seq.length - site.end - 1;
+    const { annealed, mismatches } = extendSite(primer, anchorLength, text, anchorStart);
+    const extra = annealed - anchorLength;
+    return {
+        primer: site.primer,
+        strand: site.strand,
+        start: site.strand === 'sense' ? site.start - extra : site.start,
+        end: site.strand === 'sense' ? site.end : site.end + extra,
+        annealed,
+        tail: primer.length - annealed,
+        mismatches: site.mismatches + mismatches,
+        threePrimeMismatches: site.threePrimeMismatches,
+    };
+};
+
+/**
+ * Finds where two primers bind and the products they make. Only a 3' anchor
+ * has to match (within `maxScore`); the 5' part is extended as far as it
+ * pairs and anything beyond is treated as a tail. Product sequences contain
+ * the primers as written, so tails and primer mismatches are carried through.
+ */
+export const simulatePcr = (rawForward: string, rawReverse: string, rawTemplate: string, options: PcrOptions): PcrResult => {
+    const forward = cleanSequence(rawForward);
+    const reverse = cleanSequence(rawReverse);
+    const template = cleanSequence(rawTemplate);
+    const primers: Record<PrimerLabel, string> = { F: forward, R: reverse };
+    // Circular templates are scanned with the start appended so products can span the origin
+    const seq = options.circular ? template + template.slice(0, Math.min(template.length, options.maxProduct)) : template;
+    const rc = reverseComplement(seq);
+    const record: SequenceRecord = { name: 'template', seq };
+
+    const sites: PcrSite[] = [];
+    (['F', 'R'] as PrimerLabel[]).forEach(label => {
+        const primer = primers[label];
+        if (!primer) return;
+        const anchorLength = Math.min(options.anchorLength, primer.length);
+        const anchor = primer.slice(-anchorLength);
+        for (const site of findBindingSites(anchor, label, record, options.maxScore).sites) {
+            sites.push(toPcrSite(primer, site, anchorLength, seq, rc));
+        }
+    });
+
+    // Report positions on the original template
+    const wrap = (s: PcrSite): PcrSite => ({ ...s, start: s.start % template.length, end: s.end % template.length });
+    const products: PcrProduct[] = [];
+    const senses = sites.filter(s => s.strand === 'sense' && s.start < template.length);
+    const antis = sites.filter(s => s.strand === 'antisense');
+    for (const f of senses) {
+        for (const r of antis) {
+            if (r.end <= f.end || r.start < f.start) continue;
+            if (r.end - f.start >= template.length) continue; // the same site one lap further round
+            const size = r.end - f.start + 1 + f.tail + r.tail;
+            if (size > options.maxProduct) continue;
+            const sequence = primers[f.primer] + seq.slice(f.end + 1, r.start) + reverseComplement(primers[r.primer]);
+            products.push({ forward: f, reverse: wrap(r), start: f.start, end: r.end % template.length, size, sequence });
+        }
+    }
+
+    products.sort((a, b) => a.size - b.size);
+    return {
+        templateLength: template.length,
+        sites: sites.filter(s => s.start < template.length).map(wrap).sort((a, b) => a.start - b.start),
+        products,
+    };
+};
+
+/** Products as FASTA, one record per product, wrapped at 70 columns. */
+export const productsToFasta = (products: PcrProduct[], templateName = 'template'): string =>
+    products.map(p => {
+        const header = `>${templateName}_${p.forward.primer}${p.reverse.primer}_${p.start + 1}-${p.end + 1} ${p.size} bp`;
+        return `${header}\n${p.sequence.match(/.{1,70}/g)?.join('\n') ?? ''}`;
+    }).join('\n');
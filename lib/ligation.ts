@@ -0,0 +1,228 @@
+import { reverseComplement } from './nucleotide';
+import { Enzyme, ENZYMES, enzymeProperties, findEnzyme, findSites } from './enzymes';
+import { Fragment, FragmentEnd, digest } from './digest';
+import { HostMethylation, UNMETHYLATED } from './methylation';
+import { SeqFeature, FeatureStrand, featureLength } from './features';
+import { CUTSMART_COMPATIBLE } from './cloningSites';
+
+export interface CloningPart {
+  seq: string;
+  circular: boolean;
+  features: SeqFeature[];
+}
+
+export type Orientation = 'forward' | 'reverse';
+
+export interface Junction {
+  position: number; // product position of the top-strand seam
+  left: string; // enzyme whose end is on the upstream side
+  right: string;
+  regenerated: string[]; // enzymes whose site is restored across the seam
+}
+
+export interface CloneProduct {
+  orientation: Orientation;
+  seq: string; // circular, numbered from the vector origin where it survives
+  features: SeqFeature[];
+  insertStart: number;
+  insertLength: number;
+  junctions: [Junction, Junction];
+}
+
+export interface CloningResult {
+  backbone: Fragment;
+  insert: Fragment;
+  insertFragments: Fragment[]; // insert fragments flanked by cuts on both sides
+  products: CloneProduct[]; // one per orientation that ligates
+  warnings: string[];
+}
+
+// Ends pair in place (no flipping): same type, same top-strand overhang
+const sameEnd = (a: FragmentEnd, b: FragmentEnd): boolean => a.type === b.type && a.overhang === b.overhang;
+
+// The end as it reads once its fragment is reverse-complemented
+const flipEnd = (end: FragmentEnd): FragmentEnd => ({ ...end, overhang: reverseComplement(end.overhang) });
+
+const circularSlice = (seq: string, from: number, to: number): string =>
+  from < to ? seq.slice(from, to) : seq.slice(from) + seq.slice(0, to);
+
+// Features lying wholly within `from`..`from + length` of a sequence, re-based to that window
+const featuresIn = (features: SeqFeature[], seqLength: number, from: number, length: number): SeqFeature[] =>
+  features.flatMap(f => {
+    const offset = (f.start - from + seqLength) % seqLength;
+    const flen = featureLength(f, seqLength);
+    return offset + flen <= length ? [{ ...f, start: offset, end: offset + flen }] : [];
+  });
+
+// Places window-relative features at `at` in a circular product, wrapping past its end
+const place = (features: SeqFeature[], at: number, productLength: number): SeqFeature[] =>
+  features.map(f => {
+    const start = (f.start + at) % productLength;
+    const end = (f.end + at) % productLength;
+    return { ...f, start, end: end === 0 ? productLength : end };
+  });
+
+/** Flanked fragments of an insert, largest first for PCR products and smallest first for donor plasmids. */
+export const insertFragments = (part: CloningPart, enzymes: Enzyme[], host: HostMethylation = UNMETHYLATED): Fragment[] =>
+  digest(part.seq, enzymes, part.circular, host).fragments
+    .filter(f => f.left && f.right)
+    .sort((a, b) => (part.circular ? a.length - b.length : b.length - a.length));
+
+/**
+ * Cuts a circular vector with `vectorEnzymes` and an insert with
+ * `insertEnzymes`, then ligates the largest vector fragment to the chosen
+ * insert fragment in every orientation whose ends pair. Products are built
+ * from the top strands: a fragment runs from one top-strand cut to the next,
+ * and a flipped insert from one bottom-strand cut to the next.
+ */
+export const simulateCloning = (
+  vector: CloningPart,
+  vectorEnzymes: Enzyme[],
+  insert: CloningPart,
+  insertEnzymes: Enzyme[],
+  host: HostMethylation = UNMETHYLATED,
+  insertIndex = 0
+): CloningResult => {
+  if (!vector.circular) throw new Error('The vector must be circular');
+  const warnings: string[] = [];
+  const vectorDigest = digest(vector.seq, vectorEnzymes, true, host);
+  if (vectorDigest.cuts.length === 0) throw new Error('The vector is not cut by the selected enzymes');
+  if (vectorDigest.cuts.length > 2) warnings.push(`The vector is cut ${vectorDigest.cuts.length} times; the largest fragment is used as backbone`);
+  if (vectorDigest.blocked.length > 0) warnings.push(`${vectorDigest.blocked.length} vector site(s) blocked by host methylation`);
+  const backbone = vectorDigest.fragments.reduce((a, b) => (b.length > a.length ? b : a));
+
+  // The insert is a PCR product or fragment, so it keeps its own methylation state only if circular
+  const flanked = insertFragments(insert, insertEnzymes, insert.circular ? host : UNMETHYLATED);
+  if (flanked.length === 0) throw new Error('The insert is not cut on both sides by the selected enzymes');
+  const ins = flanked[Math.min(insertIndex, flanked.length - 1)];
+
+  const vLeft = backbone.left as FragmentEnd;
+  const vRight = backbone.right as FragmentEnd;
+  const iLeft = ins.left as FragmentEnd;
+  const iRight = ins.right as FragmentEnd;
+  if (sameEnd(vRight, vLeft)) warnings.push('The backbone ends are compatible with each other: dephosphorylate the vector to prevent self-ligation');
+
+  const vLen = vector.seq.length;
+  const backboneSeq = circularSlice(vector.seq, backbone.start, backbone.end || vLen);
+  const backboneFeatures = featuresIn(vector.features, vLen, backbone.start, backbone.length);
+  // Keep the vector numbering when the backbone runs through its origin
+  const rotation = backbone.start > 0 && backbone.end <= backbone.start ? vLen - backbone.start : 0;
+
+  const build = (orientation: Orientation): CloneProduct => {
+    const iLen = insert.seq.length;
+    const [from, to] = orientation === 'forward' ? [iLeft.cut.topCut, iRight.cut.topCut] : [iLeft.cut.bottomCut, iRight.cut.bottomCut];
+    const top = circularSlice(insert.seq, from, to || iLen);
+    const insertSeq = orientation === 'forward' ? top : reverseComplement(top);
+    const window = featuresIn(insert.features, iLen, from, top.length);
+    const insertFeatures = orientation === 'forward'
+      ? window
+      : window.map(f => ({ ...f, start: top.length - f.end, end: top.length - f.start, strand: -f.strand as FeatureStrand }));
+
+    const joined = backboneSeq + insertSeq;
+    const total = joined.length;
+    const shift = (total - rotation) % total;
+    const seq = joined.slice(rotation) + joined.slice(0, rotation);
+    const insertStart = (backboneSeq.length + shift) % total;
+    const upstream = orientation === 'forward' ? iLeft : iRight;
+    const downstream = orientation === 'forward' ? iRight : iLeft;
+    const features = [
+      ...place(backboneFeatures, shift, total),
+      ...place(insertFeatures, insertStart, total),
+      ...place([{ type: 'misc_feature', label: 'insert', start: 0, end: insertSeq.length, strand: 0, qualifiers: { note: `${orientation} orientation` } }], insertStart, total),
+    ].sort((a, b) => a.start - b.start);
+
+    const regenerated = (position: number, enzymes: string[]) =>
+      [...new Set(enzymes)].filter(name => {
+        const enzyme = findEnzyme(name);
+        return !!enzyme && findSites(seq, enzyme, true).some(s => s.topCut === position);
+      });
+    const insertEnd = (insertStart + insertSeq.length) % total;
+    return {
+      orientation,
+      seq,
+      features,
+      insertStart,
+      insertLength: insertSeq.length,
+      junctions: [
+        { position: insertStart, left: vRight.enzyme, right: upstream.enzyme, regenerated: regenerated(insertStart, [vRight.enzyme, upstream.enzyme]) },
+        { position: insertEnd, left: downstream.enzyme, right: vLeft.enzyme, regenerated: regenerated(insertEnd, [downstream.enzyme, vLeft.enzyme]) },
+      ],
+    };
+  };
+
+  const products: CloneProduct[] = [];
+  if (sameEnd(vRight, iLeft) && sameEnd(iRight, vLeft)) products.push(build('forward'));
+  if (sameEnd(vRight, flipEnd(iRight)) && sameEnd(flipEnd(iLeft), vLeft)) products.push(build('reverse'));
+  if (products.length === 0) warnings.push('The insert ends do not pair with the vector ends in either orientation');
+  if (products.length === 2) warnings.push('Non-directional: the insert ligates in both orientations');
+  return { backbone, insert: ins, insertFragments: flanked, products, warnings };
+};
+
+// --- Diagnostic digest ---
+
+export interface DiagnosticDigest {
+  enzymes: string[];
+  product: number[]; // fragment sizes, largest first
+  parent: number[];
+  reverse?: number[]; // the other orientation, for non-directional clones
+  score: number;
+}
+
+// Bands below this are hard to see next to a ladder
+const MIN_VISIBLE = 100;
+// Bands closer than this (relative) co-migrate on a standard gel
+const RESOLUTION = 0.1;
+
+const fragmentSizes = (seq: string, enzymes: Enzyme[], host: HostMethylation): number[] =>
+  digest(seq, enzymes, true, host).fragments.map(f => f.length).sort((a, b) => b - a);
+
+const visible = (sizes: number[]) => sizes.filter(s => s >= MIN_VISIBLE);
+
+// Whether two band patterns can be told apart: a visible band of one has no partner in the other
+const distinguishable = (a: number[], b: number[]): boolean => {
+  const va = visible(a);
+  const vb = visible(b);
+  const unmatched = (x: number[], y: number[]) => x.some(s => !y.some(t => Math.abs(s - t) / Math.max(s, t) < RESOLUTION));
+  return va.length !== vb.length || unmatched(va, vb) || unmatched(vb, va);
+};
+
+/**
+ * Single-enzyme digests (plus the cloning enzymes together) that tell the
+ * clone from the parent vector, and from the reversed insert when the
+ * cloning was non-directional. Two to four well separated visible bands
+ * score best.
+ */
+export const suggestDiagnosticDigests = (
+  product: string,
+  parent: string,
+  reverse: string | null,
+  cloningEnzymes: Enzyme[],
+  host: HostMethylation = UNMETHYLATED,
+  limit = 5
+): DiagnosticDigest[] => {
+  const candidates: Enzyme[][] = [cloningEnzymes, ...ENZYMES.map(e => [e])];
+  const seen = new Set<string>();
+  const out: DiagnosticDigest[] = [];
+  for (const enzymes of candidates) {
+    const key = enzymes.map(e => e.name).join('+');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const sizes = fragmentSizes(product, enzymes, host);
+    const bands = visible(sizes);
+    if (sizes.length < 2 || bands.length > 4) continue;
+    const parentSizes = fragmentSizes(parent, enzymes, host);
+    if (!distinguishable(sizes, parentSizes)) continue;
+    const reverseSizes = reverse ? fragmentSizes(reverse, enzymes, host) : undefined;
+    if (reverseSizes && !distinguishable(sizes, reverseSizes)) continue;
+
+    let score = 100 - 10 * (sizes.length - bands.length) - 5 * Math.max(0, bands.length - 2);
+    for (let i = 1; i < bands.length; i++) {
+      if ((bands[i - 1] - bands[i]) / bands[i - 1] < 2 * RESOLUTION) score -= 10;
+    }
+    if ((enzymeProperties(enzymes[0])?.cutSmart ?? 0) >= CUTSMART_COMPATIBLE) score += 5;
+    // Dropping the insert out with the cloning enzymes is the usual first check
+    if (enzymes === cloningEnzymes) score += 10;
+    out.push({ enzymes: enzymes.map(e => e.name), product: sizes, parent: parentSizes, reverse: reverseSizes, score });
+  }
+  return out.sort((a, b) => b.score - a.score || a.enzymes.length - b.enzymes.length).slice(0, limit);
+};
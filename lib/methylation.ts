@@ -0,0 +1,87 @@
+import { IUPAC_CODES } from './primerThermo';
+import { Enzyme, SiteMatch } from './enzymes';
+
+export type Methylation = 'dam' | 'dcm' | 'cpg';
+
+export type HostMethylation = Record<Methylation, boolean>;
+
+export const UNMETHYLATED: HostMethylation = { dam: false, dcm: false, cpg: false };
+
+export const METHYLATION_LABELS: Record<Methylation, string> = {
+  dam: 'Dam (Gm6ATC)',
+  dcm: 'Dcm (Cm5CWGG)',
+  cpg: 'CpG (m5CG)',
+};
+
+/**
+ * Enzymes blocked when a Dam or Dcm methylated base falls inside their site,
+ * including sites that only overlap the methylation motif (NEB data).
+ */
+const DAM_BLOCKED = new Set([
+  'AlwI', 'BclI', 'BsaBI', 'BspDI', 'BspEI', 'BspHI', 'ClaI', 'DpnII', 'HphI',
+  'Hpy188I', 'MboI', 'MboII', 'NruI', 'TaqI', 'XbaI',
+]);
+const DCM_BLOCKED = new Set([
+  'Acc65I', 'ApaI', 'AvaII', 'BanI', 'BsaI', 'BslI', 'BsmFI', 'EaeI', 'EcoO109I',
+  'MscI', 'NlaIV', 'PflMI', 'PpuMI', 'PspGI', 'PspOMI', 'Sau96I', 'SexAI', 'SfiI', 'StuI',
+]);
+// Sites able to contain CG are CpG-blocked except for these
+const CPG_INSENSITIVE = new Set(['BsaWI', 'BsrFI', 'MspI', 'TaqI', 'XmaI']);
+
+const canContainCpG = (site: string): boolean => {
+  for (let i = 0; i < site.length - 1; i++) {
+    if ((IUPAC_CODES[site[i]] ?? '').includes('C') && (IUPAC_CODES[site[i + 1]] ?? '').includes('G')) return true;
+  }
+  return false;
+};
+
+export const methylationSensitivity = (enzyme: Enzyme): Methylation[] => {
+  const out: Methylation[] = [];
+  if (DAM_BLOCKED.has(enzyme.name)) out.push('dam');
+  if (DCM_BLOCKED.has(enzyme.name)) out.push('dcm');
+  if (!CPG_INSENSITIVE.has(enzyme.name) && canContainCpG(enzyme.seq)) out.push('cpg');
+  return out;
+};
+
+// Motif and the methylated positions within it, on both strands (top-strand coordinates)
+const MOTIFS: Record<Methylation, { re: RegExp; marks: number[] }> = {
+  dam: { re: /(?=GATC)/g, marks: [1, 2] },
+  dcm: { re: /(?=CC[AT]GG)/g, marks: [1, 3] },
+  cpg: { re: /(?=CG)/g, marks: [0, 1] },
+};
+
+export type MethylationMap = Partial<Record<Methylation, Uint8Array>>;
+
+/** Bases methylated in `host`, one flag per top-strand position and methylation type. */
+export const methylationMap = (seq: string, host: HostMethylation, circular: boolean): MethylationMap => {
+  const len = seq.length;
+  const text = circular ? seq + seq.slice(0, 4) : seq;
+  const map: MethylationMap = {};
+  (Object.keys(MOTIFS) as Methylation[]).forEach(kind => {
+    if (!host[kind]) return;
+    const flags = new Uint8Array(len);
+    const { re, marks } = MOTIFS[kind];
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null) {
+      re.lastIndex = m.index + 1;
+      if (m.index >= len) break;
+      marks.forEach(k => { flags[(m!.index + k) % len] = 1; });
+    }
+    map[kind] = flags;
+  });
+  return map;
+};
+
+/** Methylation types in `map` that stop `site` from being cut; empty when it cuts. */
+export const blockingMethylation = (site: SiteMatch, map: MethylationMap): Methylation[] => {
+  const sensitive = methylationSensitivity(site.enzyme);
+  return sensitive.filter(kind => {
+    const flags = map[kind];
+    if (!flags) return false;
+    for (let i = 0; i < site.enzyme.seq.length; i++) {
+      if (flags[(site.recStart + i) % flags.length]) return true;
+    }
+    return false;
+  });
+};
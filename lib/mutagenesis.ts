@@ -0,0 +1,255 @@
+import { BufferConditions, calculatePrimerProps, cleanSequence } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { ECOLI_CODON_USAGE, codonsFor, translateCodon } from './geneticCode';
+import { pickAnnealing } from './cloningPrimers';
+
+export type MutationKind = 'substitution' | 'insertion' | 'deletion';
+
+export interface CodonOption {
+    codon: string;
+    changes: number; // bases that differ from the wild-type codon
+    usage: number; // E. coli per-thousand frequency
+}
+
+export interface CodonChange {
+    residue: number; // 1-based amino acid number in the chosen frame
+    from: string;
+    to: string;
+    wildCodon: string;
+    newCodon: string;
+    options: CodonOption[]; // every codon for the new residue, best first
+}
+
+export interface Mutation {
+    kind: MutationKind;
+    start: number; // 0-based on the template
+    refLength: number; // template bases replaced
+    alt: string; // bases put in their place
+    label: string;
+    codon?: CodonChange;
+}
+
+export interface MutagenicPrimer {
+    seq: string;
+    mutStart: number; // 0-based offset of the mutated bases in `seq`
+    mutLength: number;
+    fromThreePrime: number; // bases between the last mutated base and the 3' end
+    tm: number; // NN Tm of the full oligo against the mutant
+    annealTm: number; // NN Tm of the template-matching 3' segment
+}
+
+export interface QuikChangeDesign {
+    forward: MutagenicPrimer;
+    reverse: MutagenicPrimer;
+    agilentTm: number; // Agilent's QuikChange formula, target >= 78°C
+}
+
+export interface BackToBackDesign {
+    forward: MutagenicPrimer;
+    reverse: MutagenicPrimer;
+    ta: number;
+}
+
+export interface MutagenesisResult {
+    mutation: Mutation;
+    mutant: string;
+    quikChange: QuikChangeDesign;
+    backToBack: BackToBackDesign;
+    warnings: string[];
+}
+
+const QC_MIN_LENGTH = 25;
+const QC_MAX_LENGTH = 45;
+const QC_TARGET_TM = 78;
+const SDM_5P_FLANK = 10; // template bases kept 5' of a substitution in the forward primer
+const SDM_MAX_TAIL = 30; // longer insertions are split across both primers
+
+/** Agilent QuikChange Tm: 81.5 + 0.41(%GC) - 675/N - %mismatch, with N excluding inserted bases. */
+export const quikChangeTm = (primer: string, mismatches: number, inserted: number): number => {
+    const n = primer.length - inserted;
+    const gc = (primer.match(/[GC]/g) || []).length / primer.length * 100;
+    return 81.5 + 0.41 * gc - 675 / n - (mismatches / n) * 100;
+};
+
+const chooseCodon = (wildCodon: string, aa: string): CodonOption[] =>
+    codonsFor(aa)
+        .map(codon => ({
+            codon,
+            changes: codon.split('').filter((b, i) => b !== wildCodon[i]).length,
+            usage: ECOLI_CODON_USAGE[codon],
+        }))
+        .sort((a, b) => a.changes - b.changes || b.usage - a.usage);
+
+/**
+ * Parses a requested change against `template`. Accepts amino acid changes in
+ * the frame starting at `frameStart` (1-based), e.g. "K45A" or "W12*", and
+ * nucleotide changes with 1-based template positions: "123A>G", "123_125del",
+ * "123_124insGGC". Throws if the wild-type residue or base does not match.
+ */
+export const parseMutation = (spec: string, template: string, frameStart: number): Mutation => {
+    const s = spec.trim().toUpperCase().replace(/^C\./, '');
+
+    const aa = s.match(/^([A-Z*])(\d+)([A-Z*])$/);
+    if (aa) {
+        const residue = parseInt(aa[2], 10);
+        const start = frameStart - 1 + (residue - 1) * 3;
+        const wildCodon = template.slice(start, start + 3);
+        if (start < 0 || wildCodon.length < 3) throw new Error(`Residue ${residue} is outside the template`);
+        const wildAa = translateCodon(wildCodon);
+        if (wildAa !== aa[1]) throw new Error(`Residue ${residue} is ${wildAa} (${wildCodon}), not ${aa[1]}`);
+        const options = chooseCodon(wildCodon, aa[3]);
+        if (options.length === 0) throw new Error(`Unknown amino acid: ${aa[3]}`);
+        const newCodon = options[0].codon;
+        // Only the changed span of the codon is mutated
+        let first = 0;
+        let last = 2;
+        while (first < 3 && newCodon[first] === wildCodon[first]) first++;
+        while (last > first && newCodon[last] === wildCodon[last]) last--;
+        if (first === 3) throw new Error('Mutation does not change the sequence');
+        return {
+            kind: 'substitution',
+            start: start + first,
+            refLength: last - first + 1,
+            alt: newCodon.slice(first, last + 1),
+            label: `${aa[1]}${residue}${aa[3]}`,
+            codon: { residue, from: aa[1], to: aa[3], wildCodon, newCodon, options },
+        };
+    }
+
+    const sub = s.match(/^(\d+)([ACGT]+)>([ACGT]+)$/);
+    if (sub) {
+        const start = parseInt(sub[1], 10) - 1;
+        const ref = template.slice(start, start + sub[2].length);
+        if (ref !== sub[2]) throw new Error(`Template has ${ref || 'nothing'} at ${sub[1]}, not ${sub[2]}`);
+        return { kind: 'substitution', start, refLength: ref.length, alt: sub[3], label: spec.trim() };
+    }
+
+    const del = s.match(/^(\d+)(?:_(\d+))?DEL[ACGT]*$/);
+    if (del) {
+        const start = parseInt(del[1], 10) - 1;
+        const end = del[2] ? parseInt(del[2], 10) : start + 1;
+        if (end <= start || end > template.length) throw new Error('Deletion is outside the template');
+        return { kind: 'deletion', start, refLength: end - start, alt: '', label: spec.trim() };
+    }
+
+    const ins = s.match(/^(\d+)_(\d+)INS([ACGT]+)$/);
+    if (ins) {
+        const before = parseInt(ins[1], 10);
+        if (parseInt(ins[2], 10) !== before + 1) throw new Error('Insertion must be between adjacent bases, e.g. 123_124insGGC');
+        if (before < 1 || before >= template.length) throw new Error('Insertion is outside the template');
+        return { kind: 'insertion', start: before, refLength: 0, alt: ins[3], label: spec.trim() };
+    }
+
+    throw new Error('Unrecognized mutation. Use K45A, 123A>G, 123_125del or 123_124insGGC');
+};
+
+const mutagenicPrimer = (seq: string, mutStart: number, mutLength: number, annealSeq: string, cond: BufferConditions): MutagenicPrimer => ({
+    seq,
+    mutStart,
+    mutLength,
+    fromThreePrime: seq.length - (mutStart + mutLength),
+    tm: calculatePrimerProps(seq, cond).tmNN,
+    annealTm: calculatePrimerProps(annealSeq, cond).tmNN,
+});
+
+/**
+ * QuikChange: one complementary primer pair with the mutation in the middle,
+ * grown symmetrically until the Agilent Tm reaches 78°C (25-45 nt), then
+ * nudged to end in G or C where possible.
+ */
+const designQuikChange = (mutant: string, wild: string, m: Mutation, cond: BufferConditions, warnings: string[]): QuikChangeDesign => {
+    const altEnd = m.start + m.alt.length;
+    const mismatches = m.kind === 'substitution' && m.alt.length === m.refLength
+        ? m.alt.split('').filter((b, i) => b !== wild[i]).length
+        : 0;
+    const inserted = m.kind === 'insertion' ? m.alt.length : 0;
+    let left = Math.min(m.start, 10);
+    let right = Math.min(mutant.length - altEnd, 10);
+    const slice = () => mutant.slice(m.start - left, altEnd + right);
+    const tm = () => quikChangeTm(slice(), mismatches, inserted);
+
+    while ((tm() < QC_TARGET_TM || slice().length < QC_MIN_LENGTH) && slice().length < QC_MAX_LENGTH) {
+        const canLeft = left < m.start;
+        const canRight = altEnd + right < mutant.length;
+        if (!canLeft && !canRight) break;
+        if (canLeft && (left <= right || !canRight)) left++;
+        else right++;
+    }
+    for (let extra = 0; extra < 2 && !/[GC]$/.test(slice()) && slice().length < QC_MAX_LENGTH && altEnd + right < mutant.length; extra++) right++;
+
+    const seq = slice();
+    const agilentTm = tm();
+    if (agilentTm < QC_TARGET_TM) warnings.push(`QuikChange Tm ${agilentTm.toFixed(1)}°C is below ${QC_TARGET_TM}°C at ${seq.length} nt`);
+    if (m.alt.length + m.refLength > 15) warnings.push('Large changes are inefficient with QuikChange; prefer back-to-back primers');
+
+    const rc = reverseComplement(seq);
+    return {
+        forward: mutagenicPrimer(seq, left, m.alt.length, seq.slice(left + m.alt.length), cond),
+        reverse: mutagenicPrimer(rc, right, m.alt.length, rc.slice(right + m.alt.length), cond),
+        agilentTm,
+    };
+};
+
+/**
+ * Q5 site-directed mutagenesis: non-overlapping primers whose 5' ends meet
+ * at the mutation. Substitutions sit in the forward primer behind a short
+ * template flank; insertions ride on the 5' tails (split when long);
+ * deletions are simply the bases between the two primers.
+ */
+const designBackToBack = (mutant: string, m: Mutation, targetTm: number, cond: BufferConditions, warnings: string[]): BackToBackDesign => {
+    const altEnd = m.start + m.alt.length;
+    let fwdTail = '';
+    let revTail = '';
+    let flank5 = 0;
+    if (m.kind === 'substitution') {
+        flank5 = Math.min(SDM_5P_FLANK, m.start);
+    } else if (m.kind === 'insertion' && m.alt.length > SDM_MAX_TAIL) {
+        const half = Math.floor(m.alt.length / 2);
+        revTail = m.alt.slice(0, half);
+        fwdTail = m.alt.slice(half);
+    } else {
+        fwdTail = m.alt;
+    }
+
+    // Forward anneals downstream of the change; reverse anneals upstream of the forward's 5' end
+    const fwdAnneal = pickAnnealing(mutant.slice(altEnd), targetTm, cond);
+    const revStart = m.start - flank5;
+    const revAnneal = pickAnnealing(reverseComplement(mutant.slice(0, revStart)), targetTm, cond);
+    if (fwdAnneal.length < 16 || revAnneal.length < 16) warnings.push('Mutation is too close to the template end for full-length back-to-back primers');
+
+    const fwdSeq = m.kind === 'substitution'
+        ? mutant.slice(m.start - flank5, m.start) + m.alt + fwdAnneal
+        : fwdTail + fwdAnneal;
+    const fwdMutStart = m.kind === 'substitution' ? flank5 : 0;
+    const fwdMutLength = m.kind === 'substitution' ? m.alt.length : fwdTail.length;
+    const revSeq = reverseComplement(revTail) + revAnneal;
+
+    const forward = mutagenicPrimer(fwdSeq, fwdMutStart, fwdMutLength, fwdAnneal, cond);
+    const reverse = mutagenicPrimer(revSeq, 0, revTail.length, revAnneal, cond);
+    if (Math.abs(forward.annealTm - reverse.annealTm) > 5) warnings.push('Back-to-back annealing Tms differ by more than 5°C');
+
+    return { forward, reverse, ta: Math.floor(Math.min(forward.annealTm, reverse.annealTm) + 3) };
+};
+
+export const designMutagenesis = (
+    rawTemplate: string,
+    spec: string,
+    frameStart: number,
+    targetTm: number,
+    cond: BufferConditions
+): MutagenesisResult => {
+    const template = cleanSequence(rawTemplate);
+    const mutation = parseMutation(spec, template, frameStart);
+    const mutant = template.slice(0, mutation.start) + mutation.alt + template.slice(mutation.start + mutation.refLength);
+    const warnings: string[] = [];
+    if ((mutation.alt.length - mutation.refLength) % 3 !== 0) {
+        warnings.push('Change is not a multiple of 3 nt and will shift the reading frame');
+    }
+    return {
+        mutation,
+        mutant,
+        quikChange: designQuikChange(mutant, template.slice(mutation.start, mutation.start + mutation.refLength), mutation, cond, warnings),
+        backToBack: designBackToBack(mutant, mutation, targetTm, cond, warnings),
+        warnings,
+    };
+};
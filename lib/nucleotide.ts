@@ -0,0 +1,26 @@
+// Strand operations shared by the primer, cloning and sequence tools.
+// Bases keep their case; unknown characters complement to N, gaps stay gaps.
+
+const COMPLEMENTS: Record<string, string> = {
+    A: 'T', T: 'A', G: 'C', C: 'G', U: 'A', N: 'N',
+    R: 'Y', Y: 'R', S: 'S', W: 'W', K: 'M', M: 'K', B: 'V', V: 'B', D: 'H', H: 'D',
+    '-': '-', '.': '.',
+};
+
+export const getComplement = (base: string) => {
+    const upper = base.toUpperCase();
+    const comp = COMPLEMENTS[upper] ?? 'N';
+    return base === upper ? comp : comp.toLowerCase();
+};
+
+// RNA when it has U but no T; its complement pairs A with U
+export const isRna = (seq: string): boolean => /[Uu]/.test(seq) && !/[Tt]/.test(seq);
+
+export const reverse = (seq: string): string => seq.split('').reverse().join('');
+
+export const complement = (seq: string): string => {
+    const comp = seq.split('').map(getComplement).join('');
+    return isRna(seq) ? comp.replace(/T/g, 'U').replace(/t/g, 'u') : comp;
+};
+
+export const reverseComplement = (seq: string): string => reverse(complement(seq));
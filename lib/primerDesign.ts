@@ -0,0 +1,501 @@
+import {
+    BufferConditions, PrimerResult, SecondaryStructure, StructureHit,
+    NN_PARAMS, nnInit, tmFromThermo, basicTm, molecularWeight, cleanSequence,
+    analyzeStructure, structurePenalty, findDimer, findHairpin, crossDimerPenalty, calculatePrimerProps, IUPAC_CODES,
+} from './primerThermo';
+import { reverseComplement } from './nucleotide';
+import { checkSpecificity, secondarySites, DEFAULT_SPECIFICITY } from './primerSpecificity';
+
+export interface CandidatePrimer extends PrimerResult {
+    start: number;
+    end: number;
+    strand: 'sense' | 'antisense';
+    structure?: SecondaryStructure;
+    ruleViolations?: string[];
+    rulePenalty?: number;
+    forced?: boolean;
+}
+
+export interface PrimerPair {
+    id: string;
+    forward: CandidatePrimer;
+    reverse: CandidatePrimer;
+    productSize: number;
+    tmDiff: number;
+    score: number;
+    crossDimer: StructureHit | null;
+    offTarget: { secondarySites: number; extraProducts: number[] } | null;
+    probe?: CandidatePrimer; // qPCR mode only
+    ampliconGc?: number;
+    warnings?: string[];
+}
+
+// 0-based start on the template, Primer3-style `start,length`
+export interface Region {
+    start: number;
+    length: number;
+}
+
+export interface PrimerRules {
+    gcClamp: number; // required consecutive G/C at the 3' end
+    maxPolyX: number; // longest allowed mononucleotide run
+    maxEndGc: number; // max G/C among the last five 3' bases
+}
+
+// Hydrolysis (TaqMan) probe assay constraints
+export interface QpcrConfig {
+    probeMinLen: number;
+    probeMaxLen: number;
+    probeTmOffsetMin: number; // °C above the primers' mean Tm
+    probeTmOffsetMax: number;
+    maxTmDiff: number; // between forward and reverse
+}
+
+export interface DesignConfig {
+    minProd: number; maxProd: number;
+    minLen: number; maxLen: number;
+    minTm: number; maxTm: number;
+    optTm: number;
+    targets: Region[]; // must lie inside the product, between the primers
+    excluded: Region[]; // no primer may overlap these
+    forcedForward: string;
+    forcedReverse: string;
+    rules: PrimerRules;
+    qpcr: QpcrConfig | null; // design primer + probe triplets when set
+}
+
+export const DEFAULT_RULES: PrimerRules = { gcClamp: 1, maxPolyX: 4, maxEndGc: 3 };
+
+export const DEFAULT_QPCR: QpcrConfig = { probeMinLen: 18, probeMaxLen: 30, probeTmOffsetMin: 6, probeTmOffsetMax: 10, maxTmDiff: 1 };
+
+/**
+ * Parses Primer3-style region lists ("120,50 400,20", 1-based starts)
+ * into 0-based regions. Malformed entries are ignored.
+ */
+export const parseRegions = (text: string): Region[] =>
+    text.split(/[\s;]+/).map(token => {
+        const [start, length] = token.split(',').map(v => parseInt(v, 10));
+        return { start: start - 1, length };
+    }).filter(r => Number.isFinite(r.start) && Number.isFinite(r.length) && r.start >= 0 && r.length > 0);
+
+export const formatRegions = (regions: Region[]): string =>
+    regions.map(r => `${r.start + 1},${r.length}`).join(' ');
+
+export type DesignStage = 'index' | 'scan' | 'structure' | 'pair' | 'probe' | 'specificity';
+
+export type ProgressCallback = (stage: DesignStage, fraction: number) => void;
+
+// Messages exchanged with primerDesign.worker.ts
+export interface DesignRequest {
+    template: string;
+    config: DesignConfig;
+    cond: BufferConditions;
+}
+
+export type DesignWorkerMessage =
+    | { type: 'progress'; stage: DesignStage; fraction: number }
+    | { type: 'result'; pairs: PrimerPair[] }
+    | { type: 'error'; message: string };
+
+// Cheap-score prescreen, then structure-scored pool per strand used for pairing
+const PRESCREEN_SIZE = 6000;
+const POOL_SIZE = 2000;
+const SHORTLIST_SIZE = 100;
+const MAX_TM_DIFF = 5;
+const EXTRA_PRODUCT_PENALTY = 10;
+const SECONDARY_SITE_PENALTY = 1;
+
+// qPCR: more pairs go to probe search since many short amplicons have no valid probe
+const QPCR_SHORTLIST_FACTOR = 3;
+const QPCR_TM_DIFF_WEIGHT = 4;
+const PROBE_STRUCTURE_CHECKS = 5;
+const AMPLICON_HAIRPIN_WARN_DG = -5;
+
+/**
+ * Prefix sums over the template so the nearest-neighbor stack sum and base
+ * composition of any window are O(1) lookups instead of an O(length) rescan.
+ */
+interface TemplateIndex {
+    seq: string;
+    stackDH: Float64Array;
+    stackDS: Float64Array;
+    a: Int32Array;
+    c: Int32Array;
+    g: Int32Array;
+    t: Int32Array;
+    invalid: Int32Array;
+}
+
+const buildIndex = (seq: string): TemplateIndex => {
+    const n = seq.length;
+    const index: TemplateIndex = {
+        seq,
+        stackDH: new Float64Array(n + 1),
+        stackDS: new Float64Array(n + 1),
+        a: new Int32Array(n + 1),
+        c: new Int32Array(n + 1),
+        g: new Int32Array(n + 1),
+        t: new Int32Array(n + 1),
+        invalid: new Int32Array(n + 1),
+    };
+    for (let i = 0; i < n; i++) {
+        const b = seq[i];
+        index.a[i + 1] = index.a[i] + (b === 'A' ? 1 : 0);
+        index.c[i + 1] = index.c[i] + (b === 'C' ? 1 : 0);
+        index.g[i + 1] = index.g[i] + (b === 'G' ? 1 : 0);
+        index.t[i + 1] = index.t[i] + (b === 'T' ? 1 : 0);
+        index.invalid[i + 1] = index.invalid[i] + (/[ATGC]/.test(b) ? 0 : 1);
+        const stack = i < n - 1 ? NN_PARAMS[seq.slice(i, i + 2)] : undefined;
+        index.stackDH[i + 1] = index.stackDH[i] + (stack ? stack.dH : 0);
+        index.stackDS[i + 1] = index.stackDS[i] + (stack ? stack.dS : 0);
+    }
+    return index;
+};
+
+const count = (arr: Int32Array, start: number, length: number) => arr[start + length] - arr[start];
+
+const RULE_WEIGHT = 2;
+
+const longestRun = (seq: string): number => {
+    let best = 0;
+    let run = 0;
+    for (let i = 0; i < seq.length; i++) {
+        run = i > 0 && seq[i] === seq[i - 1] ? run + 1 : 1;
+        if (run > best) best = run;
+    }
+    return best;
+};
+
+/** Checks a primer (5'->3') against the 3'-end and repeat rules. Each unit of violation costs RULE_WEIGHT. */
+export const checkPrimerRules = (seq: string, rules: PrimerRules): { violations: string[]; penalty: number } => {
+    const violations: string[] = [];
+    let units = 0;
+
+    let clamp = 0;
+    while (clamp < seq.length && /[GC]/.test(seq[seq.length - 1 - clamp])) clamp++;
+    if (clamp < rules.gcClamp) {
+        violations.push(`GC clamp ${clamp}/${rules.gcClamp}`);
+        units += rules.gcClamp - clamp;
+    }
+
+    const endGc = (seq.slice(-5).match(/[GC]/g) || []).length;
+    if (endGc > rules.maxEndGc) {
+        violations.push(`${endGc} G/C in last 5 bases`);
+        units += endGc - rules.maxEndGc;
+    }
+
+    const run = longestRun(seq);
+    if (run > rules.maxPolyX) {
+        violations.push(`Poly-X run of ${run}`);
+        units += run - rules.maxPolyX;
+    }
+
+    return { violations, penalty: units * RULE_WEIGHT };
+};
+
+// Marks every position covered by any region
+const regionMask = (len: number, regions: Region[]): Int32Array => {
+    const mask = new Int32Array(len + 1);
+    const covered = new Uint8Array(len);
+    for (const r of regions) {
+        for (let i = Math.max(0, r.start); i < Math.min(len, r.start + r.length); i++) covered[i] = 1;
+    }
+    for (let i = 0; i < len; i++) mask[i + 1] = mask[i] + covered[i];
+    return mask;
+};
+
+// Tm of template window [start, start+length). Both strands share one duplex, so this holds for either primer.
+const windowTm = (index: TemplateIndex, start: number, length: number, cond: BufferConditions): number => {
+    const first = nnInit(index.seq[start]);
+    const last = nnInit(index.seq[start + length - 1]);
+    const dH = index.stackDH[start + length - 1] - index.stackDH[start] + first.dH + last.dH;
+    const dS = index.stackDS[start + length - 1] - index.stackDS[start] + first.dS + last.dS;
+    const gcCount = count(index.g, start, length) + count(index.c, start, length);
+    return tmFromThermo(dH, dS, gcCount, length, cond);
+};
+
+interface Hit {
+    start: number;
+    length: number;
+    strand: 'sense' | 'antisense';
+    tm: number;
+    score: number;
+}
+
+const makeCandidate = (index: TemplateIndex, hit: Hit): CandidatePrimer => {
+    const { start, length, strand, tm } = hit;
+    const segment = index.seq.substr(start, length);
+    const primer = strand === 'sense' ? segment : reverseComplement(segment);
+    let a = count(index.a, start, length);
+    let c = count(index.c, start, length);
+    let g = count(index.g, start, length);
+    let t = count(index.t, start, length);
+    if (strand === 'antisense') [a, t, g, c] = [t, a, c, g];
+    return {
+        seq: primer,
+        cleanSeq: primer,
+        length,
+        gc: ((g + c) / length) * 100,
+        tmBasic: basicTm(g + c, a + t),
+        tmNN: tm,
+        molecularWeight: molecularWeight(a, c, g, t),
+        isValid: true,
+        start,
+        end: start + length - 1,
+        strand,
+    };
+};
+
+const threePrimeBase = (index: TemplateIndex, hit: Hit) =>
+    hit.strand === 'sense' ? index.seq[hit.start + hit.length - 1] : index.seq[hit.start];
+
+const singleScore = (index: TemplateIndex, hit: Hit, gcCount: number, config: DesignConfig): number => {
+    // Cheap 3' G/C check stands in for the full rule set until the prescreen is done
+    const b = threePrimeBase(index, hit);
+    const clamp = config.rules.gcClamp > 0 && b !== 'G' && b !== 'C' ? RULE_WEIGHT : 0;
+    return Math.abs(hit.tm - config.optTm) + Math.abs((gcCount / hit.length) * 100 - 50) * 0.1 + clamp;
+};
+
+const scoreCandidate = (cand: CandidatePrimer, rules: PrimerRules) => {
+    cand.structure = analyzeStructure(cand.cleanSeq);
+    const { violations, penalty } = checkPrimerRules(cand.cleanSeq, rules);
+    cand.ruleViolations = violations;
+    cand.rulePenalty = penalty;
+};
+
+const selectPool = (hits: Hit[], index: TemplateIndex, config: DesignConfig, onStructure: () => void): CandidatePrimer[] => {
+    hits.sort((x, y) => x.score - y.score);
+    const pool = hits.slice(0, PRESCREEN_SIZE).map(hit => {
+        const cand = makeCandidate(index, hit);
+        scoreCandidate(cand, config.rules);
+        onStructure();
+        const tmGc = Math.abs(hit.tm - config.optTm) + Math.abs(cand.gc - 50) * 0.1;
+        return { cand, score: tmGc + cand.rulePenalty! + structurePenalty(cand.structure!) };
+    });
+    pool.sort((x, y) => x.score - y.score);
+    return pool.slice(0, POOL_SIZE).map(p => p.cand);
+};
+
+// Locates a user-supplied primer on the template (sense for forward, antisense for reverse)
+const forcedCandidate = (seq: string, primer: string, strand: 'sense' | 'antisense', config: DesignConfig, cond: BufferConditions): CandidatePrimer => {
+    const label = strand === 'sense' ? 'Forward' : 'Reverse';
+    const props = calculatePrimerProps(primer, cond);
+    if (!props.isValid) throw new Error(`${label} primer: ${props.error ?? 'invalid sequence'}`);
+    const site = strand === 'sense' ? props.cleanSeq : reverseComplement(props.cleanSeq);
+    const start = props.degenerate
+        ? seq.search(new RegExp(site.split('').map(b => `[${IUPAC_CODES[b] ?? 'ACGT'}]`).join('')))
+        : seq.indexOf(site);
+    if (start < 0) throw new Error(`${label} primer not found in template`);
+    const cand: CandidatePrimer = { ...props, start, end: start + props.length - 1, strand, forced: true };
+    scoreCandidate(cand, config.rules);
+    return cand;
+};
+
+/**
+ * Best hydrolysis probe between the primers of `pair`, on either strand.
+ * Probes must sit in the Tm window above the primers, may not start with G
+ * (it quenches the 5' reporter) and should carry more C than G.
+ */
+const findProbe = (index: TemplateIndex, pair: PrimerPair, qpcr: QpcrConfig, cond: BufferConditions): { probe: CandidatePrimer; score: number } | null => {
+    const meanTm = (pair.forward.tmNN + pair.reverse.tmNN) / 2;
+    const minTm = meanTm + qpcr.probeTmOffsetMin;
+    const maxTm = meanTm + qpcr.probeTmOffsetMax;
+    const optTm = (minTm + maxTm) / 2;
+    const hits: Hit[] = [];
+    for (let i = pair.forward.end + 1; i < pair.reverse.start; i++) {
+        for (let l = qpcr.probeMinLen; l <= qpcr.probeMaxLen && i + l <= pair.reverse.start; l++) {
+            if (count(index.invalid, i, l) > 0) continue;
+            const tm = windowTm(index, i, l, cond);
+            if (tm < minTm || tm > maxTm) continue;
+            const g = count(index.g, i, l);
+            const c = count(index.c, i, l);
+            const gcDev = Math.abs(((g + c) / l) * 100 - 50) * 0.1;
+            // Sense probe 5' = first template base; antisense probe 5' = complement of the last
+            if (index.seq[i] !== 'G') {
+                hits.push({ start: i, length: l, strand: 'sense', tm, score: Math.abs(tm - optTm) + gcDev + (g > c ? 1 : 0) });
+            }
+            if (index.seq[i + l - 1] !== 'C') {
+                hits.push({ start: i, length: l, strand: 'antisense', tm, score: Math.abs(tm - optTm) + gcDev + (c > g ? 1 : 0) });
+            }
+        }
+    }
+    if (hits.length === 0) return null;
+
+    hits.sort((x, y) => x.score - y.score);
+    let best: { probe: CandidatePrimer; score: number } | null = null;
+    for (const hit of hits.slice(0, PROBE_STRUCTURE_CHECKS)) {
+        const probe = makeCandidate(index, hit);
+        scoreCandidate(probe, { gcClamp: 0, maxPolyX: 3, maxEndGc: 5 });
+        const score = hit.score + probe.rulePenalty! + structurePenalty(probe.structure!);
+        if (!best || score < best.score) best = { probe, score };
+    }
+    return best;
+};
+
+/**
+ * Ranks primer pairs across the template. Candidate windows are scored from a
+ * prefix-sum index, the best of each strand are checked for secondary
+ * structure, and pairs are found by binary-searching reverse primers whose
+ * 3' end falls inside the product-size window of each forward primer.
+ * In qPCR mode the shortlisted pairs also need a probe, and the score adds
+ * probe fit, amplicon length, amplicon GC and amplicon structure.
+ */
+export const designPrimers = (
+    template: string,
+    config: DesignConfig,
+    cond: BufferConditions,
+    onProgress: ProgressCallback = () => {}
+): PrimerPair[] => {
+    const seq = cleanSequence(template);
+    const len = seq.length;
+    if (len < config.minProd) return [];
+
+    onProgress('index', 0);
+    const index = buildIndex(seq);
+    onProgress('index', 1);
+
+    const forcedFwd = config.forcedForward.trim() ? forcedCandidate(seq, config.forcedForward, 'sense', config, cond) : null;
+    const forcedRev = config.forcedReverse.trim() ? forcedCandidate(seq, config.forcedReverse, 'antisense', config, cond) : null;
+
+    // Primers must sit outside every target: forward entirely 5' of the first, reverse 3' of the last
+    const targetStart = config.targets.length ? Math.min(...config.targets.map(t => t.start)) : Infinity;
+    const targetEnd = config.targets.length ? Math.max(...config.targets.map(t => t.start + t.length - 1)) : -1;
+    const excluded = regionMask(len, config.excluded);
+
+    // 1. Scan every window once; strand eligibility depends only on position
+    const fwdHits: Hit[] = [];
+    const revHits: Hit[] = [];
+    for (let i = 0; i < len; i++) {
+        for (let l = config.minLen; l <= config.maxLen && i + l <= len; l++) {
+            if (count(index.invalid, i, l) > 0) continue;
+            if (count(excluded, i, l) > 0) continue;
+            const tm = windowTm(index, i, l, cond);
+            if (tm < config.minTm || tm > config.maxTm) continue;
+            const gcCount = count(index.g, i, l) + count(index.c, i, l);
+            if (!forcedFwd && i + config.minProd <= len && i + l - 1 < targetStart) {
+                const hit: Hit = { start: i, length: l, strand: 'sense', tm, score: 0 };
+                hit.score = singleScore(index, hit, gcCount, config);
+                fwdHits.push(hit);
+            }
+            if (!forcedRev && i + l >= config.minProd && i > targetEnd) {
+                const hit: Hit = { start: i, length: l, strand: 'antisense', tm, score: 0 };
+                hit.score = singleScore(index, hit, gcCount, config);
+                revHits.push(hit);
+            }
+        }
+        if (i % 1000 === 0) onProgress('scan', i / len);
+    }
+    onProgress('scan', 1);
+
+    // 2. Secondary structure on the prescreened candidates
+    const structureTotal = Math.min(fwdHits.length, PRESCREEN_SIZE) + Math.min(revHits.length, PRESCREEN_SIZE);
+    let structureDone = 0;
+    const tick = () => {
+        structureDone++;
+        if (structureDone % 200 === 0) onProgress('structure', structureDone / structureTotal);
+    };
+    const forwards = forcedFwd ? [forcedFwd] : selectPool(fwdHits, index, config, tick);
+    const reverses = forcedRev ? [forcedRev] : selectPool(revHits, index, config, tick);
+    reverses.sort((x, y) => x.end - y.end);
+    onProgress('structure', 1);
+
+    // 3. Pair within the product-size window
+    const qpcr = config.qpcr;
+    const maxTmDiff = qpcr ? qpcr.maxTmDiff : MAX_TM_DIFF;
+    const shortlistSize = qpcr ? SHORTLIST_SIZE * QPCR_SHORTLIST_FACTOR : SHORTLIST_SIZE;
+    let pairs: PrimerPair[] = [];
+    let cutoff = Infinity; // score of the worst pair still on the shortlist
+    forwards.forEach((f, fi) => {
+        const lo = f.start + config.minProd - 1;
+        const hi = f.start + config.maxProd - 1;
+        let left = 0;
+        let right = reverses.length;
+        while (left < right) {
+            const mid = (left + right) >> 1;
+            if (reverses[mid].end < lo) left = mid + 1; else right = mid;
+        }
+        for (let k = left; k < reverses.length && reverses[k].end <= hi; k++) {
+            const r = reverses[k];
+            if (r.start <= f.end) continue;
+            if (f.end >= targetStart || r.start <= targetEnd) continue;
+            const tmDiff = Math.abs(f.tmNN - r.tmNN);
+            if (tmDiff > maxTmDiff && !(f.forced && r.forced)) continue;
+
+            const tmPenalty = Math.abs(f.tmNN - config.optTm) + Math.abs(r.tmNN - config.optTm);
+            const diffPenalty = tmDiff * (qpcr ? QPCR_TM_DIFF_WEIGHT : 2);
+            const gcPenalty = (Math.abs(f.gc - 50) + Math.abs(r.gc - 50)) * 0.1;
+            const rulePenalty = f.rulePenalty! + r.rulePenalty!;
+            const structPenalty = structurePenalty(f.structure!) + structurePenalty(r.structure!);
+
+            const score = tmPenalty + diffPenalty + gcPenalty + rulePenalty + structPenalty;
+            if (score >= cutoff) continue;
+
+            pairs.push({
+                id: `${f.start}:${f.end}-${r.start}:${r.end}`,
+                forward: f,
+                reverse: r,
+                productSize: r.end - f.start + 1,
+                tmDiff,
+                score,
+                crossDimer: null,
+                offTarget: null
+            });
+        }
+        // Keep memory bounded on long templates
+        if (pairs.length > shortlistSize * 20) {
+            pairs = pairs.sort((a, b) => a.score - b.score).slice(0, shortlistSize);
+            cutoff = pairs[pairs.length - 1].score;
+        }
+        if (fi % 50 === 0) onProgress('pair', fi / forwards.length);
+    });
+    onProgress('pair', 1);
+
+    let shortlist = pairs.sort((a, b) => a.score - b.score).slice(0, shortlistSize);
+
+    // 4. qPCR: a probe between the primers, plus amplicon checks
+    if (qpcr) {
+        shortlist = shortlist.filter((pair, pi) => {
+            if (pi % 20 === 0) onProgress('probe', pi / shortlist.length);
+            const found = findProbe(index, pair, qpcr, cond);
+            if (!found) return false;
+            const amplicon = seq.slice(pair.forward.start, pair.reverse.end + 1);
+            const ampliconGc = ((amplicon.match(/[GC]/g) || []).length / amplicon.length) * 100;
+            const hairpin = findHairpin(amplicon);
+            const warnings: string[] = [];
+            if (ampliconGc < 35 || ampliconGc > 65) warnings.push(`Amplicon GC ${ampliconGc.toFixed(0)}%`);
+            if (hairpin && hairpin.dG <= AMPLICON_HAIRPIN_WARN_DG) warnings.push(`Amplicon hairpin ΔG ${hairpin.dG.toFixed(1)} kcal/mol`);
+            if (found.probe.structure && structurePenalty(found.probe.structure) > 0) warnings.push('Probe secondary structure');
+
+            pair.probe = found.probe;
+            pair.ampliconGc = ampliconGc;
+            pair.warnings = warnings;
+            pair.score += found.score
+                + (pair.productSize - config.minProd) * 0.02
+                + Math.max(0, Math.abs(ampliconGc - 50) - 10) * 0.2
+                + (hairpin ? Math.max(0, AMPLICON_HAIRPIN_WARN_DG - hairpin.dG) : 0);
+            return true;
+        }).sort((a, b) => a.score - b.score).slice(0, SHORTLIST_SIZE);
+        onProgress('probe', 1);
+    }
+
+    // Cross-dimers and mispriming are pair-specific, so only score them for the front of the ranking
+    const specOptions = { ...DEFAULT_SPECIFICITY, maxProduct: Math.max(DEFAULT_SPECIFICITY.maxProduct, config.maxProd * 2) };
+    shortlist.forEach((pair, pi) => {
+        pair.crossDimer = findDimer(pair.forward.cleanSeq, pair.reverse.cleanSeq);
+        pair.score += crossDimerPenalty(pair.crossDimer);
+        if (pair.probe) {
+            pair.score += crossDimerPenalty(findDimer(pair.probe.cleanSeq, pair.forward.cleanSeq))
+                + crossDimerPenalty(findDimer(pair.probe.cleanSeq, pair.reverse.cleanSeq));
+        }
+
+        const report = checkSpecificity(pair.forward.cleanSeq, pair.reverse.cleanSeq, [{ name: 'template', seq }], specOptions);
+        const extraProducts = report.products.filter(p => !p.intended).map(p => p.size);
+        const offSites = secondarySites(report).length;
+        pair.offTarget = { secondarySites: offSites, extraProducts };
+        pair.score += extraProducts.length * EXTRA_PRODUCT_PENALTY + offSites * SECONDARY_SITE_PENALTY;
+        if (pi % 10 === 0) onProgress('specificity', pi / shortlist.length);
+    });
+    onProgress('specificity', 1);
+
+    return shortlist.sort((a, b) => a.score - b.score).slice(0, 20);
+};
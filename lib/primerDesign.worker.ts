@@ -0,0 +1,24 @@
+/// <reference lib="webworker" />
+import { designPrimers, DesignRequest, DesignWorkerMessage } from './primerDesign';
+
+// Runs the primer design engine off the main thread. Cancellation is done by
+// the page terminating the worker, since the scan never yields to the event loop.
+declare const self: DedicatedWorkerGlobalScope;
+
+const PROGRESS_INTERVAL_MS = 50;
+
+self.onmessage = (e: MessageEvent<DesignRequest>) => {
+    const post = (msg: DesignWorkerMessage) => self.postMessage(msg);
+    let lastPost = 0;
+    try {
+        const pairs = designPrimers(e.data.template, e.data.config, e.data.cond, (stage, fraction) => {
+            const now = performance.now();
+            if (fraction < 1 && now - lastPost < PROGRESS_INTERVAL_MS) return;
+            lastPost = now;
+            post({ type: 'progress', stage, fraction });
+        });
+        post({ type: 'result', pairs });
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
@@ -0,0 +1,195 @@
+import { cleanSequence, iupacMatches } from './primerThermo';
+import { reverseComplement } from './nucleotide';
+
+export type PrimerLabel = 'F' | 'R';
+
+export interface SequenceRecord {
+    name: string;
+    seq: string;
+}
+
+export interface BindingSite {
+    primer: PrimerLabel;
+    record: string;
+    strand: 'sense' | 'antisense'; // sense sites extend rightwards, antisense leftwards
+    start: number; // 0-based, inclusive, on the record's top strand
+    end: number;
+    mismatches: number;
+    threePrimeMismatches: number; // within the last THREE_PRIME_WINDOW bases
+    score: number; // weighted mismatch score, 0 = perfect match
+    alignment: string[]; // primer over the site, mismatches marked
+}
+
+export interface OffTargetProduct {
+    record: string;
+    forward: BindingSite; // the sense-oriented site
+    reverse: BindingSite; // the antisense-oriented site
+    size: number;
+    intended: boolean;
+}
+
+export interface SpecificityOptions {
+    maxScore: number; // sites above this weighted mismatch score are ignored
+    maxProduct: number; // largest amplicon considered a plausible extra product
+}
+
+export interface SpecificityReport {
+    sites: BindingSite[];
+    products: OffTargetProduct[];
+    truncated: boolean;
+}
+
+export interface BindingScan {
+    sites: BindingSite[];
+    truncated: boolean; // more sites than MAX_SITES_PER_PRIMER; the rest were not collected
+}
+
+export const DEFAULT_SPECIFICITY: SpecificityOptions = { maxScore: 4, maxProduct: 3000 };
+
+const THREE_PRIME_WINDOW = 5;
+const MAX_SITES_PER_PRIMER = 200;
+
+// One-entry cache: the same record is usually scanned for several primers in a row
+let rcCache: { seq: string; rc: string } | null = null;
+const cachedReverseComplement = (seq: string): string => {
+    if (rcCache?.seq !== seq) rcCache = { seq, rc: reverseComplement(seq) };
+    return rcCache.rc;
+};
+
+// Mismatch cost by distance from the 3' terminus: the last bases decide whether the polymerase extends
+const mismatchWeight = (fromThreePrime: number): number =>
+    fromThreePrime < 3 ? 4 : fromThreePrime < 8 ? 2 : 1;
+
+/** Splits FASTA text into records; text without a header becomes a single record. */
+export const parseFastaRecords = (text: string, fallbackName = 'Sequence_1'): SequenceRecord[] => {
+    if (!text.trimStart().startsWith('>')) {
+        const seq = cleanSequence(text);
+        return seq ? [{ name: fallbackName, seq }] : [];
+    }
+    return text.split('>').slice(1).map(chunk => {
+        const nl = chunk.indexOf('\n');
+        const name = (nl < 0 ? chunk : chunk.slice(0, nl)).trim();
+        return { name, seq: nl < 0 ? '' : cleanSequence(chunk.slice(nl + 1)) };
+    }).filter(r => r.seq.length > 0);
+};
+
+/**
+ * Scans both strands of `target` for sites where `primer` could anneal.
+ * Degenerate primer positions match any base they encode.
+ * Comparison runs from the 3' end with an early exit, so most positions
+ * are rejected after two or three bases.
+ */
+export const findBindingSites = (
+    primer: string,
+    label: PrimerLabel,
+    record: SequenceRecord,
+    maxScore: number
+): BindingScan => {
+    const p = cleanSequence(primer);
+    const L = p.length;
+    const sites: BindingSite[] = [];
+    let truncated = false;
+    if (L === 0 || record.seq.length < L) return { sites, truncated };
+
+    const scan = (strand: 'sense' | 'antisense') => {
+        // Antisense sites are found as sense matches on the reverse complement
+        const text = strand === 'sense' ? record.seq : cachedReverseComplement(record.seq);
+        for (let i = 0; i + L <= text.length; i++) {
+            let score = 0;
+            let mismatches = 0;
+            let threePrime = 0;
+            for (let k = 0; k < L; k++) {
+                const pos = L - 1 - k;
+                if (!iupacMatches(p[pos], text[i + pos])) {
+                    score += mismatchWeight(k);
+                    mismatches++;
+                    if (k < THREE_PRIME_WINDOW) threePrime++;
+                    if (score > maxScore) break;
+                }
+            }
+            if (score > maxScore) continue;
+            // Only a site beyond the cap makes the list incomplete
+            if (sites.length >= MAX_SITES_PER_PRIMER) {
+                truncated = true;
+                return;
+            }
+
+            const site = text.substr(i, L);
+            const start = strand === 'sense' ? i : record.seq.length - i - L;
+            sites.push({
+                primer: label,
+                record: record.name,
+                strand,
+                start,
+                end: start + L - 1,
+                mismatches,
+                threePrimeMismatches: threePrime,
+                score,
+                alignment: [
+                    `5' ${p} 3'`,
+                    `   ${p.split('').map((b, k) => (iupacMatches(b, site[k]) ? '|' : ' ')).join('')}`,
+                    `5' ${site} 3'`,
+                ],
+            });
+        }
+    };
+    scan('sense');
+    if (!truncated) scan('antisense');
+    return { sites: sites.sort((a, b) => a.start - b.start), truncated };
+};
+
+/**
+ * Finds every binding site for the primers on each record and every pair of
+ * convergent sites (sense upstream of antisense) within `maxProduct`. Any
+ * primer can pair with any other, including itself. The intended product is
+ * the one between each primer's first perfect match on the first record.
+ */
+export const checkSpecificity = (
+    forward: string,
+    reverse: string,
+    records: SequenceRecord[],
+    options: SpecificityOptions
+): SpecificityReport => {
+    const sites: BindingSite[] = [];
+    const products: OffTargetProduct[] = [];
+    let truncated = false;
+
+    records.forEach((record, recordIndex) => {
+        const scans = [
+            ...(forward ? [findBindingSites(forward, 'F', record, options.maxScore)] : []),
+            ...(reverse ? [findBindingSites(reverse, 'R', record, options.maxScore)] : []),
+        ];
+        if (scans.some(scan => scan.truncated)) truncated = true;
+        const recordSites = scans.flatMap(scan => scan.sites);
+        sites.push(...recordSites);
+        const primaryF = recordIndex === 0 ? recordSites.find(s => s.primer === 'F' && s.score === 0) : undefined;
+        const primaryR = recordIndex === 0 ? recordSites.find(s => s.primer === 'R' && s.score === 0) : undefined;
+
+        const senses = recordSites.filter(s => s.strand === 'sense');
+        const antis = recordSites.filter(s => s.strand === 'antisense');
+        for (const f of senses) {
+            for (const r of antis) {
+                if (r.end <= f.end || r.start < f.start) continue;
+                const size = r.end - f.start + 1;
+                if (size > options.maxProduct) continue;
+                const intended = f === primaryF && r === primaryR;
+                products.push({ record: record.name, forward: f, reverse: r, size, intended });
+            }
+        }
+    });
+
+    products.sort((a, b) => Number(b.intended) - Number(a.intended) || a.size - b.size);
+    return { sites, products, truncated };
+};
+
+// Everything except each primer's first perfect match (its intended site), i.e. the sites that can cause mispriming
+export const secondarySites = (report: SpecificityReport): BindingSite[] => {
+    const perfect = new Set<PrimerLabel>();
+    return report.sites.filter(s => {
+        if (s.score === 0 && !perfect.has(s.primer)) {
+            perfect.add(s.primer);
+            return false;
+        }
+        return true;
+    });
+};
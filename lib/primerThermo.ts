@@ -0,0 +1,426 @@
+import { getComplement } from './nucleotide';
+
+export type Polymerase = 'taq' | 'q5' | 'phusion';
+
+export interface PrimerResult {
+    seq: string;
+    cleanSeq: string;
+    length: number;
+    gc: number;
+    tmBasic: number;
+    tmNN: number;
+    molecularWeight: number;
+    isValid: boolean;
+    error?: string;
+    degenerate?: DegenerateSummary;
+}
+
+export interface PrimerVariant {
+    seq: string;
+    tm: number;
+    gc: number;
+    mw: number;
+}
+
+export interface DegenerateSummary {
+    degeneracy: number; // distinct molecules in the mix (inosine counts once)
+    inosines: number;
+    variantsEvaluated: number;
+    sampled: boolean; // true when the expansion was too large to enumerate
+    tmMin: number;
+    tmMax: number;
+    tmMean: number;
+    mwMin: number;
+    mwMax: number;
+    mwMean: number;
+    gcMin: number;
+    gcMax: number;
+    gcMean: number;
+    tmBasicMean: number;
+    variants: PrimerVariant[]; // first MAX_LISTED_VARIANTS, for the expansion table
+}
+
+export interface BufferConditions {
+    naMm: number;
+    kMm: number;
+    mgMm: number;
+    dntpMm: number; // total dNTP (4 × each)
+    primerNm: number;
+}
+
+export interface StructureHit {
+    dG: number; // kcal/mol at 37°C, most stable structure found
+    threePrime: boolean; // true when the 3' terminal base is paired (extendable)
+    alignment: string[]; // pre-formatted lines for monospace display
+}
+
+export interface SecondaryStructure {
+    hairpin: StructureHit | null;
+    selfDimer: StructureHit | null;
+}
+
+// SantaLucia 1998 Thermodynamic Parameters
+export const NN_PARAMS: Record<string, { dH: number; dS: number }> = {
+    'AA': { dH: -7.9, dS: -22.2 }, 'TT': { dH: -7.9, dS: -22.2 },
+    'AT': { dH: -7.2, dS: -20.4 }, 'TA': { dH: -7.2, dS: -21.3 },
+    'CA': { dH: -8.5, dS: -22.7 }, 'TG': { dH: -8.5, dS: -22.7 },
+    'GT': { dH: -8.4, dS: -22.4 }, 'AC': { dH: -8.4, dS: -22.4 },
+    'CT': { dH: -7.8, dS: -21.0 }, 'AG': { dH: -7.8, dS: -21.0 },
+    'GA': { dH: -8.2, dS: -22.2 }, 'TC': { dH: -8.2, dS: -22.2 },
+    'CG': { dH: -10.6, dS: -27.2 }, 'GC': { dH: -9.8, dS: -24.4 },
+    'GG': { dH: -8.0, dS: -19.9 }, 'CC': { dH: -8.0, dS: -19.9 },
+};
+const NN_INIT_GC = { dH: 0.1, dS: -2.8 };
+const NN_INIT_AT = { dH: 2.3, dS: 4.1 };
+const R_CAL = 1.987;
+
+// Reaction chemistry per polymerase (1× buffer, 200 µM each dNTP)
+export const POLYMERASE_BUFFERS: Record<Polymerase, BufferConditions> = {
+    taq: { naMm: 0, kMm: 50, mgMm: 1.5, dntpMm: 0.8, primerNm: 200 },
+    q5: { naMm: 0, kMm: 50, mgMm: 2.0, dntpMm: 0.8, primerNm: 500 },
+    phusion: { naMm: 0, kMm: 50, mgMm: 1.5, dntpMm: 0.8, primerNm: 500 },
+};
+
+// IUPAC nucleotide codes and the bases each one stands for
+export const IUPAC_CODES: Record<string, string> = {
+    A: 'A', C: 'C', G: 'G', T: 'T', U: 'T',
+    R: 'AG', Y: 'CT', S: 'CG', W: 'AT', K: 'GT', M: 'AC',
+    B: 'CGT', D: 'AGT', H: 'ACT', V: 'ACG', N: 'ACGT',
+};
+// Inosine pairs with every base; for Tm it is bracketed by expanding to all four
+const INOSINE = 'I';
+const MAX_EXPANSIONS = 4096;
+const MAX_LISTED_VARIANTS = 256;
+
+// Association constant of Mg2+ with dNTPs (M^-1), Owczarzy 2008
+const KA_MG_DNTP = 3e4;
+const T_37C = 310.15;
+
+// Hairpin loop initiation ΔG37 (kcal/mol) by loop length, SantaLucia & Hicks 2004
+const HAIRPIN_LOOP_DG: Record<number, number> = { 3: 3.5, 4: 3.5, 5: 3.3, 6: 4.0, 7: 4.2, 8: 4.3, 9: 4.5, 10: 4.6 };
+
+// Warning thresholds (kcal/mol). 3'-anchored structures are extendable and therefore stricter.
+const DIMER_WARN_DG = -6;
+const DIMER_3P_WARN_DG = -5;
+const HAIRPIN_WARN_DG = -3;
+const HAIRPIN_3P_WARN_DG = -2;
+
+// --- Core Algorithms ---
+export const cleanSequence = (seq: string): string => seq.replace(/[^a-zA-Z]/g, '').toUpperCase();
+
+// True when template base `base` is one of the bases the primer code `code` stands for
+export const iupacMatches = (code: string, base: string): boolean =>
+    code === INOSINE || (IUPAC_CODES[code] ?? '').includes(base);
+
+const isPair = (a: string, b: string) => 'ACGT'.includes(a) && getComplement(a) === b;
+
+// Terminal initiation term for a duplex ending in `base`
+export const nnInit = (base: string): { dH: number; dS: number } =>
+    base === 'G' || base === 'C' ? NN_INIT_GC : NN_INIT_AT;
+
+// Sum of nearest-neighbor stacks plus terminal initiation for a perfectly paired duplex
+export const nnSums = (seq: string): { dH: number; dS: number } => {
+    const first = nnInit(seq[0]);
+    const last = nnInit(seq[seq.length - 1]);
+    let dH = first.dH + last.dH;
+    let dS = first.dS + last.dS;
+
+    for (let i = 0; i < seq.length - 1; i++) {
+        const pair = seq.slice(i, i + 2);
+        if (NN_PARAMS[pair]) { dH += NN_PARAMS[pair].dH; dS += NN_PARAMS[pair].dS; }
+    }
+    return { dH, dS };
+};
+
+const duplexDeltaG = (seq: string): number => {
+    const { dH, dS } = nnSums(seq);
+    return dH - (T_37C * dS) / 1000;
+};
+
+// Stacking-only ΔG for a stem (no terminal initiation; the loop closes one end)
+const stemDeltaG = (seq: string): number => {
+    let dG = 0;
+    for (let i = 0; i < seq.length - 1; i++) {
+        const p = NN_PARAMS[seq.slice(i, i + 2)];
+        if (p) dG += p.dH - (T_37C * p.dS) / 1000;
+    }
+    return dG;
+};
+
+const hairpinLoopDeltaG = (loop: number): number =>
+    HAIRPIN_LOOP_DG[loop] ?? HAIRPIN_LOOP_DG[10] + 1.08 * Math.log(loop / 10);
+
+/**
+ * Finds the most stable antiparallel duplex between `a` and `b` (both 5'->3').
+ * Every register is scanned and each contiguous run of Watson-Crick pairs is scored
+ * with the nearest-neighbor model. Pass the same sequence twice for a self-dimer.
+ */
+export const findDimer = (a: string, b: string): StructureHit | null => {
+    if (a.length < 2 || b.length < 2) return null;
+    const bRev = b.split('').reverse().join(''); // 3'->5', aligned under a
+
+    let best: { dG: number; shift: number; start: number; len: number } | null = null;
+
+    for (let shift = -(bRev.length - 1); shift < a.length; shift++) {
+        let runStart = -1;
+        const from = Math.max(0, shift);
+        const to = Math.min(a.length, bRev.length + shift);
+        for (let i = from; i <= to; i++) {
+            const paired = i < to && isPair(a[i], bRev[i - shift]);
+            if (paired && runStart < 0) runStart = i;
+            if (!paired && runStart >= 0) {
+                const len = i - runStart;
+                if (len >= 2) {
+                    const dG = duplexDeltaG(a.slice(runStart, i));
+                    if (!best || dG < best.dG) best = { dG, shift, start: runStart, len };
+                }
+                runStart = -1;
+            }
+        }
+    }
+    if (!best) return null;
+
+    const { shift, start, len } = best;
+    const end = start + len - 1;
+    // a's 3' end is its last index; b's 3' end sits at bRev index 0
+    const threePrime = end === a.length - 1 || start - shift === 0;
+
+    const padA = shift < 0 ? -shift : 0;
+    const padB = shift > 0 ? shift : 0;
+    const bars = ' '.repeat(padA + start) + '|'.repeat(len);
+    return {
+        dG: best.dG,
+        threePrime,
+        alignment: [
+            `5' ${' '.repeat(padA)}${a} 3'`,
+            `   ${bars}`,
+            `3' ${' '.repeat(padB)}${bRev} 5'`,
+        ],
+    };
+};
+
+/**
+ * Finds the most stable single-stem hairpin (loop >= 3 nt) in `seq`.
+ * Each candidate innermost pair is extended outward while bases stay complementary.
+ */
+export const findHairpin = (seq: string): StructureHit | null => {
+    const n = seq.length;
+    let best: { dG: number; i: number; j: number; stem: number } | null = null;
+
+    for (let i = 1; i < n; i++) {
+        for (let j = i + 4; j < n; j++) {
+            if (!isPair(seq[i], seq[j])) continue;
+            let stem = 1;
+            while (i - stem >= 0 && j + stem < n && isPair(seq[i - stem], seq[j + stem])) stem++;
+            if (stem < 2) continue;
+            const dG = stemDeltaG(seq.slice(i - stem + 1, i + 1)) + hairpinLoopDeltaG(j - i - 1);
+            if (!best || dG < best.dG) best = { dG, i, j, stem };
+        }
+    }
+    if (!best || best.dG >= 0) return null;
+
+    const { i, j, stem } = best;
+    const dotBracket = seq.split('').map((_, k) => {
+        if (k > i - stem && k <= i) return '(';
+        if (k >= j && k < j + stem) return ')';
+        return '.';
+    }).join('');
+    return {
+        dG: best.dG,
+        threePrime: j + stem - 1 === n - 1,
+        alignment: [`5' ${seq} 3'`, `   ${dotBracket}`],
+    };
+};
+
+export const analyzeStructure = (cleanSeq: string): SecondaryStructure => ({
+    hairpin: findHairpin(cleanSeq),
+    selfDimer: findDimer(cleanSeq, cleanSeq),
+});
+
+export const isDimerRisk = (hit: StructureHit | null) =>
+    !!hit && hit.dG <= (hit.threePrime ? DIMER_3P_WARN_DG : DIMER_WARN_DG);
+
+export const isHairpinRisk = (hit: StructureHit | null) =>
+    !!hit && hit.dG <= (hit.threePrime ? HAIRPIN_3P_WARN_DG : HAIRPIN_WARN_DG);
+
+// Design penalty: grows linearly once a structure passes its warning threshold
+export const structurePenalty = (s: SecondaryStructure): number => {
+    let penalty = 0;
+    if (s.hairpin) penalty += Math.max(0, (s.hairpin.threePrime ? HAIRPIN_3P_WARN_DG : HAIRPIN_WARN_DG) + 1 - s.hairpin.dG);
+    if (s.selfDimer) penalty += Math.max(0, (s.selfDimer.threePrime ? DIMER_3P_WARN_DG : DIMER_WARN_DG) + 2 - s.selfDimer.dG);
+    return penalty * 2;
+};
+
+export const crossDimerPenalty = (hit: StructureHit | null): number =>
+    hit ? Math.max(0, (hit.threePrime ? DIMER_3P_WARN_DG : DIMER_WARN_DG) + 2 - hit.dG) * 2 : 0;
+
+// Free Mg2+ (M) after dNTP chelation, solving the 1:1 binding equilibrium
+export const freeMagnesium = (mgM: number, dntpM: number): number => {
+    if (mgM <= 0) return 0;
+    if (dntpM <= 0) return mgM;
+    const b = KA_MG_DNTP * (dntpM - mgM) + 1;
+    return (-b + Math.sqrt(b * b + 4 * KA_MG_DNTP * mgM)) / (2 * KA_MG_DNTP);
+};
+
+export type SaltModel = 'none' | 'monovalent' | 'divalent';
+
+export const saltModelFor = (cond: BufferConditions): SaltModel => {
+    const mon = (cond.naMm + cond.kMm) / 1000;
+    const mg = freeMagnesium(cond.mgMm / 1000, cond.dntpMm / 1000);
+    if (mon <= 0 && mg <= 0) return 'none';
+    if (mg <= 0) return 'monovalent';
+    if (mon <= 0) return 'divalent';
+    return Math.sqrt(mg) / mon < 0.22 ? 'monovalent' : 'divalent';
+};
+
+/**
+ * Converts a 1 M Na+ melting temperature (K) to the given buffer.
+ * Monovalent ions use Owczarzy 2004; when Mg2+ dominates (√[Mg]/[Mon] ≥ 0.22)
+ * the Owczarzy 2008 divalent correction applies, with coefficients a, d, g
+ * adjusted for competing monovalent ions below a ratio of 6.
+ */
+export const saltCorrectedTm = (tm1M: number, fGC: number, nBp: number, cond: BufferConditions): number => {
+    const mon = (cond.naMm + cond.kMm) / 1000;
+    const mg = freeMagnesium(cond.mgMm / 1000, cond.dntpMm / 1000);
+    const model = saltModelFor(cond);
+    if (model === 'none') return tm1M;
+
+    if (model === 'monovalent') {
+        const lnMon = Math.log(mon);
+        return 1 / (1 / tm1M + (4.29 * fGC - 3.95) * 1e-5 * lnMon + 9.4e-6 * lnMon * lnMon);
+    }
+
+    let a = 3.92e-5;
+    const b = -9.11e-6;
+    const c = 6.26e-5;
+    let d = 1.42e-5;
+    const e = -4.82e-4;
+    const f = 5.25e-4;
+    let g = 8.31e-5;
+    if (mon > 0 && Math.sqrt(mg) / mon < 6) {
+        const lnMon = Math.log(mon);
+        a = 3.92e-5 * (0.843 - 0.352 * Math.sqrt(mon) * lnMon);
+        d = 1.42e-5 * (1.279 - 4.03e-3 * lnMon - 8.03e-3 * lnMon * lnMon);
+        g = 8.31e-5 * (0.486 - 0.258 * lnMon + 5.25e-3 * lnMon * lnMon * lnMon);
+    }
+    const lnMg = Math.log(mg);
+    const inv = 1 / tm1M + a + b * lnMg + fGC * (c + d * lnMg) + (e + f * lnMg + g * lnMg * lnMg) / (2 * (nBp - 1));
+    return 1 / inv;
+};
+
+// Salt-corrected two-state Tm (°C) for a primer annealing to its complement
+export const tmFromThermo = (dH: number, dS: number, gcCount: number, length: number, cond: BufferConditions): number => {
+    const Ct = cond.primerNm * 1e-9;
+    const tm1M = (dH * 1000) / (dS + R_CAL * Math.log(Ct / 4));
+    return saltCorrectedTm(tm1M, gcCount / length, length, cond) - 273.15;
+};
+
+export const basicTm = (gcCount: number, atCount: number): number => {
+    const length = gcCount + atCount;
+    return length < 14 ? atCount * 2 + gcCount * 4 : 64.9 + 41 * (gcCount - 16.4) / length;
+};
+
+// Average residue masses (g/mol) in a single-stranded oligo
+const NUCLEOTIDE_MW: Record<string, number> = { A: 313.2, C: 289.2, G: 329.2, T: 304.2, I: 314.2 };
+
+export const molecularWeight = (a: number, c: number, g: number, t: number): number =>
+    (a * NUCLEOTIDE_MW.A) + (c * NUCLEOTIDE_MW.C) + (g * NUCLEOTIDE_MW.G) + (t * NUCLEOTIDE_MW.T) - 61.96;
+
+// Composition and Tm of a primer made only of A/C/G/T
+const exactProps = (seq: string, cond: BufferConditions) => {
+    const length = seq.length;
+    const g = (seq.match(/G/g) || []).length;
+    const c = (seq.match(/C/g) || []).length;
+    const a = (seq.match(/A/g) || []).length;
+    const t = (seq.match(/T/g) || []).length;
+    const { dH, dS } = nnSums(seq);
+    return {
+        gc: ((g + c) / length) * 100,
+        tmBasic: basicTm(g + c, a + t),
+        tmNN: tmFromThermo(dH, dS, g + c, length, cond),
+        mw: molecularWeight(a, c, g, t),
+    };
+};
+
+/**
+ * Expands a degenerate primer into its concrete variants and summarizes the
+ * spread of Tm, GC and MW. Above MAX_EXPANSIONS variants an evenly strided
+ * sample is evaluated instead, so the reported range is then approximate.
+ */
+const expandDegenerate = (seq: string, cond: BufferConditions): DegenerateSummary => {
+    const options = seq.split('').map(b => (b === INOSINE ? 'ACGT' : IUPAC_CODES[b]));
+    const total = options.reduce((n, o) => n * o.length, 1);
+    const inosines = seq.split('').filter(b => b === INOSINE).length;
+    const sampled = total > MAX_EXPANSIONS;
+    const count = sampled ? MAX_EXPANSIONS : total;
+    const stride = sampled ? Math.floor(total / MAX_EXPANSIONS) : 1;
+
+    const variants: PrimerVariant[] = [];
+    let tmMin = Infinity, tmMax = -Infinity, tmSum = 0;
+    let mwMin = Infinity, mwMax = -Infinity, mwSum = 0;
+    let gcMin = Infinity, gcMax = -Infinity, gcSum = 0;
+    let tmBasicSum = 0;
+
+    for (let n = 0; n < count; n++) {
+        // Decode the mixed-radix variant index, last position fastest
+        let idx = n * stride;
+        const bases: string[] = new Array(seq.length);
+        for (let k = seq.length - 1; k >= 0; k--) {
+            bases[k] = options[k][idx % options[k].length];
+            idx = Math.floor(idx / options[k].length);
+        }
+        const variant = bases.join('');
+        const props = exactProps(variant, cond);
+        // Inosine is a single residue whatever it is expanded to for Tm
+        let mw = props.mw;
+        for (let k = 0; k < seq.length; k++) {
+            if (seq[k] === INOSINE) mw += NUCLEOTIDE_MW.I - NUCLEOTIDE_MW[variant[k]];
+        }
+
+        tmMin = Math.min(tmMin, props.tmNN); tmMax = Math.max(tmMax, props.tmNN); tmSum += props.tmNN;
+        mwMin = Math.min(mwMin, mw); mwMax = Math.max(mwMax, mw); mwSum += mw;
+        gcMin = Math.min(gcMin, props.gc); gcMax = Math.max(gcMax, props.gc); gcSum += props.gc;
+        tmBasicSum += props.tmBasic;
+        if (variants.length < MAX_LISTED_VARIANTS) variants.push({ seq: variant, tm: props.tmNN, gc: props.gc, mw });
+    }
+
+    return {
+        degeneracy: total / Math.pow(4, inosines),
+        inosines,
+        variantsEvaluated: count,
+        sampled,
+        tmMin, tmMax, tmMean: tmSum / count,
+        mwMin, mwMax, mwMean: mwSum / count,
+        gcMin, gcMax, gcMean: gcSum / count,
+        tmBasicMean: tmBasicSum / count,
+        variants,
+    };
+};
+
+export const calculatePrimerProps = (rawSeq: string, cond: BufferConditions): PrimerResult => {
+    const cleanSeq = cleanSequence(rawSeq).replace(/U/g, 'T');
+    if (!cleanSeq) return { seq: rawSeq, cleanSeq: '', length: 0, gc: 0, tmBasic: 0, tmNN: 0, molecularWeight: 0, isValid: false };
+
+    const invalid = [...new Set(cleanSeq.replace(/[ACGTRYSWKMBDHVNI]/g, ''))];
+    if (invalid.length > 0) {
+        return { seq: rawSeq, cleanSeq, length: cleanSeq.length, gc: 0, tmBasic: 0, tmNN: 0, molecularWeight: 0, isValid: false, error: `Invalid characters: ${invalid.join(', ')}` };
+    }
+
+    const length = cleanSeq.length;
+    if (/[^ACGT]/.test(cleanSeq)) {
+        // Degenerate: headline values are the means across the expansion
+        const deg = expandDegenerate(cleanSeq, cond);
+        return {
+            seq: rawSeq, cleanSeq, length,
+            gc: deg.gcMean,
+            tmBasic: deg.tmBasicMean,
+            tmNN: deg.tmMean,
+            molecularWeight: deg.mwMean,
+            isValid: true,
+            degenerate: deg,
+        };
+    }
+
+    const props = exactProps(cleanSeq, cond);
+    return { seq: rawSeq, cleanSeq, length, gc: props.gc, tmBasic: props.tmBasic, tmNN: props.tmNN, molecularWeight: props.mw, isValid: true };
+};
@@ -0,0 +1,297 @@
+import { SeqFeature, FeatureStrand } from './features';
+import { parseFastaRecords } from './primerSpecificity';
+
+export type SequenceFormat = 'genbank' | 'embl' | 'snapgene' | 'fasta' | 'raw';
+
+export interface SequenceDocument {
+  name: string;
+  description: string;
+  seq: string; // uppercase, letters only
+  circular: boolean;
+  features: SeqFeature[];
+  format: SequenceFormat;
+}
+
+export const SEQUENCE_FILE_ACCEPT = '.gb,.gbk,.genbank,.gbff,.embl,.dna,.fasta,.fa,.fna,.fas,.txt';
+
+export const detectFormat = (text: string): SequenceFormat => {
+  const start = text.trimStart();
+  if (start.startsWith('LOCUS')) return 'genbank';
+  if (start.startsWith('ID   ')) return 'embl';
+  if (start.startsWith('>')) return 'fasta';
+  return 'raw';
+};
+
+// --- Feature tables (shared by GenBank and EMBL) ---
+
+/**
+ * Parses an INSDC location such as `complement(join(5001..5386,1..200))`.
+ * Our features are a single span, so joins become the span from the first
+ * to the last part. On circular records a join whose parts increase except
+ * for one step back to the origin is taken to wrap the origin. Minus-strand
+ * joins written as `join(complement(..),complement(..))` list their parts in
+ * descending order and are read back to front.
+ */
+export const parseLocation = (location: string, seqLength: number, circular = false): Pick<SeqFeature, 'start' | 'end' | 'strand'> | null => {
+  const strand: FeatureStrand = location.includes('complement(') ? -1 : 1;
+  const parts = [...location.replace(/[<>]/g, '').matchAll(/(\d+)(?:(?:\.\.|\^)(\d+))?/g)]
+    .map(m => ({ from: parseInt(m[1], 10) - 1, to: parseInt(m[2] ?? m[1], 10) }));
+  if (parts.length === 0) return null;
+  if (/^(join|order)\(\s*complement\(/.test(location.trim())) parts.reverse();
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  const stepsBack = parts.filter((p, i) => i > 0 && p.from < parts[i - 1].from).length;
+  const spansOrigin = circular && parts.length > 1 && stepsBack === 1 && last.to <= first.from;
+  const start = spansOrigin ? first.from : Math.min(...parts.map(p => p.from));
+  const end = spansOrigin ? last.to : Math.max(...parts.map(p => p.to));
+  return { start, end: end >= seqLength && start > 0 ? end % seqLength : end, strand };
+};
+
+const formatLocation = (f: SeqFeature, seqLength: number): string => {
+  const span = f.end >= f.start || f.end === 0
+    ? `${f.start + 1}..${f.end || seqLength}`
+    : `join(${f.start + 1}..${seqLength},1..${f.end})`;
+  return f.strand === -1 ? `complement(${span})` : span;
+};
+
+// Feature name as SnapGene and most viewers pick it
+const featureLabel = (type: string, q: Record<string, string>): string =>
+  q.label ?? q.gene ?? q.product ?? q.note ?? q.standard_name ?? type;
+
+/** Reads a feature table whose lines have the 5-column prefix removed (key at col 0, location at col 16). */
+const parseFeatureTable = (lines: string[], seqLength: number, circular: boolean): SeqFeature[] => {
+  const features: SeqFeature[] = [];
+  let current: { type: string; location: string; qualifiers: [string, string][] } | null = null;
+  const flush = () => {
+    if (!current) return;
+    const span = parseLocation(current.location, seqLength, circular);
+    // The source feature only restates the whole record
+    if (span && current.type !== 'source') {
+      const qualifiers = Object.fromEntries(current.qualifiers);
+      features.push({ type: current.type, label: featureLabel(current.type, qualifiers), ...span, qualifiers });
+    }
+    current = null;
+  };
+  for (const line of lines) {
+    const key = line.slice(0, 16).trim();
+    const body = line.slice(16).trim();
+    if (key) {
+      flush();
+      current = { type: key, location: body, qualifiers: [] };
+    } else if (current) {
+      const q = body.match(/^\/([^=]+)(?:=(.*))?$/);
+      const quals = current.qualifiers;
+      if (q) {
+        quals.push([q[1], (q[2] ?? '').replace(/^"/, '').replace(/"$/, '')]);
+      } else if (quals.length === 0) {
+        current.location += body; // location continued on the next line
+      } else {
+        const [k, v] = quals[quals.length - 1];
+        const text = body.replace(/"$/, '');
+        // Translations are wrapped without spaces; free text is wrapped at word breaks
+        quals[quals.length - 1] = [k, k === 'translation' ? v + text : `${v} ${text}`];
+      }
+    }
+  }
+  flush();
+  return features;
+};
+
+const sequenceFromLines = (lines: string[]): string => lines.join('').replace(/[^A-Za-z]/g, '').toUpperCase();
+
+// --- GenBank ---
+
+export const parseGenBank = (text: string): SequenceDocument[] =>
+  text.split(/^\/\/\s*$/m).filter(chunk => chunk.includes('LOCUS')).map(chunk => {
+    const lines = chunk.slice(chunk.indexOf('LOCUS')).split(/\r?\n/);
+    const locus = lines[0].split(/\s+/);
+    const definition: string[] = [];
+    const featureLines: string[] = [];
+    const seqLines: string[] = [];
+    let section = '';
+    for (const line of lines) {
+      const head = line.match(/^([A-Z]+)\s*/);
+      if (head) section = head[1];
+      if (section === 'DEFINITION') definition.push(line.replace(/^DEFINITION/, '').trim());
+      else if (section === 'FEATURES' && !head) featureLines.push(line.slice(5));
+      else if (section === 'ORIGIN' && !head) seqLines.push(line);
+    }
+    const seq = sequenceFromLines(seqLines);
+    const circular = /\bcircular\b/i.test(lines[0]);
+    return {
+      name: locus[1] ?? 'Sequence',
+      description: definition.join(' ').replace(/\.$/, ''),
+      seq,
+      circular,
+      features: parseFeatureTable(featureLines, seq.length, circular),
+      format: 'genbank' as SequenceFormat,
+    };
+  });
+
+const QUALIFIER_WIDTH = 58;
+
+// Free text wraps at spaces (the parser rejoins lines with one); translations are cut anywhere
+const wrapQualifier = (key: string, text: string): string[] => {
+  const hardWrap = (t: string) => t.match(new RegExp(`.{1,${QUALIFIER_WIDTH}}`, 'g')) ?? [''];
+  if (key === 'translation') return hardWrap(text);
+  const out: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > QUALIFIER_WIDTH) {
+      out.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  // Words longer than a line have no break to use
+  return [...out, line].flatMap(l => (l.length > QUALIFIER_WIDTH ? hardWrap(l) : [l]));
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// LOCUS date as DD-MMM-YYYY
+const locusDate = (d: Date): string => `${String(d.getDate()).padStart(2, '0')}-${MONTHS[d.getMonth()]}-${d.getFullYear()}`;
+
+/** Writes an annotated GenBank flatfile. */
+export const toGenBank = (doc: Pick<SequenceDocument, 'name' | 'description' | 'seq' | 'circular' | 'features'>): string => {
+  const date = locusDate(new Date());
+  const name = doc.name.replace(/\s+/g, '_').slice(0, 16) || 'Sequence';
+  const out: string[] = [
+    `LOCUS       ${name.padEnd(16)} ${String(doc.seq.length).padStart(11)} bp    DNA     ${(doc.circular ? 'circular' : 'linear').padEnd(8)} SYN ${date}`,
+    `DEFINITION  ${doc.description || name}.`,
+    'ACCESSION   .',
+    'VERSION     .',
+    'KEYWORDS    .',
+    'SOURCE      synthetic DNA construct',
+    '  ORGANISM  synthetic DNA construct',
+    'FEATURES             Location/Qualifiers',
+    `     ${'source'.padEnd(16)}1..${doc.seq.length}`,
+    '                     /mol_type="other DNA"',
+  ];
+  for (const f of doc.features) {
+    out.push(`     ${f.type.padEnd(16)}${formatLocation(f, doc.seq.length)}`);
+    const qualifiers = { ...f.qualifiers, label: f.label };
+    for (const [key, value] of Object.entries(qualifiers)) {
+      const text = `/${key}="${value.replace(/"/g, "'")}"`;
+      wrapQualifier(key, text).forEach(part => out.push(`                     ${part}`));
+    }
+  }
+  out.push('ORIGIN');
+  const seq = doc.seq.toLowerCase();
+  for (let i = 0; i < seq.length; i += 60) {
+    const blocks = seq.slice(i, i + 60).match(/.{1,10}/g) ?? [];
+    out.push(`${String(i + 1).padStart(9)} ${blocks.join(' ')}`);
+  }
+  out.push('//');
+  return out.join('\n') + '\n';
+};
+
+// --- EMBL ---
+
+export const parseEmbl = (text: string): SequenceDocument[] =>
+  text.split(/^\/\/\s*$/m).filter(chunk => /^ID {3}/m.test(chunk)).map(chunk => {
+    const lines = chunk.split(/\r?\n/);
+    const id = lines.find(l => l.startsWith('ID   ')) ?? '';
+    const description = lines.filter(l => l.startsWith('DE   ')).map(l => l.slice(5).trim()).join(' ');
+    const featureLines = lines.filter(l => l.startsWith('FT   ')).map(l => l.slice(5));
+    const sqIndex = lines.findIndex(l => l.startsWith('SQ   '));
+    const seq = sqIndex < 0 ? '' : sequenceFromLines(lines.slice(sqIndex + 1).filter(l => l.startsWith('     ')));
+    const circular = /\bcircular\b/i.test(id);
+    return {
+      name: id.slice(5).split(';')[0].trim() || 'Sequence',
+      description: description.replace(/\.$/, ''),
+      seq,
+      circular,
+      features: parseFeatureTable(featureLines, seq.length, circular),
+      format: 'embl' as SequenceFormat,
+    };
+  });
+
+// --- SnapGene ---
+
+const SNAPGENE_COOKIE = 0x09;
+const SNAPGENE_DNA = 0x00;
+const SNAPGENE_FEATURES = 0x0a;
+
+/**
+ * Reads a SnapGene .dna file: a series of packets (1-byte type, 4-byte
+ * big-endian length, payload). The DNA packet starts with a topology flag
+ * byte; features are stored as XML with 1-based inclusive segment ranges.
+ */
+export const parseSnapGene = (buffer: ArrayBuffer, name = 'Sequence'): SequenceDocument => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 5 || view.getUint8(0) !== SNAPGENE_COOKIE) throw new Error('Not a SnapGene .dna file');
+  const decoder = new TextDecoder('utf-8');
+  let seq = '';
+  let circular = false;
+  let featureXml = '';
+  for (let offset = 0; offset + 5 <= buffer.byteLength;) {
+    const type = view.getUint8(offset);
+    const length = view.getUint32(offset + 1);
+    const payload = new Uint8Array(buffer, offset + 5, Math.min(length, buffer.byteLength - offset - 5));
+    if (type === SNAPGENE_DNA) {
+      circular = (payload[0] & 0x01) === 1;
+      seq = decoder.decode(payload.subarray(1)).replace(/[^A-Za-z]/g, '').toUpperCase();
+    } else if (type === SNAPGENE_FEATURES) {
+      featureXml = decoder.decode(payload);
+    }
+    offset += 5 + length;
+  }
+  if (!seq) throw new Error('SnapGene file has no DNA sequence');
+
+  const features: SeqFeature[] = [];
+  if (featureXml) {
+    const xml = new DOMParser().parseFromString(featureXml, 'text/xml');
+    xml.querySelectorAll('Feature').forEach(node => {
+      const segments = [...node.querySelectorAll('Segment')].map(s => (s.getAttribute('range') ?? '').split('-').map(n => parseInt(n, 10)));
+      const valid = segments.filter(([a, b]) => !isNaN(a) && !isNaN(b));
+      if (valid.length === 0) return;
+      const qualifiers: Record<string, string> = {};
+      node.querySelectorAll('Q').forEach(q => {
+        const v = q.querySelector('V');
+        const value = v?.getAttribute('text') ?? v?.getAttribute('int') ?? '';
+        qualifiers[q.getAttribute('name') ?? 'note'] = value.replace(/<[^>]+>/g, '');
+      });
+      const type = node.getAttribute('type') ?? 'misc_feature';
+      const dir = node.getAttribute('directionality');
+      features.push({
+        type,
+        label: node.getAttribute('name') ?? featureLabel(type, qualifiers),
+        start: valid[0][0] - 1,
+        end: valid[valid.length - 1][1],
+        strand: dir === '1' ? 1 : dir === '2' ? -1 : 0,
+        qualifiers,
+      });
+    });
+  }
+  return { name, description: '', seq, circular, features, format: 'snapgene' };
+};
+
+// --- Dispatch ---
+
+/** Parses pasted or loaded text in any supported text format. */
+export const parseSequenceText = (text: string, fallbackName = 'Sequence_1'): SequenceDocument[] => {
+  const format = detectFormat(text);
+  if (format === 'genbank') return parseGenBank(text);
+  if (format === 'embl') return parseEmbl(text);
+  return parseFastaRecords(text, fallbackName).map(r => ({
+    name: r.name, description: '', seq: r.seq, circular: false, features: [], format,
+  }));
+};
+
+/** Reads a sequence file of any supported format, binary SnapGene included. */
+export const readSequenceFile = async (file: File): Promise<SequenceDocument[]> => {
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const buffer = await file.arrayBuffer();
+  if (new Uint8Array(buffer)[0] === SNAPGENE_COOKIE) return [parseSnapGene(buffer, baseName)];
+  return parseSequenceText(new TextDecoder('utf-8').decode(buffer), baseName);
+};
+
+/** Documents as FASTA, wrapped at `wrap` columns (0 = one line). */
+export const toFasta = (docs: Pick<SequenceDocument, 'name' | 'description' | 'seq'>[], wrap = 60): string =>
+  docs.map(d => {
+    const header = d.description ? `${d.name} ${d.description}` : d.name;
+    const body = wrap > 0 ? d.seq.match(new RegExp(`.{1,${wrap}}`, 'g'))?.join('\n') ?? '' : d.seq;
+    return `>${header}\n${body}`;
+  }).join('\n');
@@ -0,0 +1,91 @@
+// Minimal ZIP writer (stored, uncompressed) for bundling text downloads.
+
+export interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// A fixed-size little-endian header block
+const block = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+// MS-DOS time and date fields
+const dosDateTime = (d: Date): [number, number] => [
+  (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+  ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+];
+
+/** Packs text files into a ZIP archive. */
+export const createZip = (entries: ZipEntry[], date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const [time, day] = dosDateTime(date);
+  const parts: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let offset = 0;
+  let centralSize = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.content);
+    const crc = crc32(data);
+
+    parts.push(block(30, v => {
+      v.setUint32(0, 0x04034b50, true);
+      v.setUint16(4, 20, true); // version needed
+      v.setUint16(6, 0x0800, true); // UTF-8 names
+      v.setUint16(8, 0, true); // stored
+      v.setUint16(10, time, true);
+      v.setUint16(12, day, true);
+      v.setUint32(14, crc, true);
+      v.setUint32(18, data.length, true);
+      v.setUint32(22, data.length, true);
+      v.setUint16(26, name.length, true);
+    }), name, data);
+
+    central.push(block(46, v => {
+      v.setUint32(0, 0x02014b50, true);
+      v.setUint16(4, 20, true); // version made by
+      v.setUint16(6, 20, true);
+      v.setUint16(8, 0x0800, true);
+      v.setUint16(12, time, true);
+      v.setUint16(14, day, true);
+      v.setUint32(16, crc, true);
+      v.setUint32(20, data.length, true);
+      v.setUint32(24, data.length, true);
+      v.setUint16(28, name.length, true);
+      v.setUint32(42, offset, true);
+    }), name);
+
+    offset += 30 + name.length + data.length;
+    centralSize += 46 + name.length;
+  }
+
+  const end = block(22, v => {
+    v.setUint32(0, 0x06054b50, true);
+    v.setUint16(8, entries.length, true);
+    v.setUint16(10, entries.length, true);
+    v.setUint32(12, centralSize, true);
+    v.setUint32(16, offset, true);
+  });
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { Search } from 'lucide-react';
-import { DilutionIcon, MolarityIcon, PercentIcon, PhIcon, ProteinIcon, ProtocolsIcon, OopsIcon, PrimerIcon, GelIcon, CellIcon, LogIcon, TimerIcon, FastaIcon, ScissorsIcon, IllustratorIcon } from '../components/ScienceIcons';
+import { DilutionIcon, MolarityIcon, PercentIcon, PhIcon, ProteinIcon, ProtocolsIcon, OopsIcon, PrimerIcon, GelIcon, CellIcon, LogIcon, TimerIcon, FastaIcon, HelixIcon, TraceIcon, ScissorsIcon, IllustratorIcon } from '../components/ScienceIcons';
 import { AdBanner } from '../components/AdBanner';
 
 interface Tool {
@@ -61,6 +61,24 @@ const TOOLS: Tool[] = [
     color: 'slate',
     keywords: ['fasta', 'dna', 'protein', 'sequence', 'format', 'clean', 'wrap']
   },
+  {
+    id: 'sequence',
+    title: 'Sequence Toolkit',
+    description: 'Translate, reverse-complement & ORFs',
+    path: '/sequence',
+    icon: HelixIcon,
+    color: 'teal',
+    keywords: ['sequence', 'dna', 'translate', 'translation', 'reverse complement', 'orf', 'frame', 'genetic code', 'protein']
+  },
+  {
+    id: 'trace',
+    title: 'Sanger Trace Viewer',
+    description: 'AB1/SCF chromatograms & alignment',
+    path: '/trace',
+    icon: TraceIcon,
+    color: 'indigo',
+    keywords: ['sanger', 'sequencing', 'trace', 'chromatogram', 'ab1', 'scf', 'quality', 'phred', 'alignment', 'mismatch', 'verify']
+  },
   {
     id: 'timer',
     title: 'Lab Timer',
@@ -1,114 +1,164 @@
 import React, { useState, useRef } from 'react';
-import { ArrowRight, Download, Upload, Copy, Check, Trash2, AlertTriangle, AlignLeft } from 'lucide-react';
-import { PageHeader, Card, Button, Select } from '../components/UI';
+import { ArrowRight, Download, Upload, Copy, Check, Trash2, AlertTriangle, AlignLeft, Filter, FileArchive } from 'lucide-react';
+import { PageHeader, Card, Button, Select, Input } from '../components/UI';
+import { downloadBlob, safeNum } from '../utils';
+import { detectFormat, parseSequenceText, readSequenceFile, toFasta, SEQUENCE_FILE_ACCEPT } from '../lib/sequenceIO';
+import {
+  FastaRecord, DedupeMode, RecordFilter, NO_FILTER, HEADER_PLACEHOLDERS,
+  RecordReport, RecordIssue, IssueKind, SequenceFixes, NO_FIXES, ALPHABET_LABELS,
+  parseFasta, formatFasta, dedupeRecords, filterRecords, applyHeaderTemplate, extractSubsequences, splitRecords,
+  fixRecords, validateRecord,
+} from '../lib/fasta';
+import { createZip } from '../lib/zip';
+import { looksLikeFastq } from '../lib/fastq';
+import FastqProcessor from '../components/FastqProcessor';
+
+type SortKey = 'index' | 'header' | 'alphabet' | 'length' | 'gc' | 'ambiguousContent' | 'issues';
+
+const ISSUE_STYLES: Record<IssueKind, string> = {
+  gap: 'bg-slate-100 text-slate-600',
+  stop: 'bg-orange-50 text-orange-700',
+  ambiguous: 'bg-amber-50 text-amber-700',
+  uracil: 'bg-cyan-50 text-cyan-700',
+  invalid: 'bg-red-50 text-red-600',
+};
+
+// Positions listed per character before the rest are summarized
+const MAX_LISTED_POSITIONS = 8;
+
+const sortValue = (r: RecordReport, key: SortKey): number | string => {
+  if (key === 'issues') return r.issues.reduce((n, i) => n + i.positions.length, 0);
+  if (key === 'gc') return r.gc ?? -1;
+  return r[key];
+};
+
+const FASTQ_FILE = /\.(fastq|fq)(\.gz)?$/i;
 
 const FastaCleaner: React.FC = () => {
+  const [mode, setMode] = useState<'fasta' | 'fastq'>('fasta');
+  const [fastqFile, setFastqFile] = useState<File | null>(null);
   const [input, setInput] = useState('');
   const [output, setOutput] = useState('');
+  const [records, setRecords] = useState<FastaRecord[]>([]);
   const [wrapLength, setWrapLength] = useState<number>(60);
   const [copied, setCopied] = useState(false);
-  const [stats, setStats] = useState<{ seqs: number; bp: number; errors: number } | null>(null);
+  const [stats, setStats] = useState<{ seqs: number; bp: number; errors: number; duplicates: number; filtered: number } | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [opError, setOpError] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Record operations, applied in this order after parsing
+  const [dedupe, setDedupe] = useState<DedupeMode>('none');
+  const [filter, setFilter] = useState<RecordFilter>(NO_FILTER);
+  const [template, setTemplate] = useState('');
+  const [range, setRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
+  const [splitParts, setSplitParts] = useState(2);
+  const [fixes, setFixes] = useState<SequenceFixes>(NO_FIXES);
+
+  // Validation report of the cleaned records
+  const [reports, setReports] = useState<RecordReport[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; asc: boolean }>({ key: 'index', asc: true });
+
   // Core cleaning logic
-  const cleanFasta = (text: string, wrap: number) => {
-    if (!text.trim()) {
+  const cleanFasta = (raw: string, wrap: number) => {
+    setOpError('');
+    if (!raw.trim()) {
       setOutput('');
+      setRecords([]);
+      setReports([]);
       setStats(null);
       return;
     }
 
-    let cleanOutput = '';
-    let totalSeqs = 0;
-    let totalBp = 0;
-    let totalErrors = 0;
-
-    // Allow letters, asterisks (stop codons), and hyphens (gaps)
-    const validCharsRegex = /^[A-Za-z\*\-]+$/; 
-    
-    // Detect if the input looks like a FASTA file (starts with >)
-    const hasHeader = text.trimStart().startsWith('>');
-
-    // Split records by '>'. 
-    const rawRecords = text.split('>');
-    
-    rawRecords.forEach((record, index) => {
-      // If we expect FASTA, the first chunk before the first '>' is usually empty preamble.
-      if (hasHeader && index === 0) return;
-
-      if (!record.trim()) return;
-
-      let header = '';
-      let rawSeq = '';
-
-      if (!hasHeader && index === 0) {
-        // CASE: Input does not start with '>'. Treat entire text as one sequence.
-        // This handles NCBI raw copy-pastes like "1 agct..."
-        header = 'Sequence_1';
-        rawSeq = record;
-      } else {
-        // CASE: Standard FASTA record.
-        // record content is: "HeaderLine\nSeqLine\nSeqLine..."
-        // We find the first newline to separate Header from Body.
-        const firstBreak = record.indexOf('\n');
-        
-        if (firstBreak === -1) {
-             // Only one line inside a > block? It's a header with no sequence.
-             header = record.trim();
-             rawSeq = '';
-        } else {
-             header = record.substring(0, firstBreak).trim();
-             rawSeq = record.substring(firstBreak + 1);
-        }
-      }
-
-      // CLEANING LOGIC:
-      // 1. Remove digits (0-9) - handles numbered sequences (NCBI/GenBank)
-      // 2. Remove whitespace (\s) - handles newlines, spaces, tabs
-      const cleanSeq = rawSeq.replace(/[\s\d]+/g, '').toUpperCase();
-      
-      if (cleanSeq.length > 0) {
-          totalSeqs++;
-          totalBp += cleanSeq.length;
-
-          if (!validCharsRegex.test(cleanSeq)) {
-              totalErrors++;
-          }
-
-          // Formatting (Wrap lines)
-          let formattedSeq = cleanSeq;
-          if (wrap > 0) {
-              const chunks = [];
-              for (let i = 0; i < cleanSeq.length; i += wrap) {
-                  chunks.push(cleanSeq.slice(i, i + wrap));
-              }
-              formattedSeq = chunks.join('\n');
-          }
-
-          cleanOutput += `>${header}\n${formattedSeq}\n`;
-      }
+    // Reads go to the FASTQ mode instead of being flattened into sequence letters
+    if (looksLikeFastq(raw)) {
+      openFastq(new File([raw], 'pasted.fastq', { type: 'text/plain' }));
+      return;
+    }
+
+    let result: FastaRecord[];
+    let duplicates = 0;
+    let filtered = 0;
+    try {
+      const parsed = fixRecords(parseFasta(raw), fixes);
+      const unique = dedupeRecords(parsed, dedupe);
+      duplicates = unique.removed;
+      result = filterRecords(unique.records, filter);
+      filtered = unique.records.length - result.length;
+      result = applyHeaderTemplate(result, template);
+      if (range.start.trim() && range.end.trim()) result = extractSubsequences(result, safeNum(range.start), safeNum(range.end));
+    } catch (err) {
+      setOpError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    const validated = result.map(validateRecord);
+    setRecords(result);
+    setReports(validated);
+    setOutput(formatFasta(result, wrap));
+    setStats({
+      seqs: result.length,
+      bp: result.reduce((sum, r) => sum + r.seq.length, 0),
+      errors: validated.filter(r => r.issues.length > 0).length,
+      duplicates,
+      filtered,
     });
+  };
 
-    setOutput(cleanOutput.trim());
-    setStats({ seqs: totalSeqs, bp: totalBp, errors: totalErrors });
+  const openFastq = (file: File) => {
+    setFastqFile(file);
+    setMode('fastq');
   };
 
   const handleClean = () => {
     cleanFasta(input, wrapLength);
   };
 
+  // Every selected file becomes FASTA and is appended to the input, so several uploads merge into one set
+  const fileToFasta = async (file: File): Promise<string> => {
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    // SnapGene files are binary; load their records as FASTA
+    if (/\.dna$/i.test(file.name)) return toFasta(await readSequenceFile(file));
+    const text = await file.text();
+    const format = detectFormat(text);
+    if (format === 'genbank' || format === 'embl') return toFasta(parseSequenceText(text, baseName));
+    return format === 'raw' ? `>${baseName}\n${text.trim()}` : text.trim();
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        setInput(text);
-      };
-      reader.readAsText(file);
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    setLoadError('');
+    if (files.length === 0) return;
+    const fastq = files.find(f => FASTQ_FILE.test(f.name));
+    if (fastq) {
+      openFastq(fastq);
+      return;
     }
+    Promise.all(files.map(fileToFasta))
+      .then(texts => setInput(prev => [prev.trim(), ...texts].filter(Boolean).join('\n')))
+      .catch(err => setLoadError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const handleSplit = () => {
+    const groups = splitRecords(records, splitParts);
+    const width = String(groups.length).length;
+    const zip = createZip(groups.map((group, i) => ({
+      name: `part_${String(i + 1).padStart(width, '0')}.fasta`,
+      content: formatFasta(group, wrapLength) + '\n',
+    })));
+    downloadBlob('split_fasta.zip', zip);
   };
 
+  const sortedReports = [...reports].sort((a, b) => {
+    const x = sortValue(a, sort.key);
+    const y = sortValue(b, sort.key);
+    const order = typeof x === 'string' ? x.localeCompare(String(y)) : x - (y as number);
+    return sort.asc ? order : -order;
+  });
+
+  const toggleSort = (key: SortKey) => setSort(prev => ({ key, asc: prev.key === key ? !prev.asc : true }));
+
   const handleCopy = () => {
     navigator.clipboard.writeText(output);
     setCopied(true);
@@ -129,155 +179,307 @@ const FastaCleaner: React.FC = () => {
     <div className="space-y-6">
       <PageHeader 
         title="FASTA Cleaner" 
-        description="Format, validate, and clean DNA/Protein FASTA files. Intelligently strips numbers (NCBI style) and whitespace."
+        description="Format, validate, and clean DNA/Protein FASTA files. Intelligently strips numbers (NCBI style) and whitespace, and converts GenBank, EMBL and SnapGene files. FASTQ reads can be quality-trimmed and converted."
+        action={
+          <div className="flex bg-slate-100 rounded-full p-1">
+            {(['fasta', 'fastq'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-4 py-1.5 rounded-full text-sm font-bold transition-colors ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+              >
+                {m.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        }
       />
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 h-[calc(100vh-250px)] min-h-[600px]">
+      {mode === 'fastq' ? (
+        <FastqProcessor source={fastqFile} onSourceChange={setFastqFile} />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 h-[calc(100vh-250px)] min-h-[600px]">
         
-        {/* INPUT COLUMN */}
-        <div className="flex flex-col h-full space-y-4">
-            <Card className="flex-1 flex flex-col p-0 overflow-hidden shadow-md">
-                <div className="bg-slate-50 border-b border-slate-200 p-4 flex justify-between items-center">
-                    <h3 className="font-bold text-slate-700 flex items-center">
-                        <Upload size={18} className="mr-2 text-pink-500"/> Input Sequence
-                    </h3>
-                    <div className="flex space-x-2">
-                        <button 
-                            onClick={() => setInput('')}
-                            className="text-xs font-bold text-slate-500 hover:text-red-500 flex items-center px-2 py-1 rounded hover:bg-slate-200 transition-colors"
-                        >
-                            <Trash2 size={14} className="mr-1"/> Clear
-                        </button>
-                        <button 
-                            onClick={() => fileInputRef.current?.click()}
-                            className="text-xs font-bold text-pink-600 bg-pink-50 hover:bg-pink-100 px-3 py-1 rounded border border-pink-200 transition-colors"
-                        >
-                            Upload File
-                        </button>
-                        <input 
-                            type="file" 
-                            ref={fileInputRef} 
-                            className="hidden" 
-                            accept=".fasta,.fa,.txt" 
-                            onChange={handleFileUpload}
-                        />
+            {/* INPUT COLUMN */}
+            <div className="flex flex-col h-full space-y-4">
+                <Card className="flex-1 flex flex-col p-0 overflow-hidden shadow-md">
+                    <div className="bg-slate-50 border-b border-slate-200 p-4 flex justify-between items-center">
+                        <h3 className="font-bold text-slate-700 flex items-center">
+                            <Upload size={18} className="mr-2 text-pink-500"/> Input Sequence
+                        </h3>
+                        <div className="flex items-center space-x-2">
+                            {loadError && <span className="text-xs text-red-500">{loadError}</span>}
+                            <button 
+                                onClick={() => setInput('')}
+                                className="text-xs font-bold text-slate-500 hover:text-red-500 flex items-center px-2 py-1 rounded hover:bg-slate-200 transition-colors"
+                            >
+                                <Trash2 size={14} className="mr-1"/> Clear
+                            </button>
+                            <button 
+                                onClick={() => fileInputRef.current?.click()}
+                                className="text-xs font-bold text-pink-600 bg-pink-50 hover:bg-pink-100 px-3 py-1 rounded border border-pink-200 transition-colors"
+                            >
+                                Add Files
+                            </button>
+                            <input 
+                                type="file" 
+                                ref={fileInputRef} 
+                                className="hidden" 
+                                accept={SEQUENCE_FILE_ACCEPT}
+                                multiple
+                                onChange={handleFileUpload}
+                            />
+                        </div>
                     </div>
-                </div>
-                <textarea 
-                    className="flex-1 w-full p-4 font-mono text-xs md:text-sm resize-none focus:outline-none focus:bg-slate-50 transition-colors"
-                    placeholder={`Paste sequences here. Examples:
-
-Standard FASTA:
->Seq1
-AGCT TAGC
-
-NCBI Style (Raw):
-1 agct agct
-61 atgc atgc`}
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    spellCheck={false}
-                />
-            </Card>
+                    <textarea 
+                        className="flex-1 w-full p-4 font-mono text-xs md:text-sm resize-none focus:outline-none focus:bg-slate-50 transition-colors"
+                        placeholder={`Paste sequences here. Examples:
+
+    Standard FASTA:
+    >Seq1
+    AGCT TAGC
 
-            <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm space-y-4">
-                <div className="flex items-center justify-between">
-                     <div className="flex items-center space-x-4">
-                         <div className="w-32">
-                             <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Line Wrap</label>
-                             <Select 
-                                value={wrapLength} 
-                                onChange={(e) => setWrapLength(parseInt(e.target.value))}
-                                className="py-2"
-                             >
-                                 <option value={0}>No Wrap (1 line)</option>
-                                 <option value={60}>60 chars</option>
-                                 <option value={70}>70 chars</option>
-                                 <option value={80}>80 chars</option>
-                             </Select>
+    NCBI Style (Raw):
+    1 agct agct
+    61 atgc atgc`}
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        spellCheck={false}
+                    />
+                </Card>
+
+                <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+                    <div className="flex items-center justify-between">
+                         <div className="flex items-center space-x-4">
+                             <div className="w-32">
+                                 <label className="text-xs font-bold text-slate-400 uppercase mb-1 block">Line Wrap</label>
+                                 <Select 
+                                    value={wrapLength} 
+                                    onChange={(e) => setWrapLength(parseInt(e.target.value))}
+                                    className="py-2"
+                                 >
+                                     <option value={0}>No Wrap (1 line)</option>
+                                     <option value={60}>60 chars</option>
+                                     <option value={70}>70 chars</option>
+                                     <option value={80}>80 chars</option>
+                                 </Select>
+                             </div>
                          </div>
-                     </div>
-                     <Button onClick={handleClean} size="lg" className="px-8 shadow-xl shadow-pink-900/10 bg-pink-500 hover:bg-pink-600 text-white" icon={<ArrowRight size={18} />}>
-                        Clean & Format
-                     </Button>
+                         <Button onClick={handleClean} size="lg" className="px-8 shadow-xl shadow-pink-900/10 bg-pink-500 hover:bg-pink-600 text-white" icon={<ArrowRight size={18} />}>
+                            Clean & Format
+                         </Button>
+                    </div>
                 </div>
             </div>
-        </div>
-
-        {/* OUTPUT COLUMN */}
-        <div className="flex flex-col h-full space-y-4">
-             <Card className="flex-1 flex flex-col p-0 overflow-hidden shadow-md border-pink-500/20">
-                <div className="bg-pink-50/50 border-b border-pink-100 p-4 flex justify-between items-center">
-                    <h3 className="font-bold text-pink-800 flex items-center">
-                        <AlignLeft size={18} className="mr-2 text-pink-500"/> Cleaned Output
-                    </h3>
-                    <div className="flex space-x-2">
-                        {output && (
-                            <>
-                                <button 
-                                    onClick={handleCopy}
-                                    className="text-xs font-bold text-pink-700 bg-white border border-pink-200 hover:bg-pink-50 px-3 py-1 rounded transition-colors flex items-center"
-                                >
-                                    {copied ? <Check size={14} className="mr-1"/> : <Copy size={14} className="mr-1"/>}
-                                    {copied ? 'Copied' : 'Copy'}
-                                </button>
-                                <button 
-                                    onClick={handleDownload}
-                                    className="text-xs font-bold text-white bg-pink-600 hover:bg-pink-700 px-3 py-1 rounded shadow-sm transition-colors flex items-center"
-                                >
-                                    <Download size={14} className="mr-1"/> Download
-                                </button>
-                            </>
-                        )}
+
+            {/* OUTPUT COLUMN */}
+            <div className="flex flex-col h-full space-y-4">
+                 <Card className="flex-1 flex flex-col p-0 overflow-hidden shadow-md border-pink-500/20">
+                    <div className="bg-pink-50/50 border-b border-pink-100 p-4 flex justify-between items-center">
+                        <h3 className="font-bold text-pink-800 flex items-center">
+                            <AlignLeft size={18} className="mr-2 text-pink-500"/> Cleaned Output
+                        </h3>
+                        <div className="flex space-x-2">
+                            {output && (
+                                <>
+                                    <button 
+                                        onClick={handleCopy}
+                                        className="text-xs font-bold text-pink-700 bg-white border border-pink-200 hover:bg-pink-50 px-3 py-1 rounded transition-colors flex items-center"
+                                    >
+                                        {copied ? <Check size={14} className="mr-1"/> : <Copy size={14} className="mr-1"/>}
+                                        {copied ? 'Copied' : 'Copy'}
+                                    </button>
+                                    <button 
+                                        onClick={handleDownload}
+                                        className="text-xs font-bold text-white bg-pink-600 hover:bg-pink-700 px-3 py-1 rounded shadow-sm transition-colors flex items-center"
+                                    >
+                                        <Download size={14} className="mr-1"/> Download
+                                    </button>
+                                </>
+                            )}
+                        </div>
                     </div>
-                </div>
                 
-                <div className="flex-1 relative">
-                    <textarea 
-                        className="absolute inset-0 w-full h-full p-4 font-mono text-xs md:text-sm resize-none bg-slate-50 focus:outline-none text-slate-700"
-                        value={output}
-                        readOnly
-                        placeholder="Cleaned sequences will appear here..."
-                    />
-                </div>
-            </Card>
+                    <div className="flex-1 relative">
+                        <textarea 
+                            className="absolute inset-0 w-full h-full p-4 font-mono text-xs md:text-sm resize-none bg-slate-50 focus:outline-none text-slate-700"
+                            value={output}
+                            readOnly
+                            placeholder="Cleaned sequences will appear here..."
+                        />
+                    </div>
+                </Card>
 
-            {/* Stats Panel */}
-            <div className={`p-4 rounded-2xl border transition-all ${stats ? 'bg-white border-slate-200 shadow-sm' : 'bg-transparent border-transparent'}`}>
-                {stats ? (
-                    <div className="flex justify-between items-center">
-                         <div className="flex space-x-6">
-                             <div>
-                                 <div className="text-xs font-bold text-slate-400 uppercase">Sequences</div>
-                                 <div className="text-xl font-bold text-slate-900">{stats.seqs}</div>
-                             </div>
-                             <div>
-                                 <div className="text-xs font-bold text-slate-400 uppercase">Total BP</div>
-                                 <div className="text-xl font-bold text-slate-900">{stats.bp.toLocaleString()}</div>
-                             </div>
-                         </div>
-                         {stats.errors > 0 ? (
-                             <div className="flex items-center text-amber-600 bg-amber-50 px-3 py-2 rounded-lg border border-amber-100">
-                                 <AlertTriangle size={18} className="mr-2" />
-                                 <span className="text-sm font-bold">{stats.errors} seqs have non-standard chars</span>
-                             </div>
-                         ) : (
-                             <div className="flex items-center text-emerald-600 bg-emerald-50 px-3 py-2 rounded-lg border border-emerald-100">
-                                 <Check size={18} className="mr-2" />
-                                 <span className="text-sm font-bold">All characters valid</span>
+                {/* Stats Panel */}
+                <div className={`p-4 rounded-2xl border transition-all ${stats ? 'bg-white border-slate-200 shadow-sm' : 'bg-transparent border-transparent'}`}>
+                    {stats ? (
+                        <div className="flex justify-between items-center">
+                             <div className="flex space-x-6">
+                                 <div>
+                                     <div className="text-xs font-bold text-slate-400 uppercase">Sequences</div>
+                                     <div className="text-xl font-bold text-slate-900">{stats.seqs}</div>
+                                 </div>
+                                 <div>
+                                     <div className="text-xs font-bold text-slate-400 uppercase">Total BP</div>
+                                     <div className="text-xl font-bold text-slate-900">{stats.bp.toLocaleString()}</div>
+                                 </div>
+                                 {(stats.duplicates > 0 || stats.filtered > 0) && (
+                                     <div>
+                                         <div className="text-xs font-bold text-slate-400 uppercase">Removed</div>
+                                         <div className="text-sm font-bold text-slate-600 pt-1">{stats.duplicates} duplicate · {stats.filtered} filtered</div>
+                                     </div>
+                                 )}
                              </div>
-                         )}
-                    </div>
-                ) : (
-                    <div className="text-center text-slate-400 text-sm py-2">
-                        Ready to process.
-                    </div>
+                             {stats.errors > 0 ? (
+                                 <div className="flex items-center text-amber-600 bg-amber-50 px-3 py-2 rounded-lg border border-amber-100">
+                                     <AlertTriangle size={18} className="mr-2" />
+                                     <span className="text-sm font-bold">{stats.errors} seqs have non-standard chars (see report)</span>
+                                 </div>
+                             ) : (
+                                 <div className="flex items-center text-emerald-600 bg-emerald-50 px-3 py-2 rounded-lg border border-emerald-100">
+                                     <Check size={18} className="mr-2" />
+                                     <span className="text-sm font-bold">All characters valid</span>
+                                 </div>
+                             )}
+                        </div>
+                    ) : (
+                        <div className="text-center text-slate-400 text-sm py-2">
+                            Ready to process.
+                        </div>
+                    )}
+                </div>
+            </div>
+          </div>
+
+          <Card title="Record Operations" action={<span className="text-xs text-slate-400">Applied in order by Clean &amp; Format</span>}>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6 pb-6 border-b border-slate-100">
+              <h4 className="text-xs font-bold text-slate-400 uppercase">0 · Fixes</h4>
+              {([
+                ['uracilToThymine', 'U → T'],
+                ['stripGaps', 'Strip gaps (- .)'],
+                ['ambiguousToN', 'Ambiguous bases → N'],
+                ['dropStops', "Drop stops (*)"],
+              ] as [keyof SequenceFixes, string][]).map(([key, label]) => (
+                <label key={key} className="flex items-center text-xs font-semibold text-slate-600">
+                  <input type="checkbox" className="mr-2 rounded" checked={fixes[key]} onChange={(e) => setFixes({ ...fixes, [key]: e.target.checked })} />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="space-y-3">
+                <h4 className="text-xs font-bold text-slate-400 uppercase">1 · Duplicates</h4>
+                <Select value={dedupe} onChange={(e) => setDedupe(e.target.value as DedupeMode)}>
+                  <option value="none">Keep all records</option>
+                  <option value="sequence">Remove duplicate sequences</option>
+                  <option value="id">Remove duplicate IDs</option>
+                </Select>
+              </div>
+              <div className="space-y-3">
+                <h4 className="text-xs font-bold text-slate-400 uppercase flex items-center"><Filter size={12} className="mr-1" /> 2 · Filter</h4>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input label="Min Length" value={filter.minLength || ''} placeholder="0" onChange={(e) => setFilter({ ...filter, minLength: safeNum(e.target.value) })} />
+                  <Input label="Max Length" value={filter.maxLength || ''} placeholder="∞" onChange={(e) => setFilter({ ...filter, maxLength: safeNum(e.target.value) })} />
+                </div>
+                <Input label="Header Regex" type="text" value={filter.headerPattern} placeholder="e.g. Homo sapiens" onChange={(e) => setFilter({ ...filter, headerPattern: e.target.value })} />
+                <label className="flex items-center text-xs font-semibold text-slate-600">
+                  <input type="checkbox" className="mr-2 rounded" checked={filter.invert} onChange={(e) => setFilter({ ...filter, invert: e.target.checked })} />
+                  Drop matching headers instead
+                </label>
+              </div>
+              <div className="space-y-3">
+                <h4 className="text-xs font-bold text-slate-400 uppercase">3 · Headers &amp; Subsequence</h4>
+                <Input label="Header Template" type="text" value={template} placeholder="e.g. {acc}" onChange={(e) => setTemplate(e.target.value)} />
+                <p className="text-[11px] text-slate-400 ml-1">{HEADER_PLACEHOLDERS.join(' ')}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input label="From" value={range.start} placeholder="1" onChange={(e) => setRange({ ...range, start: e.target.value })} />
+                  <Input label="To" value={range.end} placeholder="end" onChange={(e) => setRange({ ...range, end: e.target.value })} />
+                </div>
+                <p className="text-[11px] text-slate-400 ml-1">1-based, inclusive. From &gt; To takes the reverse complement.</p>
+              </div>
+              <div className="space-y-3">
+                <h4 className="text-xs font-bold text-slate-400 uppercase flex items-center"><FileArchive size={12} className="mr-1" /> Split Output</h4>
+                <Input label="Files" value={splitParts} onChange={(e) => setSplitParts(Math.max(1, Math.floor(safeNum(e.target.value))))} />
+                <Button variant="outline" onClick={handleSplit} disabled={records.length < 2} icon={<Download size={16} />} className="w-full">
+                  Download ZIP
+                </Button>
+                {records.length > 1 && (
+                  <p className="text-[11px] text-slate-400 ml-1">{records.length} records into {Math.min(splitParts, records.length)} files</p>
                 )}
+              </div>
             </div>
-        </div>
-      </div>
+            {opError && <p className="text-xs text-red-500 mt-4">{opError}</p>}
+          </Card>
+
+          {reports.length > 0 && (
+            <Card title="Validation Report">
+              <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="text-slate-500 font-bold uppercase sticky top-0 bg-white">
+                    <tr>
+                      <SortHeader label="#" sortKey="index" sort={sort} onSort={toggleSort} />
+                      <SortHeader label="Header" sortKey="header" sort={sort} onSort={toggleSort} />
+                      <SortHeader label="Alphabet" sortKey="alphabet" sort={sort} onSort={toggleSort} />
+                      <SortHeader label="Length" sortKey="length" sort={sort} onSort={toggleSort} />
+                      <SortHeader label="GC %" sortKey="gc" sort={sort} onSort={toggleSort} />
+                      <SortHeader label="N / X %" sortKey="ambiguousContent" sort={sort} onSort={toggleSort} />
+                      <SortHeader label="Offending Characters" sortKey="issues" sort={sort} onSort={toggleSort} />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {sortedReports.map(r => (
+                      <tr key={r.index} className="align-top">
+                        <td className="px-2 py-1.5 font-bold text-slate-700">{r.index + 1}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-600 max-w-xs truncate" title={r.header}>{r.header}</td>
+                        <td className="px-2 py-1.5 text-slate-600 whitespace-nowrap">{ALPHABET_LABELS[r.alphabet]}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-500">{r.length.toLocaleString()}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-500">{r.gc === null ? '—' : r.gc.toFixed(1)}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-500">{r.ambiguousContent.toFixed(1)}</td>
+                        <td className="px-2 py-1.5">
+                          {r.issues.length ? (
+                            <div className="flex flex-wrap gap-1">
+                              {r.issues.map(issue => <IssueChip key={issue.char} issue={issue} />)}
+                            </div>
+                          ) : (
+                            <span className="flex items-center text-emerald-600"><Check size={12} className="mr-1" /> Valid</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+        </>
+      )}
     </div>
   );
 };
 
+// Sub-components
+const SortHeader: React.FC<{
+  label: string;
+  sortKey: SortKey;
+  sort: { key: SortKey; asc: boolean };
+  onSort: (key: SortKey) => void;
+}> = ({ label, sortKey, sort, onSort }) => (
+  <th className="px-2 py-2">
+    <button onClick={() => onSort(sortKey)} className={`uppercase font-bold hover:text-slate-900 ${sort.key === sortKey ? 'text-slate-900' : ''}`}>
+      {label}{sort.key === sortKey ? (sort.asc ? ' ↑' : ' ↓') : ''}
+    </button>
+  </th>
+);
+
+const IssueChip: React.FC<{ issue: RecordIssue }> = ({ issue }) => {
+  const listed = issue.positions.slice(0, MAX_LISTED_POSITIONS).join(', ');
+  const more = issue.positions.length - MAX_LISTED_POSITIONS;
+  return (
+    <span className={`px-2 py-0.5 rounded font-mono text-[11px] ${ISSUE_STYLES[issue.kind]}`} title={`${issue.kind}: ${issue.positions.join(', ')}`}>
+      '{issue.char}' ×{issue.positions.length} @ {listed}{more > 0 ? `, +${more}` : ''}
+    </span>
+  );
+};
+
 export default FastaCleaner;
\ No newline at end of file
@@ -1,186 +1,35 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { Dna, Printer, AlertCircle, Thermometer, Layers, FlaskConical, Search, Sliders, CheckCircle, XCircle, RefreshCw, Zap, Microscope, ArrowRight, ArrowLeft } from 'lucide-react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { Dna, Printer, AlertCircle, Thermometer, Layers, FlaskConical, Search, Sliders, CheckCircle, XCircle, RefreshCw, Zap, Microscope, ArrowRight, ArrowLeft, Crosshair } from 'lucide-react';
 import { PageHeader, Card, Button, Input, Select } from '../components/UI';
 import { safeNum } from '../utils';
+import {
+    Polymerase, BufferConditions, PrimerResult, StructureHit, DegenerateSummary, POLYMERASE_BUFFERS,
+    cleanSequence, calculatePrimerProps, saltModelFor, freeMagnesium,
+    analyzeStructure, findDimer, isDimerRisk, isHairpinRisk,
+} from '../lib/primerThermo';
+import {
+    SequenceRecord, SpecificityOptions, SpecificityReport, DEFAULT_SPECIFICITY,
+    checkSpecificity, secondarySites, parseFastaRecords,
+} from '../lib/primerSpecificity';
+import { PrimerPair, DesignConfig, DesignStage, DesignWorkerMessage, DEFAULT_RULES, DEFAULT_QPCR, parseRegions } from '../lib/primerDesign';
+import CloningBuilder from '../components/CloningBuilder';
+import MutagenesisDesigner from '../components/MutagenesisDesigner';
+import GoldenGateDesigner from '../components/GoldenGateDesigner';
+import GibsonDesigner from '../components/GibsonDesigner';
+import InSilicoPcr from '../components/InSilicoPcr';
+import SequenceFileButton from '../components/SequenceFileButton';
+import { SequenceDocument } from '../lib/sequenceIO';
 
 // --- Types & Constants ---
-type Mode = 'analyze' | 'design';
-type Polymerase = 'taq' | 'q5' | 'phusion';
-
-interface PrimerResult {
-    seq: string;
-    cleanSeq: string;
-    length: number;
-    gc: number;
-    tmBasic: number;
-    tmNN: number;
-    molecularWeight: number;
-    isValid: boolean;
-    error?: string;
-}
-
-interface CandidatePrimer extends PrimerResult {
-    start: number;
-    end: number;
-    strand: 'sense' | 'antisense';
-}
-
-interface PrimerPair {
-    id: string;
-    forward: CandidatePrimer;
-    reverse: CandidatePrimer;
-    productSize: number;
-    tmDiff: number;
-    score: number;
-}
-
-// SantaLucia 1998 Thermodynamic Parameters
-const NN_PARAMS: Record<string, { dH: number; dS: number }> = {
-    'AA': { dH: -7.9, dS: -22.2 }, 'TT': { dH: -7.9, dS: -22.2 },
-    'AT': { dH: -7.2, dS: -20.4 }, 'TA': { dH: -7.2, dS: -21.3 },
-    'CA': { dH: -8.5, dS: -22.7 }, 'TG': { dH: -8.5, dS: -22.7 },
-    'GT': { dH: -8.4, dS: -22.4 }, 'AC': { dH: -8.4, dS: -22.4 },
-    'CT': { dH: -7.8, dS: -21.0 }, 'AG': { dH: -7.8, dS: -21.0 },
-    'GA': { dH: -8.2, dS: -22.2 }, 'TC': { dH: -8.2, dS: -22.2 },
-    'CG': { dH: -10.6, dS: -27.2 }, 'GC': { dH: -9.8, dS: -24.4 },
-    'GG': { dH: -8.0, dS: -19.9 }, 'CC': { dH: -8.0, dS: -19.9 },
-};
-const NN_INIT_GC = { dH: 0.1, dS: -2.8 };
-const NN_INIT_AT = { dH: 2.3, dS: 4.1 };
-
-const DEFAULT_CONC_NA_MM = 50;
-
-// --- Core Algorithms ---
-const cleanSequence = (seq: string): string => seq.replace(/[^a-zA-Z]/g, '').toUpperCase();
-
-const getComplement = (base: string) => {
-    const map: Record<string, string> = { A: 'T', T: 'A', G: 'C', C: 'G', U: 'A', N: 'N' };
-    return map[base] || 'N';
-};
-
-const reverseComplement = (seq: string) => seq.split('').reverse().map(getComplement).join('');
-
-const calculatePrimerProps = (rawSeq: string, primerConcNm: number): PrimerResult => {
-    const cleanSeq = cleanSequence(rawSeq);
-    if (!cleanSeq) return { seq: rawSeq, cleanSeq: '', length: 0, gc: 0, tmBasic: 0, tmNN: 0, molecularWeight: 0, isValid: false };
-
-    if (/[^ATGC]/.test(cleanSeq)) {
-        return { seq: rawSeq, cleanSeq, length: cleanSeq.length, gc: 0, tmBasic: 0, tmNN: 0, molecularWeight: 0, isValid: false, error: 'Contains non-ATGC' };
-    }
-
-    const length = cleanSeq.length;
-    const g = (cleanSeq.match(/G/g) || []).length;
-    const c = (cleanSeq.match(/C/g) || []).length;
-    const a = (cleanSeq.match(/A/g) || []).length;
-    const t = (cleanSeq.match(/T/g) || []).length;
-    const gcPercent = ((g + c) / length) * 100;
-    const mw = (a * 313.2) + (c * 289.2) + (g * 329.2) + (t * 304.2) - 61.96;
-
-    let tmBasic = length < 14 ? (a + t) * 2 + (g + c) * 4 : 64.9 + 41 * (g + c - 16.4) / length;
-
-    let dH = 0;
-    let dS = 0;
-    const first = cleanSeq[0];
-    const last = cleanSeq[length - 1];
-    if (first === 'G' || first === 'C') { dH += NN_INIT_GC.dH; dS += NN_INIT_GC.dS; } else { dH += NN_INIT_AT.dH; dS += NN_INIT_AT.dS; }
-    if (last === 'G' || last === 'C') { dH += NN_INIT_GC.dH; dS += NN_INIT_GC.dS; } else { dH += NN_INIT_AT.dH; dS += NN_INIT_AT.dS; }
-
-    for (let i = 0; i < length - 1; i++) {
-        const pair = cleanSeq.slice(i, i + 2);
-        if (NN_PARAMS[pair]) { dH += NN_PARAMS[pair].dH; dS += NN_PARAMS[pair].dS; }
-    }
-
-    const saltCorr = 16.6 * Math.log10(DEFAULT_CONC_NA_MM / 1000);
-    const R = 1.987;
-    const Ct = primerConcNm * 1e-9;
-    const term = R * Math.log(Ct / 4);
-    const tmNN = ((dH * 1000) / (dS + term)) - 273.15 + saltCorr;
-
-    return { seq: rawSeq, cleanSeq, length, gc: gcPercent, tmBasic, tmNN, molecularWeight: mw, isValid: true };
-};
-
-const designPrimers = (
-    template: string,
-    config: {
-        minProd: number, maxProd: number,
-        minLen: number, maxLen: number,
-        minTm: number, maxTm: number,
-        optTm: number
-    }
-): PrimerPair[] => {
-    const seq = cleanSequence(template);
-    const len = seq.length;
-    if (len < config.minProd) return [];
-
-    const forwardCandidates: CandidatePrimer[] = [];
-    const reverseCandidates: CandidatePrimer[] = [];
-
-    // Loose scan
-    for (let i = 0; i < len - config.minProd; i++) {
-        for (let l = config.minLen; l <= config.maxLen; l++) {
-            if (i + l > len) break;
-            const sub = seq.substring(i, i + l);
-            const props = calculatePrimerProps(sub, 500);
-            if (props.isValid && props.tmNN >= (config.minTm - 5) && props.tmNN <= (config.maxTm + 5)) {
-                forwardCandidates.push({ ...props, start: i, end: i + l - 1, strand: 'sense' });
-            }
-        }
-    }
-
-    for (let i = config.minProd; i < len; i++) {
-        for (let l = config.minLen; l <= config.maxLen; l++) {
-            if (i - l < 0) continue;
-            const start = i - l + 1;
-            const end = i;
-            const templateSegment = seq.substring(start, end + 1);
-            const primerSeq = reverseComplement(templateSegment);
-            const props = calculatePrimerProps(primerSeq, 500);
-            if (props.isValid && props.tmNN >= (config.minTm - 5) && props.tmNN <= (config.maxTm + 5)) {
-                reverseCandidates.push({ ...props, start: start, end: end, strand: 'antisense' });
-            }
-        }
-    }
-
-    const pairs: PrimerPair[] = [];
-    const MAX_CANDIDATES = 300;
-    forwardCandidates.sort((a, b) => Math.abs(a.tmNN - config.optTm) - Math.abs(b.tmNN - config.optTm));
-    reverseCandidates.sort((a, b) => Math.abs(a.tmNN - config.optTm) - Math.abs(b.tmNN - config.optTm));
-
-    const topFwd = forwardCandidates.slice(0, MAX_CANDIDATES);
-    const topRev = reverseCandidates.slice(0, MAX_CANDIDATES);
-
-    for (const f of topFwd) {
-        for (const r of topRev) {
-            if (r.end <= f.start) continue;
-            const pSize = r.end - f.start + 1;
-            if (pSize < config.minProd || pSize > config.maxProd) continue;
-            // Strict check
-            if (f.tmNN < config.minTm || f.tmNN > config.maxTm) continue;
-            if (r.tmNN < config.minTm || r.tmNN > config.maxTm) continue;
-
-            const tmDiff = Math.abs(f.tmNN - r.tmNN);
-            if (tmDiff > 5) continue;
-
-            const tmPenalty = Math.abs(f.tmNN - config.optTm) + Math.abs(r.tmNN - config.optTm);
-            const diffPenalty = tmDiff * 2;
-            const gcPenalty = (Math.abs(f.gc - 50) + Math.abs(r.gc - 50)) * 0.1;
-            const fClamp = (f.seq.endsWith('G') || f.seq.endsWith('C')) ? 0 : 2;
-            const rClamp = (r.seq.endsWith('G') || r.seq.endsWith('C')) ? 0 : 2;
-
-            const score = tmPenalty + diffPenalty + gcPenalty + fClamp + rClamp;
-
-            pairs.push({
-                id: `${f.start}-${r.end}`,
-                forward: f,
-                reverse: r,
-                productSize: pSize,
-                tmDiff,
-                score
-            });
-        }
-    }
-
-    return pairs.sort((a, b) => a.score - b.score).slice(0, 20);
+type Mode = 'analyze' | 'design' | 'cloning' | 'mutagenesis' | 'goldengate' | 'gibson';
+
+const STAGE_LABELS: Record<DesignStage, string> = {
+    index: 'Indexing template',
+    scan: 'Scanning candidate windows',
+    structure: 'Checking secondary structure',
+    pair: 'Pairing primers',
+    probe: 'Placing hydrolysis probes',
+    specificity: 'Checking off-target binding',
 };
 
 // --- Custom "Space" Components (Only for Design Mode) ---
@@ -217,47 +66,144 @@ const PrimerAnalysis: React.FC = () => {
 
     // Design State
     const [templateInput, setTemplateInput] = useState('');
-    const [designConfig, setDesignConfig] = useState({
+    const [designConfig, setDesignConfig] = useState<Omit<DesignConfig, 'targets' | 'excluded'>>({
         minProd: 100, maxProd: 1000,
         minLen: 18, maxLen: 24,
         minTm: 55, maxTm: 65,
-        optTm: 60
+        optTm: 60,
+        forcedForward: '', forcedReverse: '',
+        rules: DEFAULT_RULES,
+        qpcr: null
     });
+    const [targetsInput, setTargetsInput] = useState('');
+    const [excludedInput, setExcludedInput] = useState('');
     const [designResults, setDesignResults] = useState<PrimerPair[]>([]);
     const [isDesigning, setIsDesigning] = useState(false);
     const [hasSearched, setHasSearched] = useState(false);
     const [selectedPairId, setSelectedPairId] = useState<string | null>(null);
+    const [designProgress, setDesignProgress] = useState<{ stage: DesignStage; fraction: number } | null>(null);
+    const [designError, setDesignError] = useState<string | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+
+    // Off-Target State
+    const [specTemplate, setSpecTemplate] = useState('');
+    const [library, setLibrary] = useState<{ fileName: string; records: SequenceRecord[] } | null>(null);
+    const [specOptions, setSpecOptions] = useState<SpecificityOptions>(DEFAULT_SPECIFICITY);
+    const [specReport, setSpecReport] = useState<SpecificityReport | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    // In-Silico PCR State
+    const [pcrTemplate, setPcrTemplate] = useState('');
 
     // Shared Config
     const [polymerase, setPolymerase] = useState<Polymerase>('q5');
-    const [primerConc, setPrimerConc] = useState<number>(500);
+    const [buffer, setBuffer] = useState<BufferConditions>(POLYMERASE_BUFFERS.q5);
 
     // Logic
-    const fwd = useMemo(() => calculatePrimerProps(fwdInput, primerConc), [fwdInput, primerConc]);
-    const rev = useMemo(() => calculatePrimerProps(revInput, primerConc), [revInput, primerConc]);
+    const fwd = useMemo(() => calculatePrimerProps(fwdInput, buffer), [fwdInput, buffer]);
+    const rev = useMemo(() => calculatePrimerProps(revInput, buffer), [revInput, buffer]);
+    const saltModel = saltModelFor(buffer);
     const analysisTmDiff = fwd.isValid && rev.isValid ? Math.abs(fwd.tmNN - rev.tmNN) : 0;
+    const fwdStructure = useMemo(() => fwd.isValid ? analyzeStructure(fwd.cleanSeq) : null, [fwd]);
+    const revStructure = useMemo(() => rev.isValid ? analyzeStructure(rev.cleanSeq) : null, [rev]);
+    const crossDimer = useMemo(() => fwd.isValid && rev.isValid ? findDimer(fwd.cleanSeq, rev.cleanSeq) : null, [fwd, rev]);
     const analysisTa = useMemo(() => {
         if (!fwd.isValid || !rev.isValid) return null;
-        const minTm = Math.min(fwd.tmNN, rev.tmNN);
+        // Degenerate primers anneal at the weakest variant's Tm
+        const minTm = Math.min(fwd.degenerate?.tmMin ?? fwd.tmNN, rev.degenerate?.tmMin ?? rev.tmNN);
         if (polymerase === 'q5') return Math.floor(minTm);
         if (polymerase === 'phusion') return Math.floor(minTm + 3);
         return Math.floor(minTm - 5);
     }, [fwd, rev, polymerase]);
 
-    const handleDesign = useCallback(async () => {
+    const stopWorker = useCallback(() => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    }, []);
+
+    useEffect(() => stopWorker, [stopWorker]);
+
+    const handleDesign = useCallback(() => {
         if (!templateInput) return;
+        stopWorker();
         setIsDesigning(true);
         setHasSearched(true);
         setDesignResults([]);
-        setTimeout(() => {
-            const pairs = designPrimers(templateInput, designConfig);
-            setDesignResults(pairs);
-            if (pairs.length > 0) setSelectedPairId(pairs[0].id);
+        setDesignError(null);
+        setDesignProgress({ stage: 'index', fraction: 0 });
+
+        const worker = new Worker(new URL('../lib/primerDesign.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        worker.onmessage = (e: MessageEvent<DesignWorkerMessage>) => {
+            const msg = e.data;
+            if (msg.type === 'progress') {
+                setDesignProgress({ stage: msg.stage, fraction: msg.fraction });
+                return;
+            }
+            if (msg.type === 'result') {
+                setDesignResults(msg.pairs);
+                if (msg.pairs.length > 0) setSelectedPairId(msg.pairs[0].id);
+            } else {
+                setDesignError(msg.message);
+            }
+            setIsDesigning(false);
+            setDesignProgress(null);
+            stopWorker();
+        };
+        worker.onerror = (e) => {
+            setDesignError(e.message || 'Design worker failed');
             setIsDesigning(false);
-        }, 50);
-    }, [templateInput, designConfig]);
+            setDesignProgress(null);
+            stopWorker();
+        };
+        const config: DesignConfig = { ...designConfig, targets: parseRegions(targetsInput), excluded: parseRegions(excludedInput) };
+        worker.postMessage({ template: templateInput, config, cond: buffer });
+    }, [templateInput, designConfig, targetsInput, excludedInput, buffer, stopWorker]);
+
+    const handleCancelDesign = useCallback(() => {
+        stopWorker();
+        setIsDesigning(false);
+        setHasSearched(false);
+        setDesignProgress(null);
+    }, [stopWorker]);
+
+    // GenBank, EMBL and SnapGene files load as well as FASTA; every record joins the library
+    const handleLibraryLoad = (docs: SequenceDocument[], fileName: string) => {
+        setLibrary({ fileName, records: docs.map(d => ({ name: d.name, seq: d.seq })) });
+        setSpecReport(null);
+    };
+
+    const handleSpecificity = () => {
+        const records = [
+            ...parseFastaRecords(specTemplate, 'Template'),
+            ...(library?.records ?? []),
+        ];
+        if (records.length === 0 || (!fwd.isValid && !rev.isValid)) return;
+        setIsChecking(true);
+        setTimeout(() => {
+            setSpecReport(checkSpecificity(fwd.isValid ? fwd.cleanSeq : '', rev.isValid ? rev.cleanSeq : '', records, specOptions));
+            setIsChecking(false);
+        }, 20);
+    };
+
+    // qPCR needs short amplicons and closely matched primers; switching modes loads the matching presets
+    const setAssay = (qpcr: boolean) => setDesignConfig(p => qpcr
+        ? { ...p, minProd: 70, maxProd: 150, minTm: 58, maxTm: 62, optTm: 60, qpcr: DEFAULT_QPCR }
+        : { ...p, minProd: 100, maxProd: 1000, minTm: 55, maxTm: 65, optTm: 60, qpcr: null });
+
+    // Loads a designed pair into Analyze mode with its template ready for in-silico PCR
+    const handleSimulatePair = (pair: PrimerPair) => {
+        setFwdInput(pair.forward.cleanSeq);
+        setRevInput(pair.reverse.cleanSeq);
+        setPcrTemplate(templateInput);
+        setMode('analyze');
+    };
 
     const selectedPair = designResults.find(p => p.id === selectedPairId);
+    const selectedViolations = selectedPair ? [
+        ...(selectedPair.forward.ruleViolations ?? []).map(v => `F: ${v}`),
+        ...(selectedPair.reverse.ruleViolations ?? []).map(v => `R: ${v}`),
+    ] : [];
 
     // ===============================================
     // MODE: DESIGN (Space Theme)
@@ -290,7 +236,15 @@ const PrimerAnalysis: React.FC = () => {
                             <GlassCard title="Mission Parameters">
                                 <div className="space-y-6">
                                     <div>
-                                        <label className="text-xs font-bold text-blue-200 uppercase tracking-wider ml-1 mb-2 block">Template Sequence</label>
+                                        <div className="flex justify-between items-center mb-2">
+                                            <label className="text-xs font-bold text-blue-200 uppercase tracking-wider ml-1 block">Template Sequence</label>
+                                            <SequenceFileButton
+                                                variant="ghost"
+                                                label="Open"
+                                                className="!text-blue-200 hover:!text-white hover:!bg-white/10"
+                                                onLoad={docs => setTemplateInput(docs[0].seq)}
+                                            />
+                                        </div>
                                         <textarea
                                             value={templateInput}
                                             onChange={(e) => setTemplateInput(e.target.value)}
@@ -302,6 +256,22 @@ const PrimerAnalysis: React.FC = () => {
                                         </div>
                                     </div>
 
+                                    <div className="text-[11px] text-white/50 font-mono">
+                                        Buffer: {polymerase.toUpperCase()} · {buffer.naMm + buffer.kMm} mM Na⁺/K⁺ · {buffer.mgMm} mM Mg²⁺ · {buffer.dntpMm} mM dNTP · {buffer.primerNm} nM primer
+                                    </div>
+
+                                    <div className="grid grid-cols-2 gap-2 p-1 bg-black/20 rounded-2xl border border-white/10">
+                                        {[false, true].map(q => (
+                                            <button
+                                                key={String(q)}
+                                                onClick={() => setAssay(q)}
+                                                className={`py-2 rounded-xl text-xs font-bold transition-all ${!!designConfig.qpcr === q ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white'}`}
+                                            >
+                                                {q ? 'qPCR (TaqMan)' : 'Conventional PCR'}
+                                            </button>
+                                        ))}
+                                    </div>
+
                                     <div className="grid grid-cols-2 gap-4">
                                         <GlassInput label="Min Prod" value={designConfig.minProd} onChange={(e) => setDesignConfig(p => ({ ...p, minProd: safeNum(e.target.value) }))} />
                                         <GlassInput label="Max Prod" value={designConfig.maxProd} onChange={(e) => setDesignConfig(p => ({ ...p, maxProd: safeNum(e.target.value) }))} />
@@ -309,6 +279,27 @@ const PrimerAnalysis: React.FC = () => {
                                         <GlassInput label="Max Tm" value={designConfig.maxTm} onChange={(e) => setDesignConfig(p => ({ ...p, maxTm: safeNum(e.target.value) }))} />
                                     </div>
 
+                                    {designConfig.qpcr && (
+                                        <div className="grid grid-cols-3 gap-3">
+                                            <GlassInput label="Max ΔTm" value={designConfig.qpcr.maxTmDiff} onChange={(e) => setDesignConfig(p => ({ ...p, qpcr: p.qpcr && { ...p.qpcr, maxTmDiff: safeNum(e.target.value) } }))} />
+                                            <GlassInput label="Probe +Tm Min" value={designConfig.qpcr.probeTmOffsetMin} onChange={(e) => setDesignConfig(p => ({ ...p, qpcr: p.qpcr && { ...p.qpcr, probeTmOffsetMin: safeNum(e.target.value) } }))} />
+                                            <GlassInput label="Probe +Tm Max" value={designConfig.qpcr.probeTmOffsetMax} onChange={(e) => setDesignConfig(p => ({ ...p, qpcr: p.qpcr && { ...p.qpcr, probeTmOffsetMax: safeNum(e.target.value) } }))} />
+                                        </div>
+                                    )}
+
+                                    <div className="space-y-4 pt-2 border-t border-white/10">
+                                        <GlassInput label="Targets (start,len)" placeholder="e.g. 350,120" value={targetsInput} onChange={(e) => setTargetsInput(e.target.value)} />
+                                        <GlassInput label="Excluded (start,len)" placeholder="e.g. 212,1 600,40" value={excludedInput} onChange={(e) => setExcludedInput(e.target.value)} />
+                                        <GlassInput label="Force Forward" placeholder="5'-...-3'" className="font-mono uppercase" value={designConfig.forcedForward} onChange={(e) => setDesignConfig(p => ({ ...p, forcedForward: e.target.value }))} />
+                                        <GlassInput label="Force Reverse" placeholder="5'-...-3'" className="font-mono uppercase" value={designConfig.forcedReverse} onChange={(e) => setDesignConfig(p => ({ ...p, forcedReverse: e.target.value }))} />
+                                    </div>
+
+                                    <div className="grid grid-cols-3 gap-3">
+                                        <GlassInput label="GC Clamp" value={designConfig.rules.gcClamp} onChange={(e) => setDesignConfig(p => ({ ...p, rules: { ...p.rules, gcClamp: safeNum(e.target.value) } }))} />
+                                        <GlassInput label="Max Poly-X" value={designConfig.rules.maxPolyX} onChange={(e) => setDesignConfig(p => ({ ...p, rules: { ...p.rules, maxPolyX: safeNum(e.target.value) } }))} />
+                                        <GlassInput label="Max 3' GC" value={designConfig.rules.maxEndGc} onChange={(e) => setDesignConfig(p => ({ ...p, rules: { ...p.rules, maxEndGc: safeNum(e.target.value) } }))} />
+                                    </div>
+
                                     <button
                                         onClick={handleDesign}
                                         disabled={isDesigning || templateInput.length < 20}
@@ -317,6 +308,15 @@ const PrimerAnalysis: React.FC = () => {
                                         {isDesigning ? <RefreshCw className="animate-spin" /> : <Zap fill="currentColor" />}
                                         <span>{isDesigning ? 'Scanning Sector...' : 'Generate Primers'}</span>
                                     </button>
+                                    {isDesigning && (
+                                        <button
+                                            onClick={handleCancelDesign}
+                                            className="w-full py-3 rounded-2xl font-bold text-white/80 border border-white/20 hover:bg-white/10 transition-all flex items-center justify-center space-x-2"
+                                        >
+                                            <XCircle size={18} />
+                                            <span>Cancel</span>
+                                        </button>
+                                    )}
                                 </div>
                             </GlassCard>
                         </div>
@@ -336,8 +336,16 @@ const PrimerAnalysis: React.FC = () => {
                                                         <div className="text-xs font-bold text-emerald-400 uppercase tracking-widest mb-1">Best Candidate</div>
                                                         <div className="text-3xl font-bold text-white">{selectedPair.productSize} bp <span className="text-lg text-white/50 font-normal">Amplicon</span></div>
                                                     </div>
-                                                    <div className="bg-emerald-500/20 text-emerald-300 px-3 py-1 rounded-full text-xs font-bold border border-emerald-500/30">
-                                                        Score: {selectedPair.score.toFixed(1)}
+                                                    <div className="flex flex-col items-end space-y-2">
+                                                        <div className="bg-emerald-500/20 text-emerald-300 px-3 py-1 rounded-full text-xs font-bold border border-emerald-500/30">
+                                                            Score: {selectedPair.score.toFixed(1)}
+                                                        </div>
+                                                        <button
+                                                            onClick={() => handleSimulatePair(selectedPair)}
+                                                            className="text-xs font-bold text-white/60 hover:text-white flex items-center transition-colors"
+                                                        >
+                                                            In-Silico PCR <ArrowRight size={12} className="ml-1" />
+                                                        </button>
                                                     </div>
                                                 </div>
 
@@ -366,6 +374,59 @@ const PrimerAnalysis: React.FC = () => {
                                                         <div className="text-xs text-white/50">Tm: {selectedPair.reverse.tmNN.toFixed(1)}°C | GC: {selectedPair.reverse.gc.toFixed(0)}%</div>
                                                     </div>
                                                 </div>
+
+                                                {/* Probe */}
+                                                {selectedPair.probe && (
+                                                    <div className="mt-6 p-4 rounded-2xl bg-emerald-500/10 border border-emerald-400/20">
+                                                        <div className="flex items-center justify-between mb-2">
+                                                            <span className="text-emerald-200 font-bold text-sm">TaqMan Probe ({selectedPair.probe.strand === 'sense' ? 'Sense' : 'Antisense'})</span>
+                                                            <span className="text-xs text-white/50">Amplicon GC: {selectedPair.ampliconGc?.toFixed(0)}%</span>
+                                                        </div>
+                                                        <div className="font-mono text-sm text-white/90 break-all mb-1">{selectedPair.probe.cleanSeq}</div>
+                                                        <div className="text-xs text-white/50">
+                                                            Tm: {selectedPair.probe.tmNN.toFixed(1)}°C (+{(selectedPair.probe.tmNN - (selectedPair.forward.tmNN + selectedPair.reverse.tmNN) / 2).toFixed(1)}°C over primers) | GC: {selectedPair.probe.gc.toFixed(0)}% | {selectedPair.probe.length} nt
+                                                        </div>
+                                                    </div>
+                                                )}
+                                                {selectedPair.warnings && selectedPair.warnings.length > 0 && (
+                                                    <div className="mt-4 flex flex-wrap gap-2">
+                                                        {selectedPair.warnings.map(w => (
+                                                            <span key={w} className="px-2 py-1 rounded-full text-[10px] font-bold bg-red-500/10 text-red-300 border border-red-400/30">{w}</span>
+                                                        ))}
+                                                    </div>
+                                                )}
+
+                                                {/* Rule Violations */}
+                                                {selectedViolations.length > 0 && (
+                                                    <div className="mt-6 flex flex-wrap gap-2">
+                                                        {selectedViolations.map(v => (
+                                                            <span key={v} className="px-2 py-1 rounded-full text-[10px] font-bold bg-amber-500/10 text-amber-300 border border-amber-400/30">{v}</span>
+                                                        ))}
+                                                    </div>
+                                                )}
+
+                                                {/* Secondary Structure */}
+                                                <div className="mt-6 pt-6 border-t border-white/10 grid grid-cols-2 md:grid-cols-5 gap-3">
+                                                    <StructureChip label="F Hairpin" hit={selectedPair.forward.structure?.hairpin ?? null} risk={isHairpinRisk(selectedPair.forward.structure?.hairpin ?? null)} />
+                                                    <StructureChip label="F Self-Dimer" hit={selectedPair.forward.structure?.selfDimer ?? null} risk={isDimerRisk(selectedPair.forward.structure?.selfDimer ?? null)} />
+                                                    <StructureChip label="R Hairpin" hit={selectedPair.reverse.structure?.hairpin ?? null} risk={isHairpinRisk(selectedPair.reverse.structure?.hairpin ?? null)} />
+                                                    <StructureChip label="R Self-Dimer" hit={selectedPair.reverse.structure?.selfDimer ?? null} risk={isDimerRisk(selectedPair.reverse.structure?.selfDimer ?? null)} />
+                                                    <StructureChip label="Cross-Dimer" hit={selectedPair.crossDimer} risk={isDimerRisk(selectedPair.crossDimer)} />
+                                                </div>
+                                                {selectedPair.crossDimer && (
+                                                    <pre className="mt-4 p-3 rounded-xl bg-black/30 text-[11px] leading-4 text-white/70 overflow-x-auto">{selectedPair.crossDimer.alignment.join('\n')}</pre>
+                                                )}
+
+                                                {/* Off-Target */}
+                                                {selectedPair.offTarget && (
+                                                    <div className={`mt-4 p-3 rounded-xl text-xs border ${selectedPair.offTarget.extraProducts.length > 0 ? 'bg-red-500/10 border-red-400/30 text-red-200' : 'bg-white/5 border-white/10 text-white/60'}`}>
+                                                        <span className="font-bold uppercase text-[10px] tracking-wider mr-2">Template Off-Target</span>
+                                                        {selectedPair.offTarget.secondarySites} secondary site{selectedPair.offTarget.secondarySites === 1 ? '' : 's'}
+                                                        {selectedPair.offTarget.extraProducts.length > 0
+                                                            ? ` · extra products: ${selectedPair.offTarget.extraProducts.map(size => `${size} bp`).join(', ')}`
+                                                            : ' · no extra products'}
+                                                    </div>
+                                                )}
                                             </div>
                                         </div>
                                     )}
@@ -385,6 +446,7 @@ const PrimerAnalysis: React.FC = () => {
                                                         <div className="text-xs text-white/50 flex space-x-3">
                                                             <span className="text-cyan-200">F: {pair.forward.tmNN.toFixed(1)}°</span>
                                                             <span className="text-purple-200">R: {pair.reverse.tmNN.toFixed(1)}°</span>
+                                                            {pair.probe && <span className="text-emerald-200">P: {pair.probe.tmNN.toFixed(1)}°</span>}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -398,10 +460,22 @@ const PrimerAnalysis: React.FC = () => {
                             ) : (
                                 <div className="h-full min-h-[400px] flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-white/10 rounded-3xl bg-white/5">
                                     {isDesigning ? (
-                                        <div className="animate-pulse">
-                                            <div className="w-16 h-16 bg-white/20 rounded-full mb-4 mx-auto" />
-                                            <div className="text-white/50">Scanning genome sector...</div>
+                                        <div className="w-full max-w-sm">
+                                            <div className="w-16 h-16 bg-white/20 rounded-full mb-4 mx-auto animate-pulse" />
+                                            <div className="text-white/50 mb-3">{designProgress ? STAGE_LABELS[designProgress.stage] : 'Scanning genome sector'}...</div>
+                                            <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                                                <div
+                                                    className="h-full bg-gradient-to-r from-cyan-400 to-purple-400 transition-all"
+                                                    style={{ width: `${Math.round((designProgress?.fraction ?? 0) * 100)}%` }}
+                                                />
+                                            </div>
                                         </div>
+                                    ) : designError ? (
+                                        <>
+                                            <AlertCircle size={48} className="text-red-400 mb-4" />
+                                            <h3 className="text-xl font-bold text-white">Design Failed</h3>
+                                            <p className="text-white/50 mt-2 max-w-sm">{designError}</p>
+                                        </>
                                     ) : hasSearched ? (
                                         <>
                                             <XCircle size={48} className="text-red-400 mb-4" />
@@ -424,6 +498,33 @@ const PrimerAnalysis: React.FC = () => {
         );
     }
 
+    // ===============================================
+    // MODES: CLONING, MUTAGENESIS & ASSEMBLY (Standard Light Theme)
+    // ===============================================
+    if (mode === 'cloning' || mode === 'mutagenesis' || mode === 'goldengate' || mode === 'gibson') {
+        const headers = {
+            cloning: { title: 'Cloning Primers', description: 'Add restriction-site tails or Gibson/In-Fusion overlaps to insert primers.' },
+            mutagenesis: { title: 'Site-Directed Mutagenesis', description: 'Design QuikChange and Q5-SDM primers for substitutions, insertions and deletions.' },
+            goldengate: { title: 'Golden Gate Assembly', description: 'Design fusion sites, domesticate parts and tail primers for BsaI, BsmBI, BbsI or SapI assemblies.' },
+            gibson: { title: 'Gibson Assembly', description: 'Plan overlaps and primers for multi-fragment Gibson / NEBuilder HiFi assemblies.' },
+        };
+        return (
+            <div className="space-y-8 animate-fadeIn">
+                <PageHeader
+                    title={headers[mode].title}
+                    description={headers[mode].description}
+                    action={
+                        <Button variant="outline" onClick={() => setMode('analyze')} icon={<ArrowLeft size={16} />}>Back to Analyzer</Button>
+                    }
+                />
+                {mode === 'cloning' ? <CloningBuilder buffer={buffer} />
+                    : mode === 'mutagenesis' ? <MutagenesisDesigner buffer={buffer} />
+                    : mode === 'goldengate' ? <GoldenGateDesigner buffer={buffer} />
+                    : <GibsonDesigner buffer={buffer} />}
+            </div>
+        );
+    }
+
     // ===============================================
     // MODE: ANALYZE (Standard Light Theme)
     // ===============================================
@@ -449,6 +550,30 @@ const PrimerAnalysis: React.FC = () => {
                     >
                         Launch Designer <ArrowRight size={16} className="ml-2" />
                     </button>
+                    <button
+                        onClick={() => setMode('cloning')}
+                        className="mt-3 text-slate-300 hover:text-white text-sm font-semibold flex items-center transition-colors"
+                    >
+                        Build cloning primers (restriction sites, Gibson, In-Fusion) <ArrowRight size={14} className="ml-1" />
+                    </button>
+                    <button
+                        onClick={() => setMode('mutagenesis')}
+                        className="mt-2 text-slate-300 hover:text-white text-sm font-semibold flex items-center transition-colors"
+                    >
+                        Design mutagenesis primers (QuikChange, Q5-SDM) <ArrowRight size={14} className="ml-1" />
+                    </button>
+                    <button
+                        onClick={() => setMode('goldengate')}
+                        className="mt-2 text-slate-300 hover:text-white text-sm font-semibold flex items-center transition-colors"
+                    >
+                        Plan a Golden Gate assembly (BsaI, BsmBI, BbsI, SapI) <ArrowRight size={14} className="ml-1" />
+                    </button>
+                    <button
+                        onClick={() => setMode('gibson')}
+                        className="mt-2 text-slate-300 hover:text-white text-sm font-semibold flex items-center transition-colors"
+                    >
+                        Plan a multi-fragment Gibson / NEBuilder assembly <ArrowRight size={14} className="ml-1" />
+                    </button>
                 </div>
             </div>
 
@@ -459,7 +584,11 @@ const PrimerAnalysis: React.FC = () => {
                         <div className="relative">
                             <select
                                 value={polymerase}
-                                onChange={(e) => setPolymerase(e.target.value as Polymerase)}
+                                onChange={(e) => {
+                                    const next = e.target.value as Polymerase;
+                                    setPolymerase(next);
+                                    setBuffer(POLYMERASE_BUFFERS[next]);
+                                }}
                                 className="block w-full appearance-none rounded-2xl border-slate-200 bg-slate-50 py-3 pl-4 pr-10 text-slate-900 focus:bg-white focus:border-pink-500 focus:ring-2 focus:ring-pink-500/20 sm:text-sm transition-all"
                             >
                                 <option value="q5">Q5 High-Fidelity</option>
@@ -476,12 +605,21 @@ const PrimerAnalysis: React.FC = () => {
                     </div>
                     <Input
                         label="Primer Concentration (nM)"
-                        value={primerConc}
-                        onChange={(e) => setPrimerConc(safeNum(e.target.value))}
+                        value={buffer.primerNm}
+                        onChange={(e) => setBuffer(b => ({ ...b, primerNm: safeNum(e.target.value) }))}
                         placeholder="500"
                         rightElement={<span className="text-xs font-bold text-slate-500">nM</span>}
                     />
                 </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mt-6">
+                    <Input label="Na⁺" unit="mM" value={buffer.naMm} onChange={(e) => setBuffer(b => ({ ...b, naMm: safeNum(e.target.value) }))} />
+                    <Input label="K⁺" unit="mM" value={buffer.kMm} onChange={(e) => setBuffer(b => ({ ...b, kMm: safeNum(e.target.value) }))} />
+                    <Input label="Mg²⁺" unit="mM" value={buffer.mgMm} onChange={(e) => setBuffer(b => ({ ...b, mgMm: safeNum(e.target.value) }))} />
+                    <Input label="dNTP (total)" unit="mM" value={buffer.dntpMm} onChange={(e) => setBuffer(b => ({ ...b, dntpMm: safeNum(e.target.value) }))} />
+                </div>
+                <p className="text-xs text-slate-500 ml-1 mt-3">
+                    Selecting a polymerase loads its buffer chemistry. dNTPs chelate Mg²⁺; free Mg²⁺ is {(freeMagnesium(buffer.mgMm / 1000, buffer.dntpMm / 1000) * 1000).toFixed(2)} mM.
+                </p>
             </Card>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -496,11 +634,12 @@ const PrimerAnalysis: React.FC = () => {
                         <textarea
                             className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-blue-500 focus:ring-0 font-mono text-sm uppercase transition-colors"
                             rows={2}
-                            placeholder="5'-ATCG...-3'"
+                            placeholder="5'-ATCG...-3' (IUPAC codes and I allowed)"
                             value={fwdInput}
                             onChange={(e) => setFwdInput(e.target.value)}
                         />
                         {fwd.isValid && <PrimerBadge p={fwd} color="blue" />}
+                        {fwd.degenerate && <DegeneracyPanel summary={fwd.degenerate} />}
                         {fwd.error && <ErrorMsg msg={fwd.error} />}
                     </div>
 
@@ -513,11 +652,12 @@ const PrimerAnalysis: React.FC = () => {
                         <textarea
                             className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-indigo-500 focus:ring-0 font-mono text-sm uppercase transition-colors"
                             rows={2}
-                            placeholder="5'-ATCG...-3'"
+                            placeholder="5'-ATCG...-3' (IUPAC codes and I allowed)"
                             value={revInput}
                             onChange={(e) => setRevInput(e.target.value)}
                         />
                         {rev.isValid && <PrimerBadge p={rev} color="indigo" />}
+                        {rev.degenerate && <DegeneracyPanel summary={rev.degenerate} />}
                         {rev.error && <ErrorMsg msg={rev.error} />}
                     </div>
                 </div>
@@ -544,7 +684,9 @@ const PrimerAnalysis: React.FC = () => {
                                     </div>
                                     <div className="flex justify-between items-center text-sm p-3 bg-white rounded-xl border border-slate-100">
                                         <span className="text-slate-600">Salt Correction</span>
-                                        <span className="text-slate-900">SantaLucia 1998</span>
+                                        <span className="text-slate-900">
+                                            {saltModel === 'divalent' ? 'Owczarzy 2008 (Mg²⁺)' : saltModel === 'monovalent' ? 'Owczarzy 2004 (Na⁺/K⁺)' : 'None (1 M Na⁺)'}
+                                        </span>
                                     </div>
                                 </div>
 
@@ -564,6 +706,80 @@ const PrimerAnalysis: React.FC = () => {
                     </Card>
                 </div>
             </div>
+
+            <Card title="Secondary Structure">
+                {fwdStructure || revStructure ? (
+                    <div className="space-y-6">
+                        <p className="text-xs text-slate-500">
+                            ΔG at 37°C (nearest-neighbor, SantaLucia 1998). Structures that pair the 3' end can be extended by the polymerase and are flagged at a lower threshold.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {fwdStructure && (
+                                <>
+                                    <StructureRow label="Forward Hairpin" hit={fwdStructure.hairpin} risk={isHairpinRisk(fwdStructure.hairpin)} />
+                                    <StructureRow label="Forward Self-Dimer" hit={fwdStructure.selfDimer} risk={isDimerRisk(fwdStructure.selfDimer)} />
+                                </>
+                            )}
+                            {revStructure && (
+                                <>
+                                    <StructureRow label="Reverse Hairpin" hit={revStructure.hairpin} risk={isHairpinRisk(revStructure.hairpin)} />
+                                    <StructureRow label="Reverse Self-Dimer" hit={revStructure.selfDimer} risk={isDimerRisk(revStructure.selfDimer)} />
+                                </>
+                            )}
+                        </div>
+                        {fwd.isValid && rev.isValid && (
+                            <StructureRow label="Forward / Reverse Cross-Dimer" hit={crossDimer} risk={isDimerRisk(crossDimer)} />
+                        )}
+                    </div>
+                ) : (
+                    <div className="text-center text-slate-400 py-6">Enter a primer to check hairpins and dimers</div>
+                )}
+            </Card>
+
+            <Card
+                title="Off-Target Check"
+                action={
+                    <SequenceFileButton
+                        onLoad={handleLibraryLoad}
+                        label={library ? `${library.fileName} (${library.records.length})` : 'Upload Library'}
+                    />
+                }
+            >
+                <div className="space-y-6">
+                    <textarea
+                        className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-28 resize-none"
+                        placeholder="PASTE TEMPLATE (RAW OR FASTA)..."
+                        value={specTemplate}
+                        onChange={(e) => setSpecTemplate(e.target.value)}
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+                        <Input
+                            label="Max Mismatch Score"
+                            value={specOptions.maxScore}
+                            onChange={(e) => setSpecOptions(o => ({ ...o, maxScore: safeNum(e.target.value) }))}
+                        />
+                        <Input
+                            label="Max Extra Product"
+                            unit="bp"
+                            value={specOptions.maxProduct}
+                            onChange={(e) => setSpecOptions(o => ({ ...o, maxProduct: safeNum(e.target.value) }))}
+                        />
+                        <Button
+                            onClick={handleSpecificity}
+                            disabled={isChecking || (!fwd.isValid && !rev.isValid) || (!specTemplate.trim() && !library)}
+                            icon={isChecking ? <RefreshCw size={16} className="animate-spin" /> : <Crosshair size={16} />}
+                        >
+                            {isChecking ? 'Scanning...' : 'Scan Binding Sites'}
+                        </Button>
+                    </div>
+                    <p className="text-xs text-slate-500 ml-1">
+                        Mismatches cost 4 within 3 nt of the 3' end, 2 within 8 nt and 1 elsewhere. Both strands of the template and every library record are scanned.
+                    </p>
+                    {specReport && <SpecificityResults report={specReport} />}
+                </div>
+            </Card>
+
+            <InSilicoPcr forward={fwdInput} reverse={revInput} template={pcrTemplate} onTemplateChange={setPcrTemplate} />
         </div>
     );
 };
@@ -599,6 +815,145 @@ const PrimerBadge: React.FC<{ p: PrimerResult, color?: 'blue' | 'indigo', theme?
     );
 };
 
+const DegeneracyPanel: React.FC<{ summary: DegenerateSummary }> = ({ summary }) => (
+    <div className="bg-white p-3 rounded-xl border border-amber-100 shadow-sm text-xs space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+            <div>
+                <span className="text-slate-400 block uppercase text-[10px] font-bold">Degeneracy</span>
+                <span className="font-bold text-amber-600">{summary.degeneracy.toLocaleString()}×{summary.inosines > 0 && <span className="text-slate-400 font-normal"> + {summary.inosines} I</span>}</span>
+            </div>
+            <div>
+                <span className="text-slate-400 block uppercase text-[10px] font-bold">Tm Range</span>
+                <span className="font-bold text-slate-700">{summary.tmMin.toFixed(1)}–{summary.tmMax.toFixed(1)}°C</span>
+            </div>
+            <div>
+                <span className="text-slate-400 block uppercase text-[10px] font-bold">MW Range</span>
+                <span className="font-bold text-slate-700">{summary.mwMin.toFixed(0)}–{summary.mwMax.toFixed(0)} Da</span>
+            </div>
+        </div>
+        <div className="text-slate-500">
+            Mean Tm {summary.tmMean.toFixed(1)}°C · GC {summary.gcMin.toFixed(0)}–{summary.gcMax.toFixed(0)}%
+            {summary.sampled && ` · range from ${summary.variantsEvaluated.toLocaleString()} sampled variants`}
+        </div>
+        <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-lg">
+            <table className="w-full text-left">
+                <thead className="bg-slate-50 text-slate-500 font-bold text-[10px] uppercase sticky top-0">
+                    <tr>
+                        <th className="px-2 py-1">Variant</th>
+                        <th className="px-2 py-1">Tm</th>
+                        <th className="px-2 py-1">GC%</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50 font-mono">
+                    {summary.variants.map((v, i) => (
+                        <tr key={i}>
+                            <td className="px-2 py-1 text-slate-700">{v.seq}</td>
+                            <td className={`px-2 py-1 ${v.tm === summary.tmMin ? 'text-blue-600 font-bold' : v.tm === summary.tmMax ? 'text-red-500 font-bold' : 'text-slate-600'}`}>{v.tm.toFixed(1)}</td>
+                            <td className="px-2 py-1 text-slate-600">{v.gc.toFixed(0)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+        {summary.variantsEvaluated > summary.variants.length && (
+            <div className="text-slate-400">Showing {summary.variants.length} of {summary.variantsEvaluated.toLocaleString()} variants.</div>
+        )}
+    </div>
+);
+
+const StructureRow: React.FC<{ label: string; hit: StructureHit | null; risk: boolean }> = ({ label, hit, risk }) => (
+    <div className={`p-4 rounded-2xl border ${risk ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}>
+        <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-bold text-slate-700">{label}</span>
+            {hit ? (
+                <span className={`font-mono text-sm font-bold ${risk ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {hit.dG.toFixed(2)} kcal/mol{hit.threePrime && <span className="ml-2 text-[10px] uppercase">3' end</span>}
+                </span>
+            ) : (
+                <span className="flex items-center text-xs font-bold text-emerald-600"><CheckCircle size={12} className="mr-1" /> None</span>
+            )}
+        </div>
+        {hit && <pre className="text-[11px] leading-4 text-slate-600 overflow-x-auto">{hit.alignment.join('\n')}</pre>}
+    </div>
+);
+
+const StructureChip: React.FC<{ label: string; hit: StructureHit | null; risk: boolean }> = ({ label, hit, risk }) => (
+    <div className={`p-2 rounded-xl border text-xs ${risk ? 'bg-red-500/10 border-red-400/30' : 'bg-white/5 border-white/10'}`}>
+        <span className="block text-[10px] uppercase font-bold text-white/40">{label}</span>
+        <span className={`font-mono font-bold ${risk ? 'text-red-300' : 'text-emerald-300'}`}>
+            {hit ? `${hit.dG.toFixed(1)}${hit.threePrime ? " 3'" : ''}` : '—'}
+        </span>
+    </div>
+);
+
+const SpecificityResults: React.FC<{ report: SpecificityReport }> = ({ report }) => {
+    const offSites = secondarySites(report);
+    const extra = report.products.filter(p => !p.intended);
+    const intended = report.products.find(p => p.intended);
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                    <span className="text-slate-400 block uppercase text-[10px] font-bold">Intended Product</span>
+                    <span className="font-bold text-slate-700">{intended ? `${intended.size} bp` : 'None found'}</span>
+                </div>
+                <div className={`p-3 rounded-xl border ${offSites.length ? 'bg-amber-50 border-amber-100' : 'bg-slate-50 border-slate-100'}`}>
+                    <span className="text-slate-400 block uppercase text-[10px] font-bold">Secondary Sites</span>
+                    <span className="font-bold text-slate-700">{offSites.length}{report.truncated && '+'}</span>
+                </div>
+                <div className={`p-3 rounded-xl border ${extra.length ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}>
+                    <span className="text-slate-400 block uppercase text-[10px] font-bold">Extra Products</span>
+                    <span className={`font-bold ${extra.length ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {extra.length ? extra.map(p => `${p.size} bp`).join(', ') : 'None'}
+                    </span>
+                </div>
+            </div>
+
+            {extra.length > 0 && (
+                <div className="space-y-2">
+                    {extra.map((p, i) => (
+                        <div key={i} className="flex items-start p-3 bg-red-50 text-red-800 rounded-lg text-sm border border-red-100">
+                            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                            <p>
+                                {p.size} bp on <span className="font-mono">{p.record}</span>: {p.forward.primer} at {p.forward.start + 1} → {p.reverse.primer} at {p.reverse.end + 1}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {offSites.length > 0 && (
+                <div className="overflow-x-auto max-h-80">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-slate-50 text-slate-500 font-bold text-xs uppercase sticky top-0">
+                            <tr>
+                                <th className="px-3 py-2">Primer</th>
+                                <th className="px-3 py-2">Record</th>
+                                <th className="px-3 py-2">Strand</th>
+                                <th className="px-3 py-2">Position</th>
+                                <th className="px-3 py-2">Mismatches (3')</th>
+                                <th className="px-3 py-2">Alignment</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {offSites.map((site, i) => (
+                                <tr key={i}>
+                                    <td className="px-3 py-2 font-bold text-slate-700">{site.primer}</td>
+                                    <td className="px-3 py-2 font-mono text-xs text-slate-500">{site.record}</td>
+                                    <td className="px-3 py-2 text-slate-500">{site.strand === 'sense' ? '+' : '−'}</td>
+                                    <td className="px-3 py-2 font-mono text-slate-700">{site.start + 1}–{site.end + 1}</td>
+                                    <td className="px-3 py-2 font-mono text-slate-700">{site.mismatches} ({site.threePrimeMismatches})</td>
+                                    <td className="px-3 py-2"><pre className="text-[10px] leading-3 text-slate-500">{site.alignment.join('\n')}</pre></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const ErrorMsg: React.FC<{ msg: string }> = ({ msg }) => (
     <div className="mt-2 text-red-500 text-xs flex items-center bg-red-50 p-2 rounded-lg"><XCircle size={12} className="mr-1" /> {msg}</div>
 );
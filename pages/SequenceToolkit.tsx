@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Copy, Dna, Download, Search } from 'lucide-react';
+import { PageHeader, Card, Button, Input, Select } from '../components/UI';
+import SequenceFileButton from '../components/SequenceFileButton';
+import { downloadBlob, safeNum } from '../utils';
+import { complement, reverse, reverseComplement } from '../lib/nucleotide';
+import { GENETIC_CODES, findGeneticCode, translate, translateSixFrames } from '../lib/geneticCode';
+import { SeqFeature, featureLength, featureSequence, findOrfs } from '../lib/features';
+import { SequenceDocument, parseSequenceText, toFasta } from '../lib/sequenceIO';
+
+type StrandOp = 'revcomp' | 'complement' | 'reverse';
+
+const STRAND_OPS: { id: StrandOp; label: string; apply: (seq: string) => string }[] = [
+  { id: 'revcomp', label: 'Reverse Complement', apply: reverseComplement },
+  { id: 'complement', label: 'Complement', apply: complement },
+  { id: 'reverse', label: 'Reverse', apply: reverse },
+];
+
+interface OrfRow {
+  feature: SeqFeature;
+  frame: string;
+  length: number; // nt, stop included
+  protein: string;
+}
+
+// Reading frame label (+1..-3) of an ORF, counted on its own strand
+const orfFrame = (f: SeqFeature, seqLength: number): string =>
+  f.strand === -1 ? `-${((seqLength - f.end) % 3) + 1}` : `+${(f.start % 3) + 1}`;
+
+const SequenceToolkit: React.FC = () => {
+  const [input, setInput] = useState('');
+  const [circular, setCircular] = useState(false);
+  const [recordIndex, setRecordIndex] = useState(0);
+  const [op, setOp] = useState<StrandOp>('revcomp');
+  const [codeId, setCodeId] = useState(1);
+  const [minAa, setMinAa] = useState(100);
+  const [alternativeStarts, setAlternativeStarts] = useState(false);
+  const [copied, setCopied] = useState('');
+
+  const records = useMemo(() => (input.trim() ? parseSequenceText(input).filter(r => r.seq) : []), [input]);
+  const record = records[Math.min(recordIndex, records.length - 1)] as SequenceDocument | undefined;
+  const seq = record?.seq ?? '';
+  const code = findGeneticCode(codeId);
+
+  const strandOutput = useMemo(() => {
+    const apply = STRAND_OPS.find(o => o.id === op)!.apply;
+    if (records.length === 1) return apply(records[0].seq);
+    return toFasta(records.map(r => ({ name: r.name, description: `(${op})`, seq: apply(r.seq) })));
+  }, [records, op]);
+
+  const frames = useMemo(() => (seq ? translateSixFrames(seq, code) : []), [seq, code]);
+
+  const orfs = useMemo((): OrfRow[] => {
+    if (!seq) return [];
+    return findOrfs(seq, Math.max(1, minAa), circular, { code, alternativeStarts }).map(f => {
+      const nt = featureSequence(seq, f);
+      return { feature: f, frame: orfFrame(f, seq.length), length: featureLength(f, seq.length), protein: translate(nt, code, true) };
+    });
+  }, [seq, minAa, circular, code, alternativeStarts]);
+
+  const handleOpen = (docs: SequenceDocument[]) => {
+    setInput(toFasta(docs));
+    setCircular(docs[0]?.circular ?? false);
+    setRecordIndex(0);
+  };
+
+  const handleCopy = (key: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(''), 1500);
+  };
+
+  const orfFasta = (protein: boolean) => toFasta(orfs.map((o, i) => ({
+    name: `${record?.name ?? 'sequence'}_ORF${i + 1}`,
+    description: `${o.feature.start + 1}..${o.feature.end} (${o.feature.strand === -1 ? '-' : '+'}) frame ${o.frame} ${o.protein.length - 1} aa`,
+    seq: protein ? o.protein : featureSequence(seq, o.feature),
+  })));
+
+  const handleExportOrfs = (protein: boolean) =>
+    downloadBlob(protein ? 'orfs_protein.fasta' : 'orfs.fasta', new Blob([orfFasta(protein)], { type: 'text/plain' }));
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title="Sequence Toolkit"
+        description="Reverse and complement sequences, translate all six frames with any NCBI genetic code, and find open reading frames."
+      />
+
+      <Card title="Sequence" action={<SequenceFileButton variant="ghost" onLoad={handleOpen} />}>
+        <div className="space-y-4">
+          <textarea
+            className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-36 resize-none"
+            placeholder="PASTE DNA OR RNA (RAW, FASTA, GENBANK OR EMBL)..."
+            value={input}
+            onChange={(e) => { setInput(e.target.value); setRecordIndex(0); }}
+            spellCheck={false}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+            {records.length > 1 ? (
+              <Select label="Record" value={recordIndex} onChange={(e) => setRecordIndex(parseInt(e.target.value, 10))}>
+                {records.map((r, i) => <option key={i} value={i}>{r.name} · {r.seq.length} bp</option>)}
+              </Select>
+            ) : (
+              <div className="text-sm text-slate-500 ml-1 pb-3">{seq ? `${record?.name} · ${seq.length} bp` : 'No sequence'}</div>
+            )}
+            <Select label="Genetic Code" value={codeId} onChange={(e) => setCodeId(parseInt(e.target.value, 10))}>
+              {GENETIC_CODES.map(c => <option key={c.id} value={c.id}>{c.id}. {c.name}</option>)}
+            </Select>
+            <label className="flex items-center text-sm font-semibold text-slate-900 pb-3">
+              <input type="checkbox" className="mr-2 rounded" checked={circular} onChange={(e) => setCircular(e.target.checked)} />
+              Circular (ORFs may cross the origin)
+            </label>
+          </div>
+        </div>
+      </Card>
+
+      {seq && (
+        <>
+          <Card
+            title="Strand Operations"
+            action={
+              <Button variant="ghost" size="sm" onClick={() => handleCopy('strand', strandOutput)} icon={copied === 'strand' ? <Check size={14} /> : <Copy size={14} />}>
+                {copied === 'strand' ? 'Copied' : 'Copy'}
+              </Button>
+            }
+          >
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {STRAND_OPS.map(o => (
+                  <button
+                    key={o.id}
+                    onClick={() => setOp(o.id)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${op === o.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+              </div>
+              <pre className="font-mono text-xs whitespace-pre-wrap break-all text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 max-h-48 overflow-y-auto">
+                {strandOutput}
+              </pre>
+            </div>
+          </Card>
+
+          <Card title={`Six-Frame Translation · table ${code.id}`}>
+            <div className="space-y-3">
+              {frames.map(f => (
+                <div key={f.label} className="flex items-start">
+                  <span className={`w-10 shrink-0 font-mono text-xs font-bold pt-0.5 ${f.strand === 1 ? 'text-emerald-600' : 'text-pink-600'}`}>{f.label}</span>
+                  <FrameProtein protein={f.protein} />
+                </div>
+              ))}
+              <p className="text-xs text-slate-500">Stops are shown as <span className="font-mono text-red-500">*</span>; minus-strand frames read the reverse complement 5'→3'.</p>
+            </div>
+          </Card>
+
+          <Card
+            title={`Open Reading Frames · ${orfs.length}`}
+            action={
+              orfs.length > 0 && (
+                <div className="flex items-center space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleExportOrfs(false)} icon={<Download size={14} />}>DNA FASTA</Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExportOrfs(true)} icon={<Download size={14} />}>Protein FASTA</Button>
+                </div>
+              )
+            }
+          >
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-end">
+                <Input label="Minimum Length" unit="aa" value={minAa} onChange={(e) => setMinAa(safeNum(e.target.value))} />
+                <label className="flex items-center text-sm font-semibold text-slate-900 pb-3">
+                  <input type="checkbox" className="mr-2 rounded" checked={alternativeStarts} onChange={(e) => setAlternativeStarts(e.target.checked)} />
+                  Alternative start codons ({code.starts.join(', ')})
+                </label>
+              </div>
+              {orfs.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left">
+                    <thead className="text-slate-500 font-bold uppercase">
+                      <tr>
+                        <th className="px-2 py-2">#</th>
+                        <th className="px-2 py-2">Frame</th>
+                        <th className="px-2 py-2">Location</th>
+                        <th className="px-2 py-2">Length</th>
+                        <th className="px-2 py-2">Start</th>
+                        <th className="px-2 py-2">Protein</th>
+                        <th className="px-2 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {orfs.map((o, i) => (
+                        <tr key={i}>
+                          <td className="px-2 py-1.5 font-bold text-slate-700">{i + 1}</td>
+                          <td className="px-2 py-1.5 font-mono text-slate-600">{o.frame}</td>
+                          <td className="px-2 py-1.5 font-mono text-slate-600 whitespace-nowrap">{o.feature.start + 1}–{o.feature.end}</td>
+                          <td className="px-2 py-1.5 font-mono text-slate-500 whitespace-nowrap">{o.length} bp · {o.protein.length - 1} aa</td>
+                          <td className="px-2 py-1.5 font-mono text-slate-500">{featureSequence(seq, o.feature).slice(0, 3)}</td>
+                          <td className="px-2 py-1.5 font-mono text-slate-500 max-w-xs truncate" title={o.protein}>{o.protein}</td>
+                          <td className="px-2 py-1.5 text-right">
+                            <button onClick={() => handleCopy(`orf${i}`, o.protein)} className="text-slate-400 hover:text-slate-900" title="Copy protein">
+                              {copied === `orf${i}` ? <Check size={14} /> : <Copy size={14} />}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+                  <Search size={32} strokeWidth={1} className="mb-3 opacity-50" />
+                  No ORFs of {Math.max(1, minAa)} codons or more
+                </div>
+              )}
+              {/[^ACGTU]/.test(seq) && (
+                <div className="flex items-start text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                  <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" /> Ambiguous bases translate as X unless every reading gives the same amino acid.
+                </div>
+              )}
+            </div>
+          </Card>
+        </>
+      )}
+
+      {!seq && (
+        <Card>
+          <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+            <Dna size={32} strokeWidth={1} className="mb-3 opacity-50" />
+            Paste or open a sequence to start
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+// Sub-components
+const FrameProtein: React.FC<{ protein: string }> = ({ protein }) => (
+  <div className="font-mono text-xs break-all text-slate-700 leading-relaxed">
+    {protein.split('*').map((part, i, parts) => (
+      <React.Fragment key={i}>
+        {part}
+        {i < parts.length - 1 && <span className="text-red-500 font-bold">*</span>}
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+export default SequenceToolkit;
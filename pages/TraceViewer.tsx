@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Activity, AlertCircle, Download, FolderOpen, RefreshCw } from 'lucide-react';
+import { PageHeader, Card, Button, Select } from '../components/UI';
+import Chromatogram from '../components/Chromatogram';
+import SequenceFileButton from '../components/SequenceFileButton';
+import { Trace, TRACE_FILE_ACCEPT, mottTrim, readTraceFile } from '../lib/chromatogram';
+import { AlignRequest, AlignWorkerMessage, AlignmentColumn, DifferenceKind, ReadAlignment, columnKind } from '../lib/alignment';
+import { SequenceDocument, parseSequenceText, toFasta } from '../lib/sequenceIO';
+import { downloadBlob } from '../utils';
+
+// Other pages open this one with `{ reference: SequenceDocument }` as router state
+interface TraceViewerState {
+  reference?: SequenceDocument;
+}
+
+const TRIM_LIMITS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 0.01, label: 'Strict (error 0.01)' },
+  { value: 0.05, label: 'Standard (error 0.05)' },
+  { value: 0.1, label: 'Lenient (error 0.10)' },
+];
+
+const ZOOM_LEVELS = [0.5, 1, 1.5, 2, 3];
+
+const DIFFERENCE_STYLES: Record<DifferenceKind, { label: string; fill: string; text: string }> = {
+  mismatch: { label: 'Mismatch', fill: '#fca5a5', text: 'bg-red-100 text-red-700' },
+  ambiguous: { label: 'Ambiguous', fill: '#7dd3fc', text: 'bg-sky-100 text-sky-700' },
+  insertion: { label: 'Insertion', fill: '#fcd34d', text: 'bg-amber-100 text-amber-700' },
+  deletion: { label: 'Deletion', fill: '#c4b5fd', text: 'bg-violet-100 text-violet-700' },
+};
+
+const BLOCK_WIDTH = 60;
+
+// Pause after the last edit before the reference is aligned again
+const ALIGN_DELAY_MS = 400;
+
+const TraceViewer: React.FC = () => {
+  const location = useLocation();
+  const handoff = (location.state as TraceViewerState | null)?.reference;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [trace, setTrace] = useState<Trace | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [errorLimit, setErrorLimit] = useState(0.05);
+  const [zoom, setZoom] = useState(1);
+  const [refText, setRefText] = useState(() => (handoff ? toFasta([handoff]) : ''));
+  const [circular, setCircular] = useState(handoff?.circular ?? false);
+  const [focus, setFocus] = useState<number | null>(null);
+  const [alignment, setAlignment] = useState<ReadAlignment | null>(null);
+  const [alignError, setAlignError] = useState('');
+  const [aligning, setAligning] = useState(false);
+
+  const trim = useMemo(
+    (): [number, number] => (trace ? mottTrim(trace.qualities, trace.baseCalls.length, errorLimit) : [0, 0]),
+    [trace, errorLimit]
+  );
+  const trimmed = trace ? trace.baseCalls.slice(trim[0], trim[1]) : '';
+
+  const stats = useMemo(() => {
+    if (!trace || trace.qualities.length === 0) return null;
+    const kept = trace.qualities.slice(trim[0], trim[1]);
+    return {
+      mean: kept.reduce((a, b) => a + b, 0) / (kept.length || 1),
+      q20: kept.filter(q => q >= 20).length,
+    };
+  }, [trace, trim]);
+
+  const reference = useMemo(() => (refText.trim() ? parseSequenceText(refText).find(r => r.seq) : undefined), [refText]);
+
+  // Only the trimmed read is aligned, in a worker once typing pauses; read
+  // positions are shifted back onto the trace
+  useEffect(() => {
+    setAlignment(null);
+    setAlignError('');
+    if (!trimmed || !reference) {
+      setAligning(false);
+      return;
+    }
+    setAligning(true);
+    let worker: Worker | null = null;
+    const stop = () => {
+      worker?.terminate();
+      worker = null;
+    };
+    const timer = setTimeout(() => {
+      worker = new Worker(new URL('../lib/alignment.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<AlignWorkerMessage>) => {
+        const msg = e.data;
+        if (msg.type === 'result') {
+          const result = msg.alignment;
+          const shift = (pos: number | null) => (pos === null ? null : pos + trim[0]);
+          setAlignment({
+            ...result,
+            columns: result.columns.map(c => ({ ...c, readPos: shift(c.readPos) })),
+            differences: result.differences.map(d => ({ ...d, readPos: d.readPos + trim[0] })),
+          });
+        } else {
+          setAlignError(msg.message);
+        }
+        setAligning(false);
+        stop();
+      };
+      worker.onerror = (e) => {
+        setAlignError(e.message || 'Alignment worker failed');
+        setAligning(false);
+        stop();
+      };
+      const request: AlignRequest = { read: trimmed, reference: reference.seq, circular };
+      worker.postMessage(request);
+    }, ALIGN_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      stop();
+    };
+  }, [trimmed, reference, circular, trim]);
+
+  const marks = useMemo(() => {
+    const map = new Map<number, string>();
+    alignment?.differences.forEach(d => {
+      if (d.readPos >= 0) map.set(d.readPos, DIFFERENCE_STYLES[d.kind].fill);
+    });
+    return map;
+  }, [alignment]);
+
+  const counts = useMemo(() => {
+    const c: Record<DifferenceKind, number> = { mismatch: 0, ambiguous: 0, insertion: 0, deletion: 0 };
+    alignment?.differences.forEach(d => { c[d.kind] += d.kind === 'insertion' ? d.read.length : d.kind === 'deletion' ? d.ref.length : 1; });
+    return c;
+  }, [alignment]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setTrace(await readTraceFile(file));
+      setFocus(null);
+      setLoadError('');
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOpenReference = (docs: SequenceDocument[]) => {
+    setRefText(toFasta([docs[0]]));
+    setCircular(docs[0].circular);
+  };
+
+  const handleExport = (fastq: boolean) => {
+    if (!trace) return;
+    const name = trace.name.replace(/\s+/g, '_');
+    const text = fastq
+      ? `@${name}\n${trimmed}\n+\n${trace.qualities.slice(trim[0], trim[1]).map(q => String.fromCharCode(Math.min(q, 93) + 33)).join('')}\n`
+      : `${toFasta([{ name, description: `trimmed ${trim[0] + 1}..${trim[1]}`, seq: trimmed }])}\n`;
+    downloadBlob(`${name}${fastq ? '.fastq' : '.fasta'}`, new Blob([text], { type: 'text/plain' }));
+  };
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title="Sanger Trace Viewer"
+        description="Inspect AB1 and SCF chromatograms, trim low-quality ends and check the read against your reference sequence."
+      />
+
+      <Card
+        title={trace ? `${trace.name} · ${trace.format.toUpperCase()}` : 'Chromatogram'}
+        action={
+          <div className="flex items-center space-x-2">
+            {loadError && <span className="text-xs text-red-500">{loadError}</span>}
+            {trace && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => handleExport(false)} disabled={!trimmed} icon={<Download size={14} />}>FASTA</Button>
+                {trace.qualities.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => handleExport(true)} disabled={!trimmed} icon={<Download size={14} />}>FASTQ</Button>
+                )}
+              </>
+            )}
+            <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()} icon={<FolderOpen size={14} />}>Open Trace</Button>
+            <input type="file" ref={fileRef} className="hidden" accept={TRACE_FILE_ACCEPT} onChange={handleFile} />
+          </div>
+        }
+      >
+        {trace ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat label="Base Calls" value={`${trace.baseCalls.length} nt`} />
+              <Stat label="Kept" value={trimmed ? `${trim[0] + 1}–${trim[1]} · ${trimmed.length} nt` : 'None'} />
+              <Stat label="Mean Quality" value={stats ? `Q${stats.mean.toFixed(1)}` : 'n/a'} />
+              <Stat label="Q20+ Bases" value={stats ? `${stats.q20} nt` : 'n/a'} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Select label="End Trimming (Mott)" value={errorLimit} onChange={(e) => setErrorLimit(parseFloat(e.target.value))} disabled={trace.qualities.length === 0}>
+                {TRIM_LIMITS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </Select>
+              <Select label="Zoom" value={zoom} onChange={(e) => setZoom(parseFloat(e.target.value))}>
+                {ZOOM_LEVELS.map(z => <option key={z} value={z}>{z * 100}%</option>)}
+              </Select>
+            </div>
+            <Chromatogram trace={trace} trim={trim} zoom={zoom} marks={marks} focus={focus} onSelect={setFocus} />
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+              <span><span className="font-bold text-green-600">A</span> <span className="font-bold text-blue-600">C</span> <span className="font-bold text-slate-900">G</span> <span className="font-bold text-red-600">T</span> channels</span>
+              <span>Bars: Phred quality (red &lt;20, amber &lt;30)</span>
+              <span>Grey: trimmed ends</span>
+              {trace.qualities.length === 0 && <span className="text-amber-600">No quality values in this file; trimming is off</span>}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center text-slate-400 py-6 flex flex-col items-center">
+            <Activity size={32} strokeWidth={1} className="mb-3 opacity-50" />
+            Open an .ab1 or .scf file to view the trace
+          </div>
+        )}
+      </Card>
+
+      <Card title="Reference" action={<SequenceFileButton variant="ghost" onLoad={handleOpenReference} />}>
+        <div className="space-y-4">
+          <textarea
+            className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-pink-500 focus:ring-0 font-mono text-xs uppercase transition-colors h-28 resize-none"
+            placeholder="PASTE THE EXPECTED SEQUENCE (RAW, FASTA, GENBANK OR EMBL)..."
+            value={refText}
+            onChange={(e) => setRefText(e.target.value)}
+            spellCheck={false}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="flex items-center text-sm text-slate-500 ml-1">
+              {reference ? `${reference.name} · ${reference.seq.length} bp` : 'No reference'}
+              {aligning && <><RefreshCw size={14} className="animate-spin ml-3 mr-1" /> Aligning...</>}
+            </span>
+            <label className="flex items-center text-sm font-semibold text-slate-900">
+              <input type="checkbox" className="mr-2 rounded" checked={circular} onChange={(e) => setCircular(e.target.checked)} />
+              Circular (reads may cross the origin)
+            </label>
+          </div>
+        </div>
+      </Card>
+
+      {alignError && (
+        <div className="flex items-center text-sm text-red-600 bg-red-50 border border-red-100 rounded-xl px-4 py-3">
+          <AlertCircle size={16} className="mr-2 shrink-0" /> {alignError}
+        </div>
+      )}
+
+      {alignment && reference && (
+        <Card title={`Alignment · ${(alignment.identity * 100).toFixed(1)}% identity`}>
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat label="Strand" value={alignment.strand === 1 ? 'Forward' : 'Reverse complement'} />
+              <Stat label="Reference Span" value={`${alignment.refStart + 1}–${((alignment.refEnd - 1) % reference.seq.length) + 1}`} />
+              <Stat label="Mismatches" value={`${counts.mismatch}${counts.ambiguous ? ` (+${counts.ambiguous} ambiguous)` : ''}`} />
+              <Stat label="Indels" value={`${counts.insertion} ins · ${counts.deletion} del`} />
+            </div>
+            <AlignmentBlocks columns={alignment.columns} focus={focus} onSelect={setFocus} />
+            {alignment.differences.length > 0 ? (
+              <div className="overflow-x-auto max-h-72 overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="text-slate-500 font-bold uppercase">
+                    <tr>
+                      <th className="px-2 py-2">Type</th>
+                      <th className="px-2 py-2">Reference</th>
+                      <th className="px-2 py-2">Read</th>
+                      <th className="px-2 py-2">Change</th>
+                      <th className="px-2 py-2">Quality</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {alignment.differences.map((d, i) => (
+                      <tr
+                        key={i}
+                        onClick={() => setFocus(d.readPos)}
+                        className={`cursor-pointer hover:bg-slate-50 ${focus === d.readPos ? 'bg-pink-50' : ''}`}
+                      >
+                        <td className="px-2 py-1.5">
+                          <span className={`px-2 py-0.5 rounded-full font-bold ${DIFFERENCE_STYLES[d.kind].text}`}>{DIFFERENCE_STYLES[d.kind].label}</span>
+                        </td>
+                        <td className="px-2 py-1.5 font-mono text-slate-600">{d.refPos + 1}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-600">{d.readPos + 1}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-700">{d.ref} → {d.read}</td>
+                        <td className="px-2 py-1.5 font-mono text-slate-500">{trace?.qualities[d.readPos] !== undefined ? `Q${trace.qualities[d.readPos]}` : '–'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-sm text-emerald-600 font-semibold">The trimmed read matches the reference exactly.</div>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+// Sub-components
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <div className="text-xs font-bold text-slate-400 uppercase">{label}</div>
+    <div className="font-bold text-slate-800">{value}</div>
+  </div>
+);
+
+const AlignmentBlocks: React.FC<{ columns: AlignmentColumn[]; focus: number | null; onSelect: (readPos: number) => void }> = ({ columns, focus, onSelect }) => {
+  const blocks: AlignmentColumn[][] = [];
+  for (let i = 0; i < columns.length; i += BLOCK_WIDTH) blocks.push(columns.slice(i, i + BLOCK_WIDTH));
+  // First and last 1-based positions of a row within a block, skipping gaps
+  const bounds = (block: AlignmentColumn[], key: 'refPos' | 'readPos'): [string, string] => {
+    const positions = block.map(c => c[key]).filter((p): p is number => p !== null);
+    return positions.length ? [`${positions[0] + 1}`, `${positions[positions.length - 1] + 1}`] : ['', ''];
+  };
+
+  return (
+    <div className="font-mono text-xs overflow-x-auto bg-slate-50 border border-slate-100 rounded-lg p-3 space-y-3">
+      {blocks.map((block, b) => (
+        <div key={b} className="whitespace-pre leading-5">
+          <div className="flex">
+            <span className="w-16 shrink-0 text-right pr-3 text-slate-400">{bounds(block, 'refPos')[0]}</span>
+            <span className="text-slate-700">{block.map(c => c.ref).join('')}</span>
+            <span className="pl-3 text-slate-400">{bounds(block, 'refPos')[1]}</span>
+          </div>
+          <div className="flex">
+            <span className="w-16 shrink-0" />
+            <span className="text-slate-400">{block.map(c => (columnKind(c) ? ' ' : '|')).join('')}</span>
+          </div>
+          <div className="flex">
+            <span className="w-16 shrink-0 text-right pr-3 text-slate-400">{bounds(block, 'readPos')[0]}</span>
+            <span>
+              {block.map((c, i) => {
+                const kind = columnKind(c);
+                if (!kind) return <span key={i} className="text-slate-700">{c.read}</span>;
+                const target = c.readPos;
+                return (
+                  <span
+                    key={i}
+                    onClick={target === null ? undefined : () => onSelect(target)}
+                    className={`font-bold ${DIFFERENCE_STYLES[kind].text} ${target !== null ? 'cursor-pointer' : ''} ${target !== null && target === focus ? 'ring-1 ring-pink-500' : ''}`}
+                  >
+                    {c.read}
+                  </span>
+                );
+              })}
+            </span>
+            <span className="pl-3 text-slate-400">{bounds(block, 'readPos')[1]}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TraceViewer;
@@ -6,21 +6,25 @@ export const safeNum = (val: number | string): number => {
   return isNaN(parsed) ? 0 : parsed;
 };
 
-export const downloadCSV = (filename: string, headers: string[], rows: (string | number)[][]) => {
-  const csvContent = [
-    headers.join(','),
-    ...rows.map(row => row.join(','))
-  ].join('\n');
-
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export const downloadBlob = (filename: string, blob: Blob) => {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.setAttribute('href', url);
-  link.setAttribute('download', `${filename}.csv`);
+  link.setAttribute('download', filename);
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadCSV = (filename: string, headers: string[], rows: (string | number)[][]) => {
+  const csvContent = [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+
+  downloadBlob(`${filename}.csv`, new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }));
 };
 
 export const formatScientific = (num: number, decimals = 2): string => {